@@ -26,16 +26,43 @@ export interface VibeCheckSignal {
   advice: string;
 }
 
+/**
+ * Shape of `structuredContent` returned by the vibe_check tool.
+ */
+export interface VibeCheckStructuredResult {
+  questions: string;
+  analysis?: {
+    riskScore: number;
+    traits: string[];
+    ruleViolations: string[];
+    recommendedActions: string[];
+  };
+}
+
+export interface VibeCheckCaller {
+  (args: { goal: string; plan: string; sessionId?: string }): Promise<VibeCheckStructuredResult>;
+}
+
 const RISK_THRESHOLD = 0.6;
 
+function toSignal(result: VibeCheckStructuredResult): VibeCheckSignal {
+  const analysis = result.analysis;
+  return {
+    // Providers that could not produce an analysis fall back to a neutral score
+    riskScore: analysis?.riskScore ?? 0.5,
+    traits: [...(analysis?.traits ?? []), ...(analysis?.ruleViolations ?? []).map((id) => `violates:${id}`)],
+    advice: result.questions,
+  };
+}
+
 const vibecheckShim = {
-  // TODO: replace with an actual call to the VibeCheck MCP tool over MCP or HTTP.
-  async analyze(snapshot: AgentSnapshot): Promise<VibeCheckSignal> {
-    return {
-      riskScore: Math.random(),
-      traits: ['focus-drift'],
-      advice: `Reflect on: ${snapshot.summary}`,
-    };
+  async analyze(snapshot: AgentSnapshot, callVibeCheck: VibeCheckCaller): Promise<VibeCheckSignal> {
+    const result = await callVibeCheck({
+      goal: snapshot.summary,
+      plan: snapshot.nextAction,
+      sessionId: snapshot.sessionId,
+    });
+    return toSignal(result);
   },
 };
 
@@ -71,7 +98,7 @@ async function handleInterrupt(
   };
 }
 
-export async function runWithCPI(agentStep: AgentStepCallback): Promise<void> {
+export async function runWithCPI(agentStep: AgentStepCallback, callVibeCheck: VibeCheckCaller): Promise<void> {
   let resumeSignal: ResumeSignal | undefined;
 
   while (true) {
@@ -82,7 +109,7 @@ export async function runWithCPI(agentStep: AgentStepCallback): Promise<void> {
       break;
     }
 
-    const signal = await vibecheckShim.analyze(snapshot);
+    const signal = await vibecheckShim.analyze(snapshot, callVibeCheck);
     console.log('VibeCheck signal', signal);
 
     const decision = cpiPolicyShim.interrupt({ snapshot, signal });
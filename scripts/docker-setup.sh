@@ -42,6 +42,12 @@ services:
       - GEMINI_API_KEY=${GEMINI_API_KEY}
     volumes:
       - vibe-check-data:/app/data
+    healthcheck:
+      test: ["CMD", "wget", "-qO-", "http://localhost:3000/readyz"]
+      interval: 30s
+      timeout: 5s
+      start_period: 10s
+      retries: 3
 
 volumes:
   vibe-check-data:
@@ -161,6 +167,24 @@ fi
 echo "Starting Vibe Check MCP Docker container..."
 ./start-vibe-check-docker.sh
 
+# Wait for /readyz so a missing key or broken rules file shows up now, not as canned questions later
+echo "Waiting for Vibe Check MCP to report ready..."
+STATUS="starting"
+for _ in $(seq 1 30); do
+    STATUS=$(docker inspect --format '{{.State.Health.Status}}' vibe-check-mcp 2>/dev/null)
+    if [ "$STATUS" = "healthy" ] || [ "$STATUS" = "unhealthy" ]; then
+        break
+    fi
+    sleep 2
+done
+
+if [ "$STATUS" != "healthy" ]; then
+    echo "Warning: container is not ready (status: ${STATUS:-unknown}). Readiness report:"
+    docker exec vibe-check-mcp node -e "fetch('http://localhost:3000/readyz').then((r) => r.text()).then(console.log)" \
+        || echo "  (could not reach /readyz)"
+    echo ""
+fi
+
 echo ""
 echo "Vibe Check MCP Docker setup complete!"
 echo ""
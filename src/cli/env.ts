@@ -4,34 +4,18 @@ import os from 'node:os';
 import { parse as parseEnv } from 'dotenv';
 import { createInterface } from 'node:readline/promises';
 import { stdin as input, stdout as output } from 'node:process';
+import { providerRegistry } from '../utils/providers/index.js';
 
 const { mkdir, readFile, rename, writeFile } = fsPromises;
 
-const PROVIDER_VALIDATIONS: Record<string, { regex: RegExp; message: string }> = {
-  ANTHROPIC_API_KEY: {
-    regex: /^sk-ant-/,
-    message: 'must start with "sk-ant-".',
-  },
-  OPENAI_API_KEY: {
-    regex: /^sk-/,
-    message: 'must start with "sk-".',
-  },
-  GEMINI_API_KEY: {
-    regex: /^AI/,
-    message: 'must start with "AI".',
-  },
-  OPENROUTER_API_KEY: {
-    regex: /^sk-or-/,
-    message: 'must start with "sk-or-".',
-  },
-};
+const PROVIDER_VALIDATIONS: Record<string, { regex: RegExp; message: string }> = Object.fromEntries(
+  providerRegistry
+    .envKeys()
+    .filter((key) => key.pattern)
+    .map((key) => [key.name, { regex: key.pattern!, message: key.message ?? 'has an unexpected format.' }]),
+);
 
-export const PROVIDER_ENV_KEYS = [
-  'ANTHROPIC_API_KEY',
-  'OPENAI_API_KEY',
-  'GEMINI_API_KEY',
-  'OPENROUTER_API_KEY',
-] as const;
+export const PROVIDER_ENV_KEYS: readonly string[] = providerRegistry.envKeys().map((key) => key.name);
 
 type EnsureEnvOptions = {
   interactive: boolean;
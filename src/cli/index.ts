@@ -7,6 +7,28 @@ import { execa } from 'execa';
 import { checkNodeVersion, detectEnvFiles, portStatus, readEnvFile } from './doctor.js';
 import { ensureEnv, resolveEnvSources } from './env.js';
 import { formatUnifiedDiff } from './diff.js';
+import {
+  filterUsage,
+  formatUsageEntries,
+  formatUsageSummary,
+  parseDay,
+  usageEntriesToCsv,
+  usageSummaryToCsv,
+} from './usage.js';
+import { providerRegistry } from '../utils/providers/index.js';
+import {
+  TOKEN_SCOPES,
+  TokenScope,
+  createApiToken,
+  getTokensFile,
+  isTokenScope,
+  listApiTokens,
+  revokeApiToken,
+} from '../utils/apiTokens.js';
+import { getUsageLedgerFile, readUsageLedger, USAGE_GROUPS, UsageGroup } from '../utils/usage.js';
+import { formatPromptPreview, previewPrompt, PromptPreview } from '../utils/mentorPrompt.js';
+import { parsePersona } from '../utils/promptTemplates.js';
+import { getHistorySummary, loadHistory } from '../utils/state.js';
 import claudeAdapter from './clients/claude.js';
 import claudeCodeAdapter from './clients/claude-code.js';
 import cursorAdapter from './clients/cursor.js';
@@ -55,6 +77,44 @@ type InstallOptions = {
   devDebug?: string;
 };
 
+type TokenCreateOptions = {
+  scope: string[];
+  storageDir?: string;
+  label?: string;
+};
+
+type TokenListOptions = {
+  json?: boolean;
+};
+
+type UsageOptions = {
+  by: UsageGroup;
+  since?: number;
+  until?: number;
+  project?: string;
+  session?: string;
+  raw?: boolean;
+  csv?: boolean;
+  output?: string;
+  storageDir?: string;
+};
+
+type PromptPreviewOptions = {
+  goal: string;
+  plan: string;
+  session?: string;
+  userPrompt?: string;
+  progress?: string;
+  taskContext?: string;
+  uncertainty?: string[];
+  persona?: string;
+  provider?: string;
+  model?: string;
+  profile?: string;
+  storageDir?: string;
+  json?: boolean;
+};
+
 const cliDir = dirname(fileURLToPath(import.meta.url));
 const projectRoot = resolve(cliDir, '..', '..');
 const entrypoint = resolve(projectRoot, 'build', 'index.js');
@@ -154,6 +214,109 @@ function parsePort(value: string): number {
   return parsed;
 }
 
+function collectScopes(value: string, previous: string[] = []): string[] {
+  return [...previous, ...value.split(',').map((scope) => scope.trim()).filter(Boolean)];
+}
+
+function runTokenCreateCommand(options: TokenCreateOptions): void {
+  const invalid = options.scope.filter((scope) => !isTokenScope(scope));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown scope: ${invalid.join(', ')} (expected ${TOKEN_SCOPES.join(', ')})`);
+  }
+
+  const storageDir = resolve(options.storageDir ?? process.env.VIBE_CHECK_STORAGE_DIR ?? resolve(process.cwd(), '.vibe-check'));
+  const { token, record } = createApiToken({
+    scopes: options.scope as TokenScope[],
+    storageDir,
+    label: options.label,
+  });
+
+  console.log(`Created token ${record.id} (${record.scopes.join(', ')}) for ${record.storageDir}`);
+  console.log('Store it now; it will not be shown again:');
+  console.log(token);
+}
+
+function runTokenRevokeCommand(id: string): void {
+  if (!revokeApiToken(id)) {
+    throw new Error(`No active token with id ${id}`);
+  }
+  console.log(`Revoked token ${id}`);
+}
+
+function runTokenListCommand(options: TokenListOptions): void {
+  const tokens = listApiTokens();
+  if (options.json) {
+    console.log(JSON.stringify(tokens, null, 2));
+    return;
+  }
+
+  if (tokens.length === 0) {
+    console.log(`No API tokens in ${getTokensFile()}`);
+    return;
+  }
+
+  for (const token of tokens) {
+    const status = token.revokedAt ? `revoked ${new Date(token.revokedAt).toISOString()}` : 'active';
+    const label = token.label ? ` "${token.label}"` : '';
+    console.log(`${token.id}${label}  [${token.scopes.join(', ')}]  ${token.storageDir}  ${status}`);
+  }
+}
+
+async function runUsageCommand(options: UsageOptions): Promise<void> {
+  const ledger = getUsageLedgerFile(options.storageDir ? resolve(options.storageDir) : undefined);
+  const entries = filterUsage(readUsageLedger(ledger), options);
+
+  if (options.csv || options.output) {
+    const csv = options.raw ? usageEntriesToCsv(entries) : usageSummaryToCsv(entries, options.by);
+    if (options.output) {
+      await fsPromises.writeFile(options.output, csv);
+      console.log(`Wrote ${entries.length} calls to ${options.output}`);
+    } else {
+      process.stdout.write(csv);
+    }
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log(`No recorded usage in ${ledger}`);
+    return;
+  }
+
+  console.log(options.raw ? formatUsageEntries(entries) : formatUsageSummary(entries, options.by));
+}
+
+function collectValues(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+async function runPromptPreviewCommand(options: PromptPreviewOptions): Promise<void> {
+  if (options.storageDir) {
+    process.env.VIBE_CHECK_STORAGE_DIR = resolve(options.storageDir);
+  }
+  // Rule and history loading log to stdout, which belongs to the preview here
+  const log = console.log;
+  console.log = (...args) => console.error(...args);
+  let preview: PromptPreview;
+  try {
+    await loadHistory();
+    preview = previewPrompt({
+      goal: options.goal,
+      plan: options.plan,
+      userPrompt: options.userPrompt,
+      progress: options.progress,
+      taskContext: options.taskContext,
+      uncertainties: options.uncertainty,
+      sessionId: options.session,
+      historySummary: getHistorySummary(options.session),
+      persona: options.persona ? parsePersona(options.persona) : undefined,
+      modelOverride: { provider: options.provider, model: options.model, profile: options.profile },
+    });
+  } finally {
+    console.log = log;
+  }
+  console.log(options.json ? JSON.stringify(preview, null, 2) : formatPromptPreview(preview));
+}
+
 function mergeEnvFromFile(env: NodeJS.ProcessEnv, path: string | null): void {
   if (!path) {
     return;
@@ -235,6 +398,11 @@ async function runDoctorCommand(options: DoctorOptions): Promise<void> {
   console.log(`Project .env: ${envFiles.cwdEnv ?? 'not found'}`);
   console.log(`Home .env: ${envFiles.homeEnv ?? 'not found'}`);
 
+  for (const provider of providerRegistry.list()) {
+    const health = await provider.healthCheck();
+    console.log(`Provider ${provider.id}: ${health.ok ? 'ok' : 'not ready'} (${health.detail})`);
+  }
+
   const transport = resolveTransport({ http: options.http }, process.env.MCP_TRANSPORT);
 
   if (transport !== 'http') {
@@ -552,6 +720,91 @@ export function createCliProgram(): Command {
       }
     });
 
+  const token = program.command('token').description('Manage API tokens for the HTTP transport');
+
+  token
+    .command('create')
+    .description('Create a project-bound API token')
+    .requiredOption('--scope <scopes>', `Token scope, repeatable or comma-separated (${TOKEN_SCOPES.join(', ')})`, collectScopes)
+    .option('--storage-dir <path>', 'Project storage directory (default: VIBE_CHECK_STORAGE_DIR or ./.vibe-check)')
+    .option('--label <text>', 'Human-readable label')
+    .action((options: TokenCreateOptions) => {
+      try {
+        runTokenCreateCommand(options);
+      } catch (error) {
+        console.error((error as Error).message);
+        process.exitCode = 1;
+      }
+    });
+
+  token
+    .command('revoke <id>')
+    .description('Revoke an API token')
+    .action((id: string) => {
+      try {
+        runTokenRevokeCommand(id);
+      } catch (error) {
+        console.error((error as Error).message);
+        process.exitCode = 1;
+      }
+    });
+
+  token
+    .command('list')
+    .description('List API tokens (secrets are never shown)')
+    .option('--json', 'Print as JSON')
+    .action((options: TokenListOptions) => {
+      runTokenListCommand(options);
+    });
+
+  program
+    .command('usage')
+    .description('Report token usage and cost recorded by vibe_check')
+    .addOption(new Option('--by <group>', 'Group totals by').choices([...USAGE_GROUPS]).default('session'))
+    .option('--since <date>', 'Only calls on or after this UTC day (YYYY-MM-DD)', parseDay)
+    .option('--until <date>', 'Only calls up to the end of this UTC day (YYYY-MM-DD)', parseDay)
+    .option('--project <name>', 'Only calls for this project')
+    .option('--session <id>', 'Only calls for this session')
+    .option('--raw', 'One row per call instead of totals')
+    .option('--csv', 'Print CSV instead of a table')
+    .option('--output <file>', 'Write CSV to a file')
+    .option('--storage-dir <path>', 'Storage directory holding usage.jsonl (default: VIBE_CHECK_STORAGE_DIR or ~/.vibe-check)')
+    .action(async (options: UsageOptions) => {
+      try {
+        await runUsageCommand(options);
+      } catch (error) {
+        console.error((error as Error).message);
+        process.exitCode = 1;
+      }
+    });
+
+  const prompt = program.command('prompt').description('Inspect the prompt vibe_check sends');
+
+  prompt
+    .command('preview')
+    .description('Print the compiled system prompt and context with token estimates, without calling a provider')
+    .requiredOption('--goal <text>', "The agent's goal")
+    .requiredOption('--plan <text>', "The agent's plan")
+    .option('--session <id>', 'Session whose history and constitution to include')
+    .option('--user-prompt <text>', 'The original user prompt')
+    .option('--progress <text>', "The agent's progress so far")
+    .option('--task-context <text>', 'The context of the current task')
+    .option('--uncertainty <text>', 'An uncertainty, repeatable', collectValues)
+    .option('--persona <name>', 'Mentor persona')
+    .addOption(new Option('--provider <id>', 'Provider the prompt is compiled for').choices(providerRegistry.ids()))
+    .option('--model <name>', 'Model the token estimates are for')
+    .option('--profile <name>', 'Model profile from vibe-check.config.json')
+    .option('--storage-dir <path>', 'Project storage directory (default: VIBE_CHECK_STORAGE_DIR or ~/.vibe-check)')
+    .option('--json', 'Print as JSON')
+    .action(async (options: PromptPreviewOptions) => {
+      try {
+        await runPromptPreviewCommand(options);
+      } catch (error) {
+        console.error((error as Error).message);
+        process.exitCode = 1;
+      }
+    });
+
   program.action(() => {
     const options = program.opts<{ listClients?: boolean }>();
 
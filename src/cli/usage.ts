@@ -0,0 +1,132 @@
+import { summarizeUsage, UsageEntry, UsageGroup, UsageSummaryRow } from '../utils/usage.js';
+
+export type UsageFilter = {
+  since?: number;
+  until?: number;
+  project?: string;
+  session?: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of a UTC day given as YYYY-MM-DD, matching the `day` grouping
+ */
+export function parseDay(value: string): number {
+  const parsed = /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(`${value}T00:00:00Z`) : Number.NaN;
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid date: ${value} (expected YYYY-MM-DD)`);
+  }
+  return parsed;
+}
+
+/**
+ * `until` is inclusive: it keeps the whole of that day
+ */
+export function filterUsage(entries: UsageEntry[], filter: UsageFilter): UsageEntry[] {
+  return entries.filter((entry) =>
+    (filter.since === undefined || entry.timestamp >= filter.since)
+    && (filter.until === undefined || entry.timestamp < filter.until + DAY_MS)
+    && (!filter.project || entry.project === filter.project)
+    && (!filter.session || entry.sessionId === filter.session)
+  );
+}
+
+function formatCost(costUsd: number | undefined): string {
+  return costUsd === undefined ? 'unpriced' : `$${costUsd.toFixed(4)}`;
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  return [header, ...rows]
+    .map((row) => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  '))
+    .join('\n');
+}
+
+function totalRow(rows: UsageSummaryRow[]): UsageSummaryRow {
+  return rows.reduce(
+    (total, row) => ({
+      ...total,
+      calls: total.calls + row.calls,
+      inputTokens: total.inputTokens + row.inputTokens,
+      outputTokens: total.outputTokens + row.outputTokens,
+      cacheReadTokens: total.cacheReadTokens + row.cacheReadTokens,
+      cacheWriteTokens: total.cacheWriteTokens + row.cacheWriteTokens,
+      costUsd: total.costUsd + row.costUsd,
+      unpricedCalls: total.unpricedCalls + row.unpricedCalls,
+    }),
+    { key: 'total', calls: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, unpricedCalls: 0 }
+  );
+}
+
+export function formatUsageSummary(entries: UsageEntry[], by: UsageGroup): string {
+  const rows = summarizeUsage(entries, by);
+  const cells = [...rows, totalRow(rows)].map((row) => [
+    row.key,
+    String(row.calls),
+    String(row.inputTokens),
+    String(row.outputTokens),
+    String(row.cacheReadTokens),
+    String(row.cacheWriteTokens),
+    row.unpricedCalls ? `${formatCost(row.costUsd)} (+${row.unpricedCalls} unpriced)` : formatCost(row.costUsd),
+  ]);
+  return formatTable([by, 'calls', 'input tokens', 'output tokens', 'cache read', 'cache write', 'cost'], cells);
+}
+
+export function formatUsageEntries(entries: UsageEntry[]): string {
+  const cells = entries.map((entry) => [
+    new Date(entry.timestamp).toISOString(),
+    entry.sessionId,
+    `${entry.provider}:${entry.model ?? 'default'}`,
+    String(entry.inputTokens),
+    String(entry.outputTokens),
+    String(entry.cacheReadTokens ?? 0),
+    String(entry.cacheWriteTokens ?? 0),
+    formatCost(entry.costUsd),
+  ]);
+  return formatTable(['time', 'session', 'model', 'input tokens', 'output tokens', 'cache read', 'cache write', 'cost'], cells);
+}
+
+function csvCell(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number | boolean | undefined>>): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+export function usageSummaryToCsv(entries: UsageEntry[], by: UsageGroup): string {
+  return toCsv(
+    [by, 'calls', 'input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_write_tokens', 'cost_usd', 'unpriced_calls'],
+    summarizeUsage(entries, by).map((row) => [
+      row.key,
+      row.calls,
+      row.inputTokens,
+      row.outputTokens,
+      row.cacheReadTokens,
+      row.cacheWriteTokens,
+      row.costUsd,
+      row.unpricedCalls,
+    ])
+  );
+}
+
+export function usageEntriesToCsv(entries: UsageEntry[]): string {
+  return toCsv(
+    ['timestamp', 'project', 'session', 'provider', 'model', 'input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_write_tokens', 'cost_usd', 'estimated'],
+    entries.map((entry) => [
+      new Date(entry.timestamp).toISOString(),
+      entry.project,
+      entry.sessionId,
+      entry.provider,
+      entry.model,
+      entry.inputTokens,
+      entry.outputTokens,
+      entry.cacheReadTokens ?? 0,
+      entry.cacheWriteTokens ?? 0,
+      entry.costUsd,
+      entry.estimated ?? false,
+    ])
+  );
+}
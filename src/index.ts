@@ -9,22 +9,36 @@ import { AsyncLocalStorage } from 'node:async_hooks';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { McpError, ErrorCode, ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolResult,
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  isInitializeRequest
+} from '@modelcontextprotocol/sdk/types.js';
 import type { Server as HttpServer } from 'http';
 import type { AddressInfo } from 'net';
 import { fileURLToPath } from 'url';
+import { randomUUID } from 'node:crypto';
 
-import { vibeCheckTool, VibeCheckInput, VibeCheckOutput } from './tools/vibeCheck.js';
-import { vibeLearnTool, VibeLearnInput, VibeLearnOutput } from './tools/vibeLearn.js';
-import { updateConstitution, resetConstitution, getConstitution } from './tools/constitution.js';
-import { STANDARD_CATEGORIES, LearningType } from './utils/storage.js';
+import { toolRegistry, loadProjectToolPlugins } from './tools/builtin.js';
 import { loadHistory } from './utils/state.js';
 import { getPackageVersion } from './utils/version.js';
 import { applyJsonRpcCompatibility, wrapTransportForCompatibility } from './utils/jsonRpcCompat.js';
 import { createRequestScopedTransport, RequestScopeStore } from './utils/httpTransportWrapper.js';
+import { HttpSessionRegistry, DEFAULT_SESSION_IDLE_MS } from './utils/httpSessions.js';
+import { createHttpAuthMiddleware, resolveHttpAuthMode, HttpAuthMode } from './utils/httpAuth.js';
+import { getProjectScope } from './utils/projectScope.js';
+import { METRICS_CONTENT_TYPE, renderMetrics } from './utils/metrics.js';
+import { checkReadiness } from './utils/readiness.js';
 import { initializeHotReload } from './utils/fileWatcher.js';
+import { listVibeResources, readVibeResource, RESOURCE_TEMPLATES } from './resources/vibeResources.js';
+import { listWorkflowPrompts, getWorkflowPrompt } from './prompts/workflowPrompts.js';
 
-const IS_DISCOVERY = process.env.MCP_DISCOVERY_MODE === '1';
 const USE_STDIO = process.env.MCP_TRANSPORT === 'stdio';
 
 if (USE_STDIO) {
@@ -33,7 +47,7 @@ if (USE_STDIO) {
 
 const SCRIPT_PATH = fileURLToPath(import.meta.url);
 
-export const SUPPORTED_LLM_PROVIDERS = ['gemini', 'openai', 'openrouter', 'anthropic'] as const;
+export { SUPPORTED_LLM_PROVIDERS } from './utils/llm.js';
 
 export interface LoggerLike {
   log: (...args: any[]) => void;
@@ -48,276 +62,96 @@ export interface HttpServerOptions {
   attachSignalHandlers?: boolean;
   signals?: NodeJS.Signals[];
   logger?: LoggerLike;
+  /** One transport and server per MCP session (Mcp-Session-Id); defaults to MCP_HTTP_STATEFUL=true */
+  stateful?: boolean;
+  /** Idle time before a stateful session is evicted; defaults to MCP_SESSION_IDLE_MS or 30 minutes */
+  sessionIdleMs?: number;
+  /** Factory for per-session servers in stateful mode */
+  createSessionServer?: () => Server | Promise<Server>;
+  /** Bearer-token enforcement on /mcp; defaults to MCP_HTTP_AUTH or 'auto' */
+  auth?: HttpAuthMode;
 }
 
 export interface HttpServerInstance {
   app: express.Express;
   listener: HttpServer;
-  transport: StreamableHTTPServerTransport;
+  /** Shared transport in stateless mode; undefined when sessions are stateful */
+  transport?: StreamableHTTPServerTransport;
+  sessions?: HttpSessionRegistry;
   close: () => Promise<void>;
 }
 
+// A stateful session's server and transport, created for an initialize request
+interface OpenedSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+}
+
 export interface MainOptions {
   createServer?: () => Promise<Server>;
   startHttp?: (options: HttpServerOptions) => Promise<HttpServerInstance>;
 }
 
-export async function createMcpServer(): Promise<Server> {
+/**
+ * Load persisted state and start optional watchers shared by every server instance
+ */
+export async function initializeServerRuntime(): Promise<void> {
   await loadHistory();
 
+  // Project tools from <storage>/tools/
+  await loadProjectToolPlugins();
+
   // Initialize hot reload for constitutional rules (if enabled)
   initializeHotReload();
+}
+
+export async function createMcpServer(): Promise<Server> {
+  await initializeServerRuntime();
+  return buildMcpServer();
+}
 
+/**
+ * Create a server with all handlers registered, without touching shared runtime state.
+ * Stateful HTTP mode builds one of these per MCP session.
+ */
+export function buildMcpServer(): Server {
   const server = new Server(
     { name: 'vibe-check', version: getPackageVersion() },
-    { capabilities: { tools: {}, sampling: {} } }
+    { capabilities: { tools: {}, resources: {}, prompts: {}, sampling: {} } }
   );
 
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
-    tools: [
-      {
-        name: 'vibe_check',
-        description: 'Metacognitive questioning tool that identifies assumptions and breaks tunnel vision to prevent cascading errors',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            goal: {
-              type: 'string',
-              description: "The agent's current goal",
-              examples: ['Ship CPI v2.5 with zero regressions']
-            },
-            plan: {
-              type: 'string',
-              description: "The agent's detailed plan",
-              examples: ['1) Write tests 2) Refactor 3) Canary rollout']
-            },
-            modelOverride: {
-              type: 'object',
-              properties: {
-                provider: { type: 'string', enum: [...SUPPORTED_LLM_PROVIDERS] },
-                model: { type: 'string' }
-              },
-              required: [],
-              examples: [{ provider: 'gemini', model: 'gemini-2.5-pro' }]
-            },
-            userPrompt: {
-              type: 'string',
-              description: 'The original user prompt',
-              examples: ['Summarize the repo']
-            },
-            progress: {
-              type: 'string',
-              description: "The agent's progress so far",
-              examples: ['Finished step 1']
-            },
-            uncertainties: {
-              type: 'array',
-              items: { type: 'string' },
-              description: "The agent's uncertainties",
-              examples: [['uncertain about deployment']]
-            },
-            taskContext: {
-              type: 'string',
-              description: 'The context of the current task',
-              examples: ['repo: vibe-check-mcp @2.5.0']
-            },
-            sessionId: {
-              type: 'string',
-              description: 'Optional session ID for state management',
-              examples: ['session-123']
-            }
-          },
-          required: ['goal', 'plan'],
-          additionalProperties: false
-        }
-      },
-      {
-        name: 'vibe_learn',
-        description: 'Pattern recognition system that tracks common errors and solutions to prevent recurring issues',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            mistake: {
-              type: 'string',
-              description: 'One-sentence description of the learning entry',
-              examples: ['Skipped writing tests']
-            },
-            category: {
-              type: 'string',
-              description: `Category (standard categories: ${STANDARD_CATEGORIES.join(', ')})`,
-              enum: STANDARD_CATEGORIES,
-              examples: ['Premature Implementation']
-            },
-            solution: {
-              type: 'string',
-              description: 'How it was corrected (if applicable)',
-              examples: ['Added regression tests']
-            },
-            type: {
-              type: 'string',
-              enum: ['mistake', 'preference', 'success'],
-              description: 'Type of learning entry',
-              examples: ['mistake']
-            },
-            sessionId: {
-              type: 'string',
-              description: 'Optional session ID for state management',
-              examples: ['session-123']
-            }
-          },
-          required: ['mistake', 'category'],
-          additionalProperties: false
-        }
-      },
-      {
-        name: 'update_constitution',
-        description: 'Append a constitutional rule for this session (in-memory)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            sessionId: { type: 'string', examples: ['session-123'] },
-            rule: { type: 'string', examples: ['Always write tests first'] }
-          },
-          required: ['sessionId', 'rule'],
-          additionalProperties: false
-        }
-      },
-      {
-        name: 'reset_constitution',
-        description: 'Overwrite all constitutional rules for this session',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            sessionId: { type: 'string', examples: ['session-123'] },
-            rules: {
-              type: 'array',
-              items: { type: 'string' },
-              examples: [['Be kind', 'Avoid loops']]
-            }
-          },
-          required: ['sessionId', 'rules'],
-          additionalProperties: false
-        }
-      },
-      {
-        name: 'check_constitution',
-        description: 'Return the current constitution rules for this session',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            sessionId: { type: 'string', examples: ['session-123'] }
-          },
-          required: ['sessionId'],
-          additionalProperties: false
-        }
-      }
-    ]
+    tools: toolRegistry.list()
   }));
 
-  server.setRequestHandler(CallToolRequestSchema, async (req) => {
-    const { name, arguments: raw } = req.params;
-    const args: any = raw;
-
-    switch (name) {
-      case 'vibe_check': {
-        const missing: string[] = [];
-        if (!args || typeof args.goal !== 'string') missing.push('goal');
-        if (!args || typeof args.plan !== 'string') missing.push('plan');
-        if (missing.length) {
-          const example = '{"goal":"Ship CPI v2.5","plan":"1) tests 2) refactor 3) canary"}';
-          const message = IS_DISCOVERY
-            ? `discovery: missing [${missing.join(', ')}]; example: ${example}`
-            : `Missing: ${missing.join(', ')}. Example: ${example}`;
-          throw new McpError(ErrorCode.InvalidParams, message);
-        }
-        const input: VibeCheckInput = {
-          goal: args.goal,
-          plan: args.plan,
-          modelOverride: typeof args.modelOverride === 'object' && args.modelOverride !== null ? args.modelOverride : undefined,
-          userPrompt: typeof args.userPrompt === 'string' ? args.userPrompt : undefined,
-          progress: typeof args.progress === 'string' ? args.progress : undefined,
-          uncertainties: Array.isArray(args.uncertainties) ? args.uncertainties : undefined,
-          taskContext: typeof args.taskContext === 'string' ? args.taskContext : undefined,
-          sessionId: typeof args.sessionId === 'string' ? args.sessionId : undefined,
-        };
-        const result = await vibeCheckTool(input);
-        return { content: [{ type: 'text', text: formatVibeCheckOutput(result) }] };
-      }
+  server.setRequestHandler(CallToolRequestSchema, async (req, extra) => {
+    const { name, arguments: args } = req.params;
+    return toolRegistry.call(name, args, { server, extra }) as Promise<CallToolResult>;
+  });
 
-      case 'vibe_learn': {
-        const missing: string[] = [];
-        if (!args || typeof args.mistake !== 'string') missing.push('mistake');
-        if (!args || typeof args.category !== 'string') missing.push('category');
-        if (missing.length) {
-          const example = '{"mistake":"Skipped tests","category":"Feature Creep"}';
-          const message = IS_DISCOVERY
-            ? `discovery: missing [${missing.join(', ')}]; example: ${example}`
-            : `Missing: ${missing.join(', ')}. Example: ${example}`;
-          throw new McpError(ErrorCode.InvalidParams, message);
-        }
-        const input: VibeLearnInput = {
-          mistake: args.mistake,
-          category: args.category,
-          solution: typeof args.solution === 'string' ? args.solution : undefined,
-          type: ['mistake', 'preference', 'success'].includes(args.type as string)
-            ? (args.type as LearningType)
-            : undefined,
-          sessionId: typeof args.sessionId === 'string' ? args.sessionId : undefined
-        };
-        const result = await vibeLearnTool(input);
-        return { content: [{ type: 'text', text: formatVibeLearnOutput(result) }] };
-      }
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listVibeResources()
+  }));
 
-      case 'update_constitution': {
-        const missing: string[] = [];
-        if (!args || typeof args.sessionId !== 'string') missing.push('sessionId');
-        if (!args || typeof args.rule !== 'string') missing.push('rule');
-        if (missing.length) {
-          const example = '{"sessionId":"123","rule":"Always write tests first"}';
-          const message = IS_DISCOVERY
-            ? `discovery: missing [${missing.join(', ')}]; example: ${example}`
-            : `Missing: ${missing.join(', ')}. Example: ${example}`;
-          throw new McpError(ErrorCode.InvalidParams, message);
-        }
-        updateConstitution(args.sessionId, args.rule);
-        console.log('[Constitution:update]', { sessionId: args.sessionId, count: getConstitution(args.sessionId).length });
-        return { content: [{ type: 'text', text: '✅ Constitution updated' }] };
-      }
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES
+  }));
 
-      case 'reset_constitution': {
-        const missing: string[] = [];
-        if (!args || typeof args.sessionId !== 'string') missing.push('sessionId');
-        if (!args || !Array.isArray(args.rules)) missing.push('rules');
-        if (missing.length) {
-          const example = '{"sessionId":"123","rules":["Be kind","Avoid loops"]}';
-          const message = IS_DISCOVERY
-            ? `discovery: missing [${missing.join(', ')}]; example: ${example}`
-            : `Missing: ${missing.join(', ')}. Example: ${example}`;
-          throw new McpError(ErrorCode.InvalidParams, message);
-        }
-        resetConstitution(args.sessionId, args.rules);
-        console.log('[Constitution:reset]', { sessionId: args.sessionId, count: getConstitution(args.sessionId).length });
-        return { content: [{ type: 'text', text: '✅ Constitution reset' }] };
-      }
+  server.setRequestHandler(ReadResourceRequestSchema, async (req) => {
+    const { uri } = req.params;
+    const contents = readVibeResource(uri);
+    console.log('[Resources:read]', { uri });
+    return { contents };
+  });
 
-      case 'check_constitution': {
-        const missing: string[] = [];
-        if (!args || typeof args.sessionId !== 'string') missing.push('sessionId');
-        if (missing.length) {
-          const example = '{"sessionId":"123"}';
-          const message = IS_DISCOVERY
-            ? `discovery: missing [${missing.join(', ')}]; example: ${example}`
-            : `Missing: ${missing.join(', ')}. Example: ${example}`;
-          throw new McpError(ErrorCode.InvalidParams, message);
-        }
-        const rules = getConstitution(args.sessionId);
-        console.log('[Constitution:check]', { sessionId: args.sessionId, count: rules.length });
-        return { content: [{ type: 'json', json: { rules } }] };
-      }
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listWorkflowPrompts()
+  }));
 
-      default:
-        throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-    }
+  server.setRequestHandler(GetPromptRequestSchema, async (req) => {
+    const { name, arguments: args } = req.params;
+    console.log('[Prompts:get]', { name, sessionId: args?.sessionId });
+    return getWorkflowPrompt(name, args);
   });
 
   return server;
@@ -327,16 +161,88 @@ export async function startHttpServer(options: HttpServerOptions = {}): Promise<
   const logger = options.logger ?? console;
   const allowedOrigin = options.corsOrigin ?? process.env.CORS_ORIGIN ?? '*';
   const PORT = options.port ?? Number(process.env.MCP_HTTP_PORT || process.env.PORT || 3000);
-  const server = options.server ?? (await createMcpServer());
+  const stateful = options.stateful ?? process.env.MCP_HTTP_STATEFUL === 'true';
   const requestScope = new AsyncLocalStorage<RequestScopeStore>();
-  const baseTransport = options.transport ?? new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
-  const transport = createRequestScopedTransport(baseTransport, requestScope);
 
-  await server.connect(transport);
+  let transport: StreamableHTTPServerTransport | undefined;
+  let sessions: HttpSessionRegistry | undefined;
+
+  if (stateful) {
+    if (!options.server) {
+      await initializeServerRuntime();
+    }
+    const idleMs = options.sessionIdleMs ?? Number(process.env.MCP_SESSION_IDLE_MS || DEFAULT_SESSION_IDLE_MS);
+    sessions = new HttpSessionRegistry(idleMs);
+    sessions.startSweeping((ids) => logger.log('[MCP] evicted idle sessions', { sessionIds: ids }));
+  } else {
+    const server = options.server ?? (await createMcpServer());
+    const baseTransport = options.transport ?? new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    transport = createRequestScopedTransport(baseTransport, requestScope);
+    await server.connect(transport);
+  }
+
+  const createSessionServer = options.createSessionServer ?? buildMcpServer;
+
+  // Close a session whose initialize failed; it may never have been registered
+  const discardSession = async ({ transport: sessionTransport, server: sessionServer }: OpenedSession) => {
+    if (sessionTransport.sessionId) {
+      sessions!.remove(sessionTransport.sessionId);
+    }
+    try {
+      await sessionServer.close();
+      await sessionTransport.close();
+    } catch (error) {
+      logger.error('[MCP] error closing failed session', { err: (error as Error)?.message });
+    }
+  };
+
+  const openSession = async (): Promise<OpenedSession> => {
+    const registry = sessions!;
+    // Sessions stay bound to the token that opened them
+    const tokenId = getProjectScope()?.tokenId;
+    const sessionServer = await createSessionServer();
+    const sessionTransport = createRequestScopedTransport(
+      new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (sessionId) => {
+          registry.add(sessionId, sessionTransport, sessionServer, tokenId);
+          logger.log('[MCP] session opened', { sessionId, active: registry.size });
+        }
+      }),
+      requestScope
+    );
+    sessionTransport.onclose = () => {
+      if (sessionTransport.sessionId) {
+        registry.remove(sessionTransport.sessionId);
+        logger.log('[MCP] session closed', { sessionId: sessionTransport.sessionId, active: registry.size });
+      }
+    };
+    const opened = { transport: sessionTransport, server: sessionServer };
+    try {
+      await sessionServer.connect(sessionTransport);
+    } catch (error) {
+      await discardSession(opened);
+      throw error;
+    }
+    return opened;
+  };
+
+  const sessionError = (res: express.Response, status: number, message: string, id: unknown = null) => {
+    res.status(status).json({ jsonrpc: '2.0', error: { code: -32000, message }, id });
+  };
+
+  // A session opened with one token must not be reachable with another
+  const findSession = (mcpSessionId: string | undefined) => {
+    const session = sessions?.get(mcpSessionId);
+    return session && session.tokenId === getProjectScope()?.tokenId ? session : undefined;
+  };
+
+  const authMode = options.auth ?? resolveHttpAuthMode(process.env.MCP_HTTP_AUTH);
 
   const app = express();
-  app.use(cors({ origin: allowedOrigin }));
+  app.use(cors({ origin: allowedOrigin, exposedHeaders: ['Mcp-Session-Id'] }));
   app.use(express.json());
+  app.use('/mcp', createHttpAuthMiddleware(authMode));
 
   app.post('/mcp', async (req, res) => {
     const started = Date.now();
@@ -375,13 +281,38 @@ export async function startHttpServer(options: HttpServerOptions = {}): Promise<
     const { applied, id: syntheticId } = applyJsonRpcCompatibility(req.body);
     const { id, method } = req.body ?? {};
     const sessionId = req.body?.params?.sessionId || req.body?.params?.arguments?.sessionId;
-    logger.log('[MCP] request', { id, method, sessionId, syntheticId: applied ? syntheticId : undefined });
+    const mcpSessionId = req.header('mcp-session-id');
+    logger.log('[MCP] request', { id, method, sessionId, mcpSessionId, syntheticId: applied ? syntheticId : undefined });
+    let opened: OpenedSession | undefined;
     try {
+      let target = transport;
+      if (sessions) {
+        const existing = findSession(mcpSessionId);
+        if (existing) {
+          target = existing.transport;
+        } else if (mcpSessionId) {
+          sessionError(res, 404, 'Session not found', id ?? null);
+          return;
+        } else if (isInitializeRequest(req.body)) {
+          opened = await openSession();
+          target = opened.transport;
+        } else {
+          sessionError(res, 400, 'Bad Request: No valid session ID provided', id ?? null);
+          return;
+        }
+      }
       await requestScope.run({ forceJson: forceJsonResponse }, async () => {
-        await transport.handleRequest(req, res, req.body);
+        await target!.handleRequest(req, res, req.body);
       });
+      // Turned away before a session id was issued, so no later request could reach or close it
+      if (opened && !opened.transport.sessionId) {
+        await discardSession(opened);
+      }
     } catch (e: any) {
       logger.error('[MCP] error', { err: e?.message, id });
+      if (opened) {
+        await discardSession(opened);
+      }
       if (!res.headersSent) {
         res.status(500).json({ jsonrpc: '2.0', id: id ?? null, error: { code: -32603, message: 'Internal server error' } });
       }
@@ -395,26 +326,65 @@ export async function startHttpServer(options: HttpServerOptions = {}): Promise<
     }
   });
 
-  app.get('/mcp', (_req, res) => {
-    res.status(405).json({ jsonrpc: '2.0', error: { code: -32000, message: 'Method not allowed' }, id: null });
-  });
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    if (!sessions) {
+      res.status(405).json({ jsonrpc: '2.0', error: { code: -32000, message: 'Method not allowed' }, id: null });
+      return;
+    }
+
+    const mcpSessionId = req.header('mcp-session-id');
+    const session = findSession(mcpSessionId);
+    if (!session) {
+      sessionError(res, mcpSessionId ? 404 : 400, mcpSessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    if (req.method === 'GET') {
+      sessions.trackStream(session, (listener) => res.on('close', listener));
+    }
+
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (e: any) {
+      logger.error('[MCP] error', { err: e?.message, method: req.method, sessionId: mcpSessionId });
+      if (!res.headersSent) {
+        res.status(500).json({ jsonrpc: '2.0', id: null, error: { code: -32603, message: 'Internal server error' } });
+      }
+    }
+  };
+
+  app.get('/mcp', handleSessionRequest);
+  app.delete('/mcp', handleSessionRequest);
 
   app.get('/healthz', (_req, res) => {
     res.status(200).json({ status: 'ok' });
   });
 
+  app.get('/readyz', (_req, res) => {
+    const report = checkReadiness();
+    res.status(report.status === 'ready' ? 200 : 503).json(report);
+  });
+
+  app.get('/metrics', (_req, res) => {
+    res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+    res.status(200).end(renderMetrics());
+  });
+
   const listener = app.listen(PORT, () => {
     const addr = listener.address() as AddressInfo | string | null;
     const actualPort = typeof addr === 'object' && addr ? addr.port : PORT;
-    logger.log(`[MCP] HTTP listening on :${actualPort}`);
+    logger.log(`[MCP] HTTP listening on :${actualPort}${stateful ? ' (stateful sessions)' : ''}`, { auth: authMode });
   });
 
   const signals = options.signals ?? ['SIGTERM', 'SIGINT'];
   const attachSignals = options.attachSignalHandlers ?? false;
   let signalHandler: (() => void) | null = null;
 
-  const close = () =>
-    new Promise<void>((resolve) => {
+  const close = async () => {
+    if (sessions) {
+      await sessions.closeAll();
+    }
+    await new Promise<void>((resolve) => {
       listener.close(() => {
         if (attachSignals) {
           for (const signal of signals) {
@@ -426,6 +396,7 @@ export async function startHttpServer(options: HttpServerOptions = {}): Promise<
         resolve();
       });
     });
+  };
 
   if (attachSignals) {
     signalHandler = () => {
@@ -436,7 +407,7 @@ export async function startHttpServer(options: HttpServerOptions = {}): Promise<
     }
   }
 
-  return { app, listener, transport, close };
+  return { app, listener, transport, sessions, close };
 }
 
 export async function main(options: MainOptions = {}) {
@@ -453,35 +424,6 @@ export async function main(options: MainOptions = {}) {
   }
 }
 
-function formatVibeCheckOutput(result: VibeCheckOutput): string {
-  return result.questions;
-}
-
-function formatVibeLearnOutput(result: VibeLearnOutput): string {
-  let output = '';
-
-  if (result.added) {
-    output += `✅ Pattern logged successfully (category tally: ${result.currentTally})`;
-  } else if (result.alreadyKnown) {
-    output += 'ℹ️ Pattern already recorded';
-  } else {
-    output += '❌ Failed to log pattern';
-  }
-
-  if (result.topCategories && result.topCategories.length > 0) {
-    output += '\n\n## Top Pattern Categories\n';
-    for (const category of result.topCategories) {
-      output += `\n### ${category.category} (${category.count} occurrences)\n`;
-      if (category.recentExample) {
-        output += `Most recent: "${category.recentExample.mistake}"\n`;
-        output += `Solution: "${category.recentExample.solution}"\n`;
-      }
-    }
-  }
-
-  return output;
-}
-
 if (process.argv[1] === SCRIPT_PATH) {
   main().catch((error) => {
     console.error('Server startup error:', error);
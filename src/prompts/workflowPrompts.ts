@@ -0,0 +1,220 @@
+import fs from 'fs';
+import path from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { getConstitutionalRulesContext } from '../utils/constitutionalRules.js';
+import { getLearningContextText, getStorageDir } from '../utils/storage.js';
+import { getConstitution } from '../tools/constitution.js';
+
+export interface WorkflowPromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface WorkflowPromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: WorkflowPromptArgument[];
+  render: (args: Record<string, string>) => string;
+}
+
+export interface WorkflowPromptMessage {
+  role: 'user';
+  content: { type: 'text'; text: string };
+}
+
+const SESSION_ARGUMENT: WorkflowPromptArgument = {
+  name: 'sessionId',
+  description: 'Session ID whose constitution and history should be used',
+  required: false
+};
+
+interface WorkTypeConstitution {
+  name?: string;
+  description?: string;
+  rules?: string[];
+  antiPatterns?: string[];
+}
+
+/**
+ * Load a work-type template from <storage>/constitutions/<workType>.json if present
+ */
+function loadWorkTypeConstitution(workType: string): WorkTypeConstitution | null {
+  const safeName = workType.replace(/[^a-z0-9_-]/gi, '');
+  if (!safeName) {
+    return null;
+  }
+
+  const templatePath = path.join(getStorageDir(), 'constitutions', `${safeName}.json`);
+  if (!fs.existsSync(templatePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(templatePath, 'utf8')) as WorkTypeConstitution;
+  } catch (error) {
+    console.error(`[Prompts] Failed to read work-type constitution ${templatePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Shared context block: effective constitution, session rules and recent learnings
+ */
+function buildGroundingContext(sessionId?: string): string {
+  const sections: string[] = [];
+
+  const constitution = getConstitutionalRulesContext();
+  if (constitution) {
+    sections.push(constitution.trim());
+  }
+
+  if (sessionId) {
+    const sessionRules = getConstitution(sessionId);
+    if (sessionRules.length) {
+      sections.push(`## Session Rules (${sessionId})\n\n${sessionRules.map((rule) => `- ${rule}`).join('\n')}`);
+    }
+  }
+
+  const learnings = getLearningContextText();
+  if (learnings) {
+    sections.push(`## Recent Learnings\n\n${learnings}`);
+  }
+
+  return sections.length ? sections.join('\n\n') : 'No constitution or learnings are recorded for this project yet.';
+}
+
+function vibeCheckCall(fields: Record<string, string | undefined>): string {
+  const args = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined && value !== ''));
+  return `Call the \`vibe_check\` tool with ${JSON.stringify(args)}.`;
+}
+
+export const WORKFLOW_PROMPTS: WorkflowPromptDefinition[] = [
+  {
+    name: 'pre-implementation-review',
+    title: 'Pre-implementation review',
+    description: 'Challenge a plan against the constitution before any code is written',
+    arguments: [
+      { name: 'goal', description: 'What the change should achieve', required: true },
+      { name: 'plan', description: 'The intended implementation plan', required: true },
+      SESSION_ARGUMENT
+    ],
+    render: ({ goal, plan, sessionId }) =>
+      [
+        '# Pre-implementation review',
+        `Goal: ${goal}`,
+        `Plan:\n${plan}`,
+        buildGroundingContext(sessionId),
+        'Before writing any code, review the plan against the rules and learnings above. List the assumptions it makes, any rule it may violate, and the simplest plan that still meets the goal.',
+        vibeCheckCall({ goal, plan, sessionId })
+      ].join('\n\n')
+  },
+  {
+    name: 'mid-task-course-check',
+    title: 'Mid-task course check',
+    description: 'Pause part-way through a task to detect drift, loops and scope creep',
+    arguments: [
+      { name: 'goal', description: 'The original goal of the task', required: true },
+      { name: 'progress', description: 'What has been done so far', required: true },
+      { name: 'plan', description: 'The remaining plan', required: false },
+      SESSION_ARGUMENT
+    ],
+    render: ({ goal, progress, plan, sessionId }) =>
+      [
+        '# Mid-task course check',
+        `Goal: ${goal}`,
+        `Progress so far:\n${progress}`,
+        plan ? `Remaining plan:\n${plan}` : '',
+        buildGroundingContext(sessionId),
+        'Compare the progress with the goal. Are you still solving the problem the user asked for? Name any loop, detour or added scope, and decide whether to continue, simplify or stop and ask.',
+        vibeCheckCall({ goal, plan: plan || progress, progress, sessionId })
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+  },
+  {
+    name: 'post-mortem',
+    title: 'Post-mortem',
+    description: 'Reflect on a finished or failed task and record what should be learned',
+    arguments: [
+      { name: 'goal', description: 'What the task set out to do', required: true },
+      { name: 'outcome', description: 'What actually happened', required: true },
+      SESSION_ARGUMENT
+    ],
+    render: ({ goal, outcome, sessionId }) =>
+      [
+        '# Post-mortem',
+        `Goal: ${goal}`,
+        `Outcome:\n${outcome}`,
+        buildGroundingContext(sessionId),
+        'Identify what went well, what went wrong and which rules were honored or broken. For each lesson, call the `vibe_learn` tool once with a one-sentence `mistake`, a `category` and a `solution` (use `type: "success"` for things worth repeating).'
+      ].join('\n\n')
+  },
+  {
+    name: 'work-type-kickoff',
+    title: 'Work-type kickoff',
+    description: 'Start a task with the constitution for its work type (e.g. deployment, testing)',
+    arguments: [
+      { name: 'workType', description: 'Work type such as api-development, database-migrations or deployment', required: true },
+      { name: 'goal', description: 'What the task should achieve', required: true },
+      SESSION_ARGUMENT
+    ],
+    render: ({ workType, goal, sessionId }) => {
+      const template = loadWorkTypeConstitution(workType);
+      const templateSection = template
+        ? [
+            `## ${template.name ?? workType} Rules`,
+            template.description ?? '',
+            ...(template.rules ?? []).map((rule) => `- ${rule}`),
+            template.antiPatterns?.length ? `\nAnti-patterns to avoid:\n${template.antiPatterns.map((item) => `- ${item}`).join('\n')}` : ''
+          ]
+            .filter(Boolean)
+            .join('\n')
+        : `No work-type constitution found for "${workType}"; only the project constitution applies.`;
+
+      return [
+        `# ${workType} kickoff`,
+        `Goal: ${goal}`,
+        templateSection,
+        buildGroundingContext(sessionId),
+        'Draft a short plan for this goal that honors the rules above, then submit it for review before starting.',
+        vibeCheckCall({ goal, plan: '<your draft plan>', taskContext: `work type: ${workType}`, sessionId })
+      ].join('\n\n');
+    }
+  }
+];
+
+export function listWorkflowPrompts() {
+  return WORKFLOW_PROMPTS.map(({ name, title, description, arguments: args }) => ({
+    name,
+    title,
+    description,
+    arguments: args
+  }));
+}
+
+/**
+ * Render a workflow prompt, enforcing its required arguments
+ */
+export function getWorkflowPrompt(
+  name: string,
+  args: Record<string, string> = {}
+): { description: string; messages: WorkflowPromptMessage[] } {
+  const prompt = WORKFLOW_PROMPTS.find((candidate) => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments
+    .filter((argument) => argument.required && (typeof args[argument.name] !== 'string' || !args[argument.name].trim()))
+    .map((argument) => argument.name);
+  if (missing.length) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing: ${missing.join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: prompt.render(args) } }]
+  };
+}
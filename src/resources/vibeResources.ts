@@ -0,0 +1,157 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { getConstitutionalRulesPath, loadConstitutionalRules } from '../utils/constitutionalRules.js';
+import { resolveRules } from '../utils/constitutional/rule-resolver.js';
+import { getLearningEntries } from '../utils/storage.js';
+import { getSessionHistory, listHistorySessions } from '../utils/state.js';
+
+export const RESOURCE_SCHEME = 'vibe://';
+
+export interface VibeResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface VibeResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface VibeResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const JSON_MIME = 'application/json';
+
+export const RESOURCE_TEMPLATES: VibeResourceTemplate[] = [
+  {
+    uriTemplate: 'vibe://rules/{ruleId}',
+    name: 'Constitutional rule',
+    description: 'A single rule from the resolved constitution, including disabled rules and the files that defined it',
+    mimeType: JSON_MIME
+  },
+  {
+    uriTemplate: 'vibe://learnings/{category}',
+    name: 'Learning entries',
+    description: 'vibe_learn entries recorded for one category',
+    mimeType: JSON_MIME
+  },
+  {
+    uriTemplate: 'vibe://sessions/{sessionId}/history',
+    name: 'Session history',
+    description: 'Recent vibe_check interactions for one session',
+    mimeType: JSON_MIME
+  }
+];
+
+function buildUri(...segments: string[]): string {
+  return RESOURCE_SCHEME + segments.map((segment) => encodeURIComponent(segment)).join('/');
+}
+
+/**
+ * Enumerate every concrete resource currently backed by data on disk or in memory
+ */
+export function listVibeResources(): VibeResource[] {
+  const resources: VibeResource[] = [
+    {
+      uri: 'vibe://rules/effective',
+      name: 'Effective constitution',
+      description: 'Enabled constitutional rules after inheritance and overrides, sorted by severity',
+      mimeType: JSON_MIME
+    }
+  ];
+
+  const rulesPath = getConstitutionalRulesPath();
+  if (rulesPath) {
+    try {
+      const { rules } = resolveRules(rulesPath);
+      for (const rule of Object.values(rules)) {
+        resources.push({
+          uri: buildUri('rules', rule.id),
+          name: `Rule ${rule.id}`,
+          description: `[${rule.severity}] ${rule.name}`,
+          mimeType: JSON_MIME
+        });
+      }
+    } catch (error) {
+      console.error('[Resources] Failed to resolve rules for listing:', error);
+    }
+  }
+
+  for (const [category, entries] of Object.entries(getLearningEntries())) {
+    resources.push({
+      uri: buildUri('learnings', category),
+      name: `Learnings: ${category}`,
+      description: `${entries.length} recorded entries`,
+      mimeType: JSON_MIME
+    });
+  }
+
+  for (const sessionId of listHistorySessions()) {
+    resources.push({
+      uri: `${buildUri('sessions', sessionId)}/history`,
+      name: `History: ${sessionId}`,
+      description: `${getSessionHistory(sessionId).length} recent vibe_check interactions`,
+      mimeType: JSON_MIME
+    });
+  }
+
+  return resources;
+}
+
+function jsonContents(uri: string, payload: unknown): VibeResourceContents[] {
+  return [{ uri, mimeType: JSON_MIME, text: JSON.stringify(payload, null, 2) }];
+}
+
+function notFound(uri: string, detail: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri} (${detail})`);
+}
+
+/**
+ * Resolve a vibe:// URI to its JSON contents
+ */
+export function readVibeResource(uri: string): VibeResourceContents[] {
+  if (!uri.startsWith(RESOURCE_SCHEME)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+  }
+
+  const segments = uri.slice(RESOURCE_SCHEME.length).split('/').map((segment) => decodeURIComponent(segment));
+  const [kind, key, suffix] = segments;
+
+  if (kind === 'rules' && segments.length === 2) {
+    const rulesPath = getConstitutionalRulesPath();
+
+    if (key === 'effective') {
+      return jsonContents(uri, { path: rulesPath, rules: loadConstitutionalRules() });
+    }
+
+    if (!rulesPath) {
+      throw notFound(uri, 'no constitutional rules file configured');
+    }
+    const { rules, sources } = resolveRules(rulesPath);
+    const rule = rules[key];
+    if (!rule) {
+      throw notFound(uri, `unknown rule id "${key}"`);
+    }
+    return jsonContents(uri, { rule, sources: sources[key] || [] });
+  }
+
+  if (kind === 'learnings' && segments.length === 2) {
+    const entries = getLearningEntries()[key];
+    if (!entries) {
+      throw notFound(uri, `no learnings recorded for category "${key}"`);
+    }
+    return jsonContents(uri, { category: key, entries });
+  }
+
+  if (kind === 'sessions' && segments.length === 3 && suffix === 'history') {
+    return jsonContents(uri, { sessionId: key, interactions: getSessionHistory(key) });
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
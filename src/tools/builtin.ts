@@ -0,0 +1,393 @@
+import path from 'path';
+import { vibeCheckTool, VibeCheckInput, VibeCheckOutput } from './vibeCheck.js';
+import { vibeLearnTool, VibeLearnInput, VibeLearnOutput } from './vibeLearn.js';
+import { updateConstitution, resetConstitution, getConstitution } from './constitution.js';
+import { ToolDefinition, ToolRegistry, loadToolPlugins } from './registry.js';
+import { STANDARD_CATEGORIES, getStorageDir } from '../utils/storage.js';
+import { SUPPORTED_LLM_PROVIDERS } from '../utils/llm.js';
+import { ANALYSIS_JSON_SCHEMA } from '../utils/riskAnalysis.js';
+import { formatPromptPreview } from '../utils/mentorPrompt.js';
+import { createServerSamplingClient } from '../utils/sampling.js';
+import { createProgressReporter, throttleProgress } from '../utils/progress.js';
+
+const SESSION_ID_SCHEMA = {
+  type: 'string',
+  description: 'Optional session ID for state management',
+  examples: ['session-123']
+} as const;
+
+const vibeCheck: ToolDefinition<VibeCheckInput> = {
+  name: 'vibe_check',
+  description: 'Metacognitive questioning tool that identifies assumptions and breaks tunnel vision to prevent cascading errors',
+  example: { goal: 'Ship CPI v2.5', plan: '1) tests 2) refactor 3) canary' },
+  inputSchema: {
+    type: 'object',
+    properties: {
+      goal: {
+        type: 'string',
+        description: "The agent's current goal",
+        examples: ['Ship CPI v2.5 with zero regressions']
+      },
+      plan: {
+        type: 'string',
+        description: "The agent's detailed plan",
+        examples: ['1) Write tests 2) Refactor 3) Canary rollout']
+      },
+      modelOverride: {
+        type: 'object',
+        properties: {
+          provider: { type: 'string', enum: [...SUPPORTED_LLM_PROVIDERS] },
+          model: { type: 'string' },
+          profile: {
+            type: 'string',
+            description: 'Named model profile from vibe-check.config.json, e.g. fast, deep or cheap; provider and model override it'
+          },
+          council: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Ask these provider:model entries in parallel and merge their feedback; [] opts out of a project council'
+          }
+        },
+        required: [],
+        examples: [
+          { provider: 'gemini', model: 'gemini-2.5-pro' },
+          { profile: 'deep' },
+          { council: ['gemini:gemini-2.5-pro', 'anthropic:claude-sonnet-4-5', 'openai:o4-mini'] }
+        ]
+      },
+      userPrompt: {
+        type: 'string',
+        description: 'The original user prompt',
+        examples: ['Summarize the repo']
+      },
+      progress: {
+        type: 'string',
+        description: "The agent's progress so far",
+        examples: ['Finished step 1']
+      },
+      uncertainties: {
+        type: 'array',
+        items: { type: 'string' },
+        description: "The agent's uncertainties",
+        examples: [['uncertain about deployment']]
+      },
+      taskContext: {
+        type: 'string',
+        description: 'The context of the current task',
+        examples: ['repo: vibe-check-mcp @2.5.0']
+      },
+      fallbackChain: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Ordered provider:model fallbacks tried when the selected provider fails; remembered for the session',
+        examples: [['anthropic:claude-sonnet-4-5', 'openai:o4-mini', 'local:qwen2.5-coder']]
+      },
+      persona: {
+        type: 'string',
+        description: 'Mentor persona: mentor, strict-reviewer, gentle-coach, security-auditor or a project persona; remembered for the session',
+        examples: ['strict-reviewer']
+      },
+      noCache: {
+        type: 'boolean',
+        description: 'Skip the response cache and ask the provider again'
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Return the compiled system prompt and context with token estimates instead of calling a provider'
+      },
+      sessionId: SESSION_ID_SCHEMA
+    },
+    required: ['goal', 'plan'],
+    additionalProperties: false
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      questions: { type: 'string' },
+      analysis: ANALYSIS_JSON_SCHEMA,
+      provider: { type: 'string', description: 'Provider that answered' },
+      model: { type: 'string', description: 'Model that answered' },
+      profile: { type: 'string', description: 'Model profile the call asked for' },
+      cached: { type: 'boolean', description: 'Served from the response cache' },
+      truncated: {
+        type: 'array',
+        description: 'Context sections compacted or dropped to fit the token budget',
+        items: {
+          type: 'object',
+          properties: {
+            section: { type: 'string' },
+            action: { type: 'string', enum: ['compacted', 'dropped'] },
+            tokens: { type: 'number' },
+            keptTokens: { type: 'number' }
+          },
+          required: ['section', 'action', 'tokens', 'keptTokens']
+        }
+      },
+      usage: {
+        type: 'object',
+        description: 'Tokens and estimated USD cost of the provider call',
+        properties: {
+          provider: { type: 'string' },
+          model: { type: 'string' },
+          inputTokens: { type: 'number' },
+          outputTokens: { type: 'number' },
+          cacheReadTokens: { type: 'number', description: 'Input tokens read from the prompt cache' },
+          cacheWriteTokens: { type: 'number', description: 'Input tokens written to the prompt cache' },
+          costUsd: { type: 'number' },
+          estimated: { type: 'boolean' }
+        },
+        required: ['provider', 'inputTokens', 'outputTokens']
+      },
+      council: {
+        type: 'object',
+        description: 'Individual answers when a council of providers reviewed the plan',
+        properties: {
+          trigger: { type: 'string', enum: ['call', 'workType', 'severity'] },
+          members: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                provider: { type: 'string' },
+                model: { type: 'string' },
+                questions: { type: 'string' },
+                analysis: ANALYSIS_JSON_SCHEMA,
+                usage: { type: 'object' },
+                error: { type: 'string' }
+              },
+              required: ['provider']
+            }
+          },
+          disagreements: { type: 'array', items: { type: 'string' } },
+          synthesizer: { type: 'object' }
+        },
+        required: ['trigger', 'members', 'disagreements']
+      },
+      degraded: { type: 'boolean', description: 'No provider answered; the rule-based offline reviewer did' },
+      degradedReason: { type: 'string', description: 'Why the providers could not answer' },
+      preview: {
+        type: 'object',
+        description: 'The compiled prompt of a dry run: messages, constitution, history, learnings and token estimates per section',
+        properties: {
+          provider: { type: 'string' },
+          model: { type: 'string' },
+          systemPrompt: { type: 'string' },
+          constitution: { type: 'string' },
+          historySummary: { type: 'string' },
+          learningContext: { type: 'string' },
+          context: { type: 'string' },
+          tokens: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { section: { type: 'string' }, tokens: { type: 'number' } },
+              required: ['section', 'tokens']
+            }
+          },
+          totalTokens: { type: 'number' }
+        },
+        required: ['provider', 'systemPrompt', 'context', 'tokens', 'totalTokens']
+      }
+    },
+    required: ['questions']
+  },
+  async handler(input, { server, extra }) {
+    const onProgress = createProgressReporter(extra._meta?.progressToken, extra.sendNotification);
+    const result = await vibeCheckTool(input, {
+      sampling: createServerSamplingClient(server, extra.requestId),
+      signal: extra.signal,
+      onProgress,
+      // Partial mentor output rides on the same progress token
+      onPartialText: onProgress && throttleProgress(onProgress)
+    });
+    return {
+      content: [{ type: 'text', text: formatVibeCheckOutput(result) }],
+      structuredContent: formatVibeCheckStructured(result)
+    };
+  }
+};
+
+const vibeLearn: ToolDefinition<VibeLearnInput> = {
+  name: 'vibe_learn',
+  description: 'Pattern recognition system that tracks common errors and solutions to prevent recurring issues',
+  example: { mistake: 'Skipped tests', category: 'Feature Creep' },
+  scope: 'learn',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      mistake: {
+        type: 'string',
+        description: 'One-sentence description of the learning entry',
+        examples: ['Skipped writing tests']
+      },
+      category: {
+        type: 'string',
+        // Free-form on purpose: vibe_learn maps other wording onto the standard categories
+        description: `Category (standard categories: ${STANDARD_CATEGORIES.join(', ')}; other wording is mapped to the closest one)`,
+        examples: ['Premature Implementation', 'scope creep']
+      },
+      solution: {
+        type: 'string',
+        description: 'How it was corrected (if applicable)',
+        examples: ['Added regression tests']
+      },
+      type: {
+        type: 'string',
+        enum: ['mistake', 'preference', 'success'],
+        description: 'Type of learning entry',
+        examples: ['mistake']
+      },
+      sessionId: SESSION_ID_SCHEMA
+    },
+    required: ['mistake', 'category'],
+    additionalProperties: false
+  },
+  async handler(input) {
+    const result = await vibeLearnTool(input);
+    return { content: [{ type: 'text', text: formatVibeLearnOutput(result) }] };
+  }
+};
+
+const updateConstitutionTool: ToolDefinition<{ sessionId: string; rule: string }> = {
+  name: 'update_constitution',
+  description: 'Append a constitutional rule for this session (in-memory)',
+  example: { sessionId: '123', rule: 'Always write tests first' },
+  scope: 'constitution-admin',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', examples: ['session-123'] },
+      rule: { type: 'string', examples: ['Always write tests first'] }
+    },
+    required: ['sessionId', 'rule'],
+    additionalProperties: false
+  },
+  handler({ sessionId, rule }) {
+    updateConstitution(sessionId, rule);
+    console.log('[Constitution:update]', { sessionId, count: getConstitution(sessionId).length });
+    return { content: [{ type: 'text', text: '✅ Constitution updated' }] };
+  }
+};
+
+const resetConstitutionTool: ToolDefinition<{ sessionId: string; rules: string[] }> = {
+  name: 'reset_constitution',
+  description: 'Overwrite all constitutional rules for this session',
+  example: { sessionId: '123', rules: ['Be kind', 'Avoid loops'] },
+  scope: 'constitution-admin',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', examples: ['session-123'] },
+      rules: {
+        type: 'array',
+        items: { type: 'string' },
+        examples: [['Be kind', 'Avoid loops']]
+      }
+    },
+    required: ['sessionId', 'rules'],
+    additionalProperties: false
+  },
+  handler({ sessionId, rules }) {
+    resetConstitution(sessionId, rules);
+    console.log('[Constitution:reset]', { sessionId, count: getConstitution(sessionId).length });
+    return { content: [{ type: 'text', text: '✅ Constitution reset' }] };
+  }
+};
+
+const checkConstitutionTool: ToolDefinition<{ sessionId: string }> = {
+  name: 'check_constitution',
+  description: 'Return the current constitution rules for this session',
+  example: { sessionId: '123' },
+  inputSchema: {
+    type: 'object',
+    properties: {
+      sessionId: { type: 'string', examples: ['session-123'] }
+    },
+    required: ['sessionId'],
+    additionalProperties: false
+  },
+  handler({ sessionId }) {
+    const rules = getConstitution(sessionId);
+    console.log('[Constitution:check]', { sessionId, count: rules.length });
+    return { content: [{ type: 'json', json: { rules } }] };
+  }
+};
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  vibeCheck,
+  vibeLearn,
+  updateConstitutionTool,
+  resetConstitutionTool,
+  checkConstitutionTool
+];
+
+export const toolRegistry = new ToolRegistry(BUILTIN_TOOLS);
+
+const loadedPluginDirs = new Set<string>();
+
+/**
+ * Register tools from `<storage>/tools/` once per directory
+ */
+export async function loadProjectToolPlugins(dir: string = path.join(getStorageDir(), 'tools')): Promise<string[]> {
+  const resolved = path.resolve(dir);
+  if (loadedPluginDirs.has(resolved)) {
+    return [];
+  }
+  loadedPluginDirs.add(resolved);
+  return loadToolPlugins(toolRegistry, resolved);
+}
+
+function formatVibeCheckOutput(result: VibeCheckOutput): string {
+  if (result.preview) {
+    return formatPromptPreview(result.preview);
+  }
+  const questions = result.degraded
+    ? `⚠️ Offline review: no model could answer (${result.degradedReason ?? 'unknown error'}). These questions come from your constitution, work type and learnings.\n\n${result.questions}`
+    : result.questions;
+  const disagreements = result.council?.disagreements ?? [];
+  if (!disagreements.length) {
+    return questions;
+  }
+  return `${questions}\n\nWhere the council disagrees:\n${disagreements.map((point) => `- ${point}`).join('\n')}`;
+}
+
+function formatVibeCheckStructured(result: VibeCheckOutput): Record<string, unknown> {
+  return {
+    questions: result.questions,
+    ...(result.analysis ? { analysis: result.analysis } : {}),
+    ...(result.provider ? { provider: result.provider } : {}),
+    ...(result.model ? { model: result.model } : {}),
+    ...(result.profile ? { profile: result.profile } : {}),
+    ...(result.cached ? { cached: true } : {}),
+    ...(result.truncated?.length ? { truncated: result.truncated } : {}),
+    ...(result.usage ? { usage: result.usage } : {}),
+    ...(result.council ? { council: result.council } : {}),
+    ...(result.degraded ? { degraded: true, degradedReason: result.degradedReason } : {}),
+    ...(result.preview ? { preview: result.preview } : {})
+  };
+}
+
+function formatVibeLearnOutput(result: VibeLearnOutput): string {
+  let output = '';
+
+  if (result.added) {
+    output += `✅ Pattern logged successfully (category tally: ${result.currentTally})`;
+  } else if (result.alreadyKnown) {
+    output += 'ℹ️ Pattern already recorded';
+  } else {
+    output += '❌ Failed to log pattern';
+  }
+
+  if (result.topCategories && result.topCategories.length > 0) {
+    output += '\n\n## Top Pattern Categories\n';
+    for (const category of result.topCategories) {
+      output += `\n### ${category.category} (${category.count} occurrences)\n`;
+      if (category.recentExample) {
+        output += `Most recent: "${category.recentExample.mistake}"\n`;
+        output += `Solution: "${category.recentExample.solution}"\n`;
+      }
+    }
+  }
+
+  return output;
+}
@@ -1,4 +1,6 @@
 import { loadConstitutionalRulesAsStrings, getConstitutionalRulesPath } from '../utils/constitutionalRules.js';
+import { getScopedStorageDir } from '../utils/projectScope.js';
+import { registerCollectedGauge } from '../utils/metrics.js';
 
 interface ConstitutionEntry {
   rules: string[];
@@ -11,12 +13,19 @@ const constitutionMap: Record<string, ConstitutionEntry> = Object.create(null);
 const MAX_RULES_PER_SESSION = 50;
 const SESSION_TTL_MS = 60 * 60 * 1000; // 1 hour
 
+// Sessions of different projects may reuse the same ID, so scope the map key
+function entryKey(sessionId: string): string {
+  const scopedDir = getScopedStorageDir();
+  return scopedDir ? `${scopedDir}::${sessionId}` : sessionId;
+}
+
 /**
  * Initialize constitution for a session by loading from files
  * This is automatically called by getConstitution if no entry exists yet
  */
 function initializeSessionConstitution(sessionId: string): void {
-  if (constitutionMap[sessionId]) {
+  const key = entryKey(sessionId);
+  if (constitutionMap[key]) {
     return; // Already initialized
   }
 
@@ -26,7 +35,7 @@ function initializeSessionConstitution(sessionId: string): void {
     console.log(`[Constitution:init] Loading file-based rules for session ${sessionId} from ${rulesPath}`);
     const fileRules = loadConstitutionalRulesAsStrings();
 
-    constitutionMap[sessionId] = {
+    constitutionMap[key] = {
       rules: fileRules,
       fileLoaded: true,
       updated: Date.now()
@@ -35,7 +44,7 @@ function initializeSessionConstitution(sessionId: string): void {
     console.log(`[Constitution:init] Loaded ${fileRules.length} file-based rules for session ${sessionId}`);
   } else {
     console.log(`[Constitution:init] No constitutional rules file found for session ${sessionId}, starting with empty rule set`);
-    constitutionMap[sessionId] = {
+    constitutionMap[key] = {
       rules: [],
       fileLoaded: false,
       updated: Date.now()
@@ -47,11 +56,12 @@ export function updateConstitution(sessionId: string, rule: string) {
   if (!sessionId || !rule) return;
 
   // Initialize session if it doesn't exist
-  if (!constitutionMap[sessionId]) {
+  const key = entryKey(sessionId);
+  if (!constitutionMap[key]) {
     initializeSessionConstitution(sessionId);
   }
 
-  const entry = constitutionMap[sessionId];
+  const entry = constitutionMap[key];
   if (entry.rules.length >= MAX_RULES_PER_SESSION) entry.rules.shift();
   entry.rules.push(rule);
   entry.updated = Date.now();
@@ -59,7 +69,7 @@ export function updateConstitution(sessionId: string, rule: string) {
 
 export function resetConstitution(sessionId: string, rules: string[]) {
   if (!sessionId || !Array.isArray(rules)) return;
-  constitutionMap[sessionId] = {
+  constitutionMap[entryKey(sessionId)] = {
     rules: rules.slice(0, MAX_RULES_PER_SESSION),
     fileLoaded: false,  // Explicit reset means file-based rules are overridden
     updated: Date.now()
@@ -68,11 +78,12 @@ export function resetConstitution(sessionId: string, rules: string[]) {
 
 export function getConstitution(sessionId: string): string[] {
   // Auto-initialize from files if session doesn't exist
-  if (!constitutionMap[sessionId]) {
+  const key = entryKey(sessionId);
+  if (!constitutionMap[key]) {
     initializeSessionConstitution(sessionId);
   }
 
-  const entry = constitutionMap[sessionId];
+  const entry = constitutionMap[key];
   entry.updated = Date.now();
   return entry.rules;
 }
@@ -89,6 +100,12 @@ function cleanup() {
 
 setInterval(cleanup, SESSION_TTL_MS).unref();
 
+registerCollectedGauge(
+  'vibe_check_constitution_sessions',
+  'Sessions with an in-memory constitution',
+  () => Object.keys(constitutionMap).length
+);
+
 export const __testing = {
   _getMap: () => constitutionMap,
   cleanup
@@ -0,0 +1,274 @@
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  McpError,
+  ErrorCode,
+  ServerNotification,
+  ServerRequest,
+  Tool
+} from '@modelcontextprotocol/sdk/types.js';
+import { isTokenScope, TokenScope } from '../utils/apiTokens.js';
+import { toolCalls, toolDuration } from '../utils/metrics.js';
+
+/**
+ * Tool registry.
+ *
+ * Every tool declares one JSON schema that is both advertised by tools/list
+ * and used to validate tools/call arguments, so the two can't drift apart.
+ * Projects can add tools by dropping modules into `.vibe-check/tools/`.
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  additionalProperties?: boolean;
+  examples?: readonly unknown[];
+  [key: string]: unknown;
+}
+
+export interface ToolInputSchema extends JsonSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+}
+
+export interface ToolResult {
+  content: Array<Record<string, unknown>>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export interface ToolContext {
+  server: Server;
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+}
+
+export interface ToolDefinition<TArgs = any> {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  outputSchema?: Record<string, unknown>;
+  /** Minimal valid arguments, quoted in InvalidParams errors */
+  example: Record<string, unknown>;
+  /** API token scope needed to call the tool over authenticated HTTP; defaults to read-only */
+  scope?: TokenScope;
+  handler: (args: TArgs, context: ToolContext) => Promise<ToolResult> | ToolResult;
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const PLUGIN_EXTENSIONS = new Set(['.js', '.mjs']);
+
+function typeMatches(value: unknown, type: JsonSchema['type']): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    default:
+      return true;
+  }
+}
+
+function checkValue(value: unknown, schema: JsonSchema, pathName: string, invalid: string[]): unknown {
+  if (!typeMatches(value, schema.type)) {
+    invalid.push(`${pathName} (expected ${schema.type})`);
+    return value;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    invalid.push(`${pathName} (expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')})`);
+    return value;
+  }
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => checkValue(item, schema.items!, `${pathName}[${index}]`, invalid));
+  }
+  if (schema.type === 'object' && schema.properties) {
+    return checkObject(value as Record<string, unknown>, schema, pathName, [], invalid);
+  }
+  return value;
+}
+
+// Unknown properties are dropped rather than rejected, matching how clients have always been treated
+function checkObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  prefix: string,
+  missing: string[],
+  invalid: string[]
+): Record<string, unknown> {
+  const properties = schema.properties ?? {};
+  const result: Record<string, unknown> = {};
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined || value[key] === null) {
+      missing.push(prefix ? `${prefix}.${key}` : key);
+    }
+  }
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertySchema = properties[key];
+    if (propertyValue === undefined || propertyValue === null) {
+      continue;
+    }
+    if (!propertySchema) {
+      if (schema.additionalProperties !== false) {
+        result[key] = propertyValue;
+      }
+      continue;
+    }
+    result[key] = checkValue(propertyValue, propertySchema, prefix ? `${prefix}.${key}` : key, invalid);
+  }
+  return result;
+}
+
+/**
+ * Validate tools/call arguments against a tool's input schema.
+ * Returns the arguments with unknown properties removed, or throws InvalidParams.
+ */
+export function validateToolArguments(tool: ToolDefinition, args: unknown): Record<string, unknown> {
+  const missing: string[] = [];
+  const invalid: string[] = [];
+  const source = typeMatches(args, 'object') ? (args as Record<string, unknown>) : {};
+  const cleaned = checkObject(source, tool.inputSchema, '', missing, invalid);
+
+  if (!missing.length && !invalid.length) {
+    return cleaned;
+  }
+
+  const example = JSON.stringify(tool.example);
+  const discovery = process.env.MCP_DISCOVERY_MODE === '1';
+  const problems = discovery
+    ? [
+        missing.length ? `missing [${missing.join(', ')}]` : '',
+        invalid.length ? `invalid [${invalid.join(', ')}]` : ''
+      ]
+    : [
+        missing.length ? `Missing: ${missing.join(', ')}` : '',
+        invalid.length ? `Invalid: ${invalid.join(', ')}` : ''
+      ];
+  const detail = problems.filter(Boolean).join(discovery ? '; ' : '. ');
+  const message = discovery ? `discovery: ${detail}; example: ${example}` : `${detail}. Example: ${example}`;
+  throw new McpError(ErrorCode.InvalidParams, message);
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(definitions: ToolDefinition[] = []) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  register(definition: ToolDefinition): void {
+    if (!TOOL_NAME_PATTERN.test(definition?.name ?? '')) {
+      throw new Error(`Invalid tool name: ${definition?.name}`);
+    }
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool already registered: ${definition.name}`);
+    }
+    if (definition.inputSchema?.type !== 'object' || typeof definition.inputSchema.properties !== 'object') {
+      throw new Error(`Tool ${definition.name} must declare an object inputSchema with properties`);
+    }
+    if (typeof definition.handler !== 'function') {
+      throw new Error(`Tool ${definition.name} must provide a handler function`);
+    }
+    if (definition.scope !== undefined && !isTokenScope(definition.scope)) {
+      throw new Error(`Tool ${definition.name} declares unknown scope: ${definition.scope}`);
+    }
+    this.tools.set(definition.name, { ...definition, example: definition.example ?? {} });
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  scopeOf(name: string): TokenScope {
+    return this.tools.get(name)?.scope ?? 'read-only';
+  }
+
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema as Tool['inputSchema'],
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema as Tool['outputSchema'] } : {})
+    }));
+  }
+
+  async call(name: string, args: unknown, context: ToolContext): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+    const stopTimer = toolDuration.startTimer({ tool: name });
+    try {
+      const validated = validateToolArguments(tool, args);
+      const result = await tool.handler(validated, context);
+      toolCalls.inc({ tool: name, status: result?.isError ? 'error' : 'ok' });
+      return result;
+    } catch (error) {
+      toolCalls.inc({ tool: name, status: context.extra?.signal?.aborted ? 'cancelled' : 'error' });
+      throw error;
+    } finally {
+      stopTimer();
+    }
+  }
+}
+
+/**
+ * Load tool plugins from a directory. Each .js/.mjs module default-exports a
+ * ToolDefinition or an array of them. Broken plugins are logged and skipped.
+ */
+export async function loadToolPlugins(registry: ToolRegistry, dir: string): Promise<string[]> {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const loaded: string[] = [];
+  const files = fs.readdirSync(dir)
+    .filter((file) => PLUGIN_EXTENSIONS.has(path.extname(file)))
+    .sort();
+
+  for (const file of files) {
+    const pluginPath = path.join(dir, file);
+    try {
+      const mod = await import(pathToFileURL(pluginPath).href);
+      const exported = mod.default ?? mod.tools ?? mod.tool;
+      const definitions: ToolDefinition[] = Array.isArray(exported) ? exported : exported ? [exported] : [];
+      if (!definitions.length) {
+        console.error('[Tools:plugin] no tool definitions exported', { file: pluginPath });
+        continue;
+      }
+      for (const definition of definitions) {
+        registry.register(definition);
+        loaded.push(definition.name);
+      }
+    } catch (error) {
+      console.error('[Tools:plugin] failed to load', { file: pluginPath, err: (error as Error)?.message });
+    }
+  }
+
+  if (loaded.length) {
+    console.log('[Tools:plugin] loaded', { dir, tools: loaded });
+  }
+  return loaded;
+}
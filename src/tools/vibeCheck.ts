@@ -1,5 +1,17 @@
-import { getMetacognitiveQuestions } from '../utils/llm.js';
+import { getMetacognitiveQuestions, GenerationContext, isAbortError } from '../utils/llm.js';
 import { addToHistory, getHistorySummary } from '../utils/state.js';
+import { VibeCheckAnalysis } from '../utils/riskAnalysis.js';
+import type { TruncationNote } from '../utils/tokenBudget.js';
+import type { CallUsage } from '../utils/usage.js';
+import { CouncilOutput, parseCouncil } from '../utils/council.js';
+import { fallbackQuestions } from '../utils/metrics.js';
+import { reviewOffline } from '../utils/offlineReviewer.js';
+import { FixtureMissingError } from '../utils/llmFixtures.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { parseFallbackChain, ProviderTarget, setSessionFallbackChain } from '../utils/fallbackChain.js';
+import { parsePersona, setSessionPersona } from '../utils/promptTemplates.js';
+import { getProfile } from '../utils/modelProfiles.js';
+import { previewPrompt, PromptPreview } from '../utils/mentorPrompt.js';
 
 // Vibe Check tool handler
 export interface VibeCheckInput {
@@ -8,16 +20,105 @@ export interface VibeCheckInput {
   modelOverride?: {
     provider?: string;
     model?: string;
+    /** Named profile from vibe-check.config.json; `provider` and `model` win over it */
+    profile?: string;
+    /** `provider:model` entries asked in parallel and merged; `[]` opts out of a project council */
+    council?: string[];
   };
   userPrompt?: string;
   progress?: string;
   uncertainties?: string[];
   taskContext?: string;
   sessionId?: string;
+  /** `provider:model` entries to try in order when the selected provider fails; remembered for the session */
+  fallbackChain?: string[];
+  /** Skip the response cache for this call */
+  noCache?: boolean;
+  /** Mentor persona (built-in or `<storage dir>/prompts/personas/<name>.md`); remembered for the session */
+  persona?: string;
+  /** Return the compiled prompt without calling a provider or recording history */
+  dryRun?: boolean;
 }
 
 export interface VibeCheckOutput {
   questions: string;
+  analysis?: VibeCheckAnalysis;
+  /** Provider and model that answered; absent when the offline reviewer answered */
+  provider?: string;
+  model?: string;
+  /** Model profile the call asked for */
+  profile?: string;
+  /** True when the answer came from the response cache */
+  cached?: boolean;
+  /** Context sections cut to fit VIBE_CHECK_CONTEXT_BUDGET_TOKENS */
+  truncated?: TruncationNote[];
+  /** Tokens and cost of the provider call; absent for cached and fallback answers and councils */
+  usage?: CallUsage;
+  /** Each member's answer, the disagreements and the synthesizer when a council reviewed the plan */
+  council?: CouncilOutput;
+  /** True when no provider could answer and the rule-based offline reviewer did */
+  degraded?: boolean;
+  /** Why the providers could not answer */
+  degradedReason?: string;
+  /** The prompt a provider would have been sent, for dry runs */
+  preview?: PromptPreview;
+}
+
+function resolveInputChain(input: VibeCheckInput): ProviderTarget[] | undefined {
+  if (!input.fallbackChain) {
+    return undefined;
+  }
+  let chain: ProviderTarget[];
+  try {
+    chain = parseFallbackChain(input.fallbackChain);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+  }
+  // A dry run leaves the session's settings as they were
+  if (input.sessionId && !input.dryRun) {
+    setSessionFallbackChain(input.sessionId, chain);
+  }
+  return chain;
+}
+
+function resolveInputCouncil(input: VibeCheckInput): ProviderTarget[] | undefined {
+  const entries = input.modelOverride?.council;
+  if (!entries) {
+    return undefined;
+  }
+  try {
+    return parseCouncil(entries);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+  }
+}
+
+function checkInputProfile(input: VibeCheckInput): void {
+  const profile = input.modelOverride?.profile;
+  if (!profile) {
+    return;
+  }
+  try {
+    getProfile(profile);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+  }
+}
+
+function resolveInputPersona(input: VibeCheckInput): string | undefined {
+  if (!input.persona) {
+    return undefined;
+  }
+  let persona: string;
+  try {
+    persona = parsePersona(input.persona);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+  }
+  if (input.sessionId && !input.dryRun) {
+    setSessionPersona(input.sessionId, persona);
+  }
+  return persona;
 }
 
 /**
@@ -25,10 +126,20 @@ export interface VibeCheckOutput {
  * Monitors progress and questions assumptions to mitigate Reasoning Lock-In.
  * The userRequest parameter MUST contain the full original request for safety.
  */
-export async function vibeCheckTool(input: VibeCheckInput): Promise<VibeCheckOutput> {
+export async function vibeCheckTool(input: VibeCheckInput, context: GenerationContext = {}): Promise<VibeCheckOutput> {
   console.log('[vibe_check] called', { hasSession: Boolean(input.sessionId) });
+  const fallbackChain = resolveInputChain(input);
+  const persona = resolveInputPersona(input);
+  const council = resolveInputCouncil(input);
+  checkInputProfile(input);
+  if (input.dryRun) {
+    const preview = previewPrompt({ ...input, historySummary: getHistorySummary(input.sessionId), persona });
+    console.log('[vibe_check] dry run', { provider: preview.provider, model: preview.model, totalTokens: preview.totalTokens });
+    return { questions: 'Dry run: no provider was called and nothing was recorded. The compiled prompt is in `preview`.', preview };
+  }
   try {
     // Get history summary
+    context.onProgress?.('Looking up session history');
     const historySummary = getHistorySummary(input.sessionId);
 
     // Get metacognitive questions from Gemini with dynamic parameters
@@ -42,34 +153,41 @@ export async function vibeCheckTool(input: VibeCheckInput): Promise<VibeCheckOut
       taskContext: input.taskContext,
       sessionId: input.sessionId,
       historySummary,
-    });
+      fallbackChain,
+      noCache: input.noCache,
+      persona,
+      council,
+    }, context);
+
+    // Cancelled checks are not recorded; nobody acted on the answer
+    context.signal?.throwIfAborted();
 
     // Add to history
-    addToHistory(input.sessionId, input, response.questions);
+    await addToHistory(input.sessionId, input, response.questions, { usage: response.usage, council: response.council });
 
     return {
       questions: response.questions,
+      analysis: response.analysis,
+      provider: response.provider,
+      model: response.model,
+      ...(response.profile ? { profile: response.profile } : {}),
+      ...(response.cached ? { cached: true } : {}),
+      ...(response.truncated ? { truncated: response.truncated } : {}),
+      ...(response.usage ? { usage: response.usage } : {}),
+      ...(response.council ? { council: response.council } : {}),
+      ...(response.degraded ? { degraded: true, degradedReason: response.degradedReason } : {}),
     };
   } catch (error) {
+    if (isAbortError(error, context.signal)) {
+      console.log('[vibe_check] cancelled', { sessionId: input.sessionId });
+      throw error;
+    }
+    if (error instanceof FixtureMissingError) {
+      throw error;
+    }
     console.error('Error in vibe_check tool:', error);
+    fallbackQuestions.inc({ source: 'tool' });
 
-    // Fallback to basic questions if there's an error
-    return {
-      questions: generateFallbackQuestions(input.userPrompt || "", input.plan || ""),
-    };
+    return { ...reviewOffline(input), degraded: true, degradedReason: (error as Error)?.message || String(error) };
   }
 }
-
-/**
- * Generate adaptive fallback questions when API fails
- */
-function generateFallbackQuestions(userRequest: string, plan: string): string {
-    return `
-I can see you're thinking through your approach, which shows thoughtfulness:
-
-1. Does this plan directly address what the user requested, or might it be solving a different problem?
-2. Is there a simpler approach that would meet the user's needs?
-3. What unstated assumptions might be limiting the thinking here?
-4. How does this align with the user's original intent?
-`;
-}
\ No newline at end of file
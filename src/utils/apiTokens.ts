@@ -0,0 +1,156 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * API tokens for the HTTP transport.
+ *
+ * Only a SHA-256 hash of each secret is kept on disk. A token is shown once at
+ * creation time in the form `vck_<id>_<secret>` and is bound to one project
+ * storage directory plus a set of scopes.
+ */
+
+export const TOKEN_SCOPES = ['read-only', 'learn', 'constitution-admin'] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+export interface ApiTokenRecord {
+  id: string;
+  label?: string;
+  hash: string;
+  scopes: TokenScope[];
+  storageDir: string;
+  createdAt: number;
+  revokedAt?: number;
+}
+
+export type ApiTokenInfo = Omit<ApiTokenRecord, 'hash'>;
+
+interface TokenFile {
+  tokens: ApiTokenRecord[];
+}
+
+const TOKEN_PREFIX = 'vck';
+
+export function getTokensFile(): string {
+  if (process.env.VIBE_CHECK_TOKENS_FILE) {
+    return path.resolve(process.env.VIBE_CHECK_TOKENS_FILE);
+  }
+  return path.join(os.homedir(), '.vibe-check', 'tokens.json');
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function readTokenFile(): TokenFile {
+  const file = getTokensFile();
+  if (!fs.existsSync(file)) {
+    return { tokens: [] };
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return { tokens: Array.isArray(parsed?.tokens) ? parsed.tokens : [] };
+  } catch (error) {
+    console.error('[Auth] Error reading token file:', error);
+    return { tokens: [] };
+  }
+}
+
+function writeTokenFile(data: TokenFile): void {
+  const file = getTokensFile();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+}
+
+function toInfo(record: ApiTokenRecord): ApiTokenInfo {
+  const { hash: _hash, ...info } = record;
+  return info;
+}
+
+export function isTokenScope(value: string): value is TokenScope {
+  return (TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * read-only is implied by every scope; the others must be granted explicitly
+ */
+export function tokenHasScope(scopes: TokenScope[], required: TokenScope): boolean {
+  return required === 'read-only' ? scopes.length > 0 : scopes.includes(required);
+}
+
+export function createApiToken(options: {
+  scopes: TokenScope[];
+  storageDir: string;
+  label?: string;
+}): { token: string; record: ApiTokenInfo } {
+  if (!options.scopes.length) {
+    throw new Error('At least one scope is required');
+  }
+  const invalid = options.scopes.filter((scope) => !isTokenScope(scope));
+  if (invalid.length) {
+    throw new Error(`Unknown scope: ${invalid.join(', ')}`);
+  }
+
+  const id = randomBytes(6).toString('hex');
+  const secret = randomBytes(24).toString('base64url');
+  const record: ApiTokenRecord = {
+    id,
+    label: options.label,
+    hash: hashSecret(secret),
+    scopes: Array.from(new Set(options.scopes)),
+    storageDir: path.resolve(options.storageDir),
+    createdAt: Date.now()
+  };
+
+  const data = readTokenFile();
+  data.tokens.push(record);
+  writeTokenFile(data);
+
+  return { token: `${TOKEN_PREFIX}_${id}_${secret}`, record: toInfo(record) };
+}
+
+export function revokeApiToken(id: string): boolean {
+  const data = readTokenFile();
+  const record = data.tokens.find((token) => token.id === id);
+  if (!record || record.revokedAt) {
+    return false;
+  }
+  record.revokedAt = Date.now();
+  writeTokenFile(data);
+  return true;
+}
+
+export function listApiTokens(): ApiTokenInfo[] {
+  return readTokenFile().tokens.map(toInfo);
+}
+
+export function hasActiveTokens(): boolean {
+  return readTokenFile().tokens.some((token) => !token.revokedAt);
+}
+
+/**
+ * Resolve a presented bearer token to its record, or null if unknown or revoked
+ */
+export function verifyApiToken(token: string | undefined): ApiTokenInfo | null {
+  if (!token) {
+    return null;
+  }
+  const match = token.trim().match(/^vck_([0-9a-f]+)_([A-Za-z0-9_-]+)$/);
+  if (!match) {
+    return null;
+  }
+  const [, id, secret] = match;
+  const record = readTokenFile().tokens.find((entry) => entry.id === id);
+  if (!record || record.revokedAt) {
+    return null;
+  }
+
+  const expected = Buffer.from(record.hash, 'hex');
+  const actual = Buffer.from(hashSecret(secret), 'hex');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return toInfo(record);
+}
@@ -0,0 +1,90 @@
+/**
+ * Per-provider circuit breaker.
+ *
+ * After LLM_CIRCUIT_FAILURE_THRESHOLD consecutive failures a provider is
+ * skipped for LLM_CIRCUIT_COOLDOWN_MS. The first call after the cooldown is a
+ * trial: success closes the circuit, failure opens it again. Other callers see
+ * the circuit as open until the trial settles.
+ */
+
+import { positiveInt } from './retry.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+interface Circuit {
+  failures: number;
+  openedAt?: number;
+  trialInFlight?: boolean;
+}
+
+const circuits = new Map<string, Circuit>();
+
+function circuitFor(provider: string): Circuit {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { failures: 0 };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+}
+
+export function getCircuitState(provider: string, now = Date.now()): CircuitState {
+  const circuit = circuits.get(provider);
+  if (circuit?.openedAt === undefined) {
+    return 'closed';
+  }
+  const cooldownMs = positiveInt(process.env.LLM_CIRCUIT_COOLDOWN_MS, DEFAULT_COOLDOWN_MS);
+  return now - circuit.openedAt >= cooldownMs && !circuit.trialInFlight ? 'half-open' : 'open';
+}
+
+/**
+ * Whether a call may go to the provider right now. A half-open circuit lets
+ * this caller make the trial; it must end with recordSuccess, recordFailure
+ * or releaseTrial.
+ */
+export function canAttempt(provider: string, now = Date.now()): boolean {
+  const state = getCircuitState(provider, now);
+  if (state === 'half-open') {
+    circuitFor(provider).trialInFlight = true;
+  }
+  return state !== 'open';
+}
+
+export function recordSuccess(provider: string): void {
+  circuits.delete(provider);
+}
+
+export function recordFailure(provider: string, now = Date.now()): void {
+  const circuit = circuitFor(provider);
+  const wasTrial = circuit.trialInFlight || getCircuitState(provider, now) === 'half-open';
+  circuit.trialInFlight = false;
+  circuit.failures += 1;
+  const threshold = positiveInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD, DEFAULT_FAILURE_THRESHOLD);
+  if (wasTrial || circuit.failures >= threshold) {
+    console.error('[LLM:circuit] opened', { provider, failures: circuit.failures });
+    circuit.openedAt = now;
+  }
+}
+
+// A trial that ended without a verdict, such as a cancelled call, lets the next caller try
+export function releaseTrial(provider: string): void {
+  const circuit = circuits.get(provider);
+  if (circuit) {
+    circuit.trialInFlight = false;
+  }
+}
+
+export function listCircuits(now = Date.now()): Array<{ provider: string; state: CircuitState; failures: number }> {
+  return Array.from(circuits.entries()).map(([provider, circuit]) => ({
+    provider,
+    state: getCircuitState(provider, now),
+    failures: circuit.failures
+  }));
+}
+
+export const __testing = {
+  reset: () => circuits.clear()
+};
@@ -20,6 +20,7 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { resolveRules, getEffectiveRules, Rule } from './constitutional/rule-resolver.js';
+import { getScopedStorageDir } from './projectScope.js';
 
 export interface ConstitutionalRulesConfig {
   rulesFile?: string;
@@ -30,6 +31,13 @@ export interface ConstitutionalRulesConfig {
  * Get the path to the constitutional rules file
  */
 export function getConstitutionalRulesPath(config?: ConstitutionalRulesConfig): string | null {
+  // 0. Project bound to the current request (token-scoped HTTP) only sees its own rules
+  const scopedDir = getScopedStorageDir();
+  if (scopedDir) {
+    const rulesPath = path.join(scopedDir, 'constitutional-rules.json');
+    return fs.existsSync(rulesPath) ? rulesPath : null;
+  }
+
   // 1. Explicit VIBE_CHECK_RULES_FILE environment variable
   if (process.env.VIBE_CHECK_RULES_FILE) {
     const rulesPath = path.resolve(process.env.VIBE_CHECK_RULES_FILE);
@@ -107,7 +115,7 @@ export function rulesToStrings(rules: Rule[]): string[] {
                      rule.severity === 'HIGH' ? '⚠️' :
                      rule.severity === 'MEDIUM' ? 'ℹ️' : '📝';
 
-    let ruleString = `${severity} [${rule.category}] ${rule.name}: ${rule.description}`;
+    let ruleString = `${severity} [${rule.category}] ${rule.id} ${rule.name}: ${rule.description}`;
 
     if (rule.rationale) {
       ruleString += ` | Rationale: ${rule.rationale}`;
@@ -148,7 +156,7 @@ export function getConstitutionalRulesContext(config?: ConstitutionalRulesConfig
                      rule.severity === 'HIGH' ? '⚠️ HIGH' :
                      rule.severity === 'MEDIUM' ? 'ℹ️ MEDIUM' : '📝 LOW';
 
-    context += `### ${severity}: ${rule.name}\n`;
+    context += `### ${severity}: ${rule.name} (${rule.id})\n`;
     context += `**Category**: ${rule.category}\n`;
     context += `**Description**: ${rule.description}\n`;
 
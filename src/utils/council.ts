@@ -0,0 +1,248 @@
+import type { ChatMessage } from './providers/index.js';
+import { formatTarget, parseFallbackEntry, ProviderTarget, reachableTargets } from './fallbackChain.js';
+import { loadProjectConfig } from './projectConfig.js';
+import { extractWorkType } from './constitutional/session-id.js';
+import { ruleSeverity } from './tokenBudget.js';
+import { extractJsonObject, parseMentorResponse, RISK_TRAITS, VibeCheckAnalysis } from './riskAnalysis.js';
+import type { CallUsage } from './usage.js';
+
+/**
+ * Council mode: the same context goes to several providers or models in
+ * parallel, and a synthesizer call merges their feedback, deduplicates the
+ * questions and lists where the members disagree.
+ *
+ * A call convenes a council with `modelOverride.council`; an empty list opts
+ * out. Otherwise `council` in vibe-check.config.json convenes one when the
+ * session's work type is in `workTypes`, or its constitution has a rule whose
+ * severity is in `severities`.
+ */
+
+export type CouncilTrigger = 'call' | 'workType' | 'severity';
+
+export interface CouncilPlan {
+  members: ProviderTarget[];
+  /** Defaults to the provider selected for the call */
+  synthesizer?: ProviderTarget;
+  trigger: CouncilTrigger;
+}
+
+export interface CouncilMemberResult {
+  provider: string;
+  model?: string;
+  questions?: string;
+  analysis?: VibeCheckAnalysis;
+  usage?: CallUsage;
+  /** Set when the member failed; the rest of the council still answers */
+  error?: string;
+}
+
+export interface CouncilOutput {
+  trigger: CouncilTrigger;
+  members: CouncilMemberResult[];
+  disagreements: string[];
+  /** Absent when one member answered alone or the answers were merged locally */
+  synthesizer?: { provider: string; model?: string; usage?: CallUsage };
+}
+
+export interface CouncilVerdict {
+  questions: string;
+  analysis?: VibeCheckAnalysis;
+  disagreements: string[];
+}
+
+const MIN_MEMBERS = 2;
+
+// Risk scores this far apart are reported as a disagreement by the local merge
+const RISK_SPREAD = 0.3;
+
+// First item per key; items with an empty key are dropped
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const value = key(item);
+    if (!value || seen.has(value)) {
+      return false;
+    }
+    seen.add(value);
+    return true;
+  });
+}
+
+/**
+ * Parse a council from a tool call; an empty list is a valid opt-out
+ */
+export function parseCouncil(entries: string[]): ProviderTarget[] {
+  const members = uniqueBy(entries.filter((entry) => entry.trim()).map((entry) => parseFallbackEntry(entry, 'council')), formatTarget);
+  if (members.length && members.length < MIN_MEMBERS) {
+    throw new Error(`A council needs at least ${MIN_MEMBERS} distinct members.`);
+  }
+  return members;
+}
+
+// Project config is read on every call, so log bad entries and keep the rest
+function parseConfiguredTargets(entries: unknown): ProviderTarget[] {
+  const targets: ProviderTarget[] = [];
+  for (const entry of Array.isArray(entries) ? entries : [entries]) {
+    if (typeof entry !== 'string' || !entry.trim()) {
+      continue;
+    }
+    try {
+      targets.push(parseFallbackEntry(entry, 'council'));
+    } catch (error) {
+      console.error('[LLM:council] ignoring council entry', { entry, err: (error as Error).message });
+    }
+  }
+  return uniqueBy(targets, formatTarget);
+}
+
+function includesIgnoringCase(list: unknown, value: string | null | undefined): boolean {
+  return Boolean(value) && Array.isArray(list) && list.some((item) => typeof item === 'string' && item.toLowerCase() === value!.toLowerCase());
+}
+
+/**
+ * The council for a call, or undefined when it goes to a single provider
+ */
+export function resolveCouncil({ requested, sessionId, rules, provider }: {
+  requested?: ProviderTarget[];
+  sessionId?: string;
+  rules: string[];
+  /** Provider selected for the call; a local call only convenes local members */
+  provider?: string;
+}): CouncilPlan | undefined {
+  const config = loadProjectConfig().council;
+  const reachable = (targets: ProviderTarget[]) => (provider ? reachableTargets(provider, targets, 'council') : targets);
+  const [synthesizer] = reachable(config?.synthesizer ? parseConfiguredTargets(config.synthesizer).slice(0, 1) : []);
+  const withSynthesizer = synthesizer ? { synthesizer } : {};
+
+  if (requested) {
+    const members = reachable(requested);
+    return members.length >= MIN_MEMBERS ? { members, ...withSynthesizer, trigger: 'call' } : undefined;
+  }
+  if (!config) {
+    return undefined;
+  }
+
+  let trigger: CouncilTrigger | undefined;
+  if (sessionId && includesIgnoringCase(config.workTypes, extractWorkType(sessionId))) {
+    trigger = 'workType';
+  } else if (rules.some((rule) => includesIgnoringCase(config.severities, ruleSeverity(rule)))) {
+    trigger = 'severity';
+  }
+  if (!trigger) {
+    return undefined;
+  }
+
+  const members = reachable(parseConfiguredTargets(config.members));
+  if (members.length < MIN_MEMBERS) {
+    console.error('[LLM:council] project council needs at least two members', { members: members.map(formatTarget) });
+    return undefined;
+  }
+  return { members, ...withSynthesizer, trigger };
+}
+
+export const SYNTHESIS_SYSTEM_PROMPT = `You chair a council of reviewers who each critiqued the same plan from an AI coding agent. Merge their feedback into one answer for the agent. Keep every distinct concern, ask each question once, and drop duplicates. Where the reviewers disagree about risk, about whether a rule is violated, or about what to do next, say so plainly instead of silently picking a side.
+
+Respond with a single JSON object and nothing else, using exactly these keys:
+{
+  "questions": "<the merged feedback to the agent as markdown prose>",
+  "disagreements": [<one sentence per point of disagreement, naming which reviewer holds which view>],
+  "riskScore": <number from 0 (on track) to 1 (about to derail)>,
+  "traits": [<zero or more of: ${RISK_TRAITS.map((trait) => `"${trait}"`).join(', ')}>],
+  "ruleViolations": [<IDs of constitution rules the plan may violate>],
+  "recommendedActions": [<short imperative next steps for the agent>]
+}`;
+
+function describeMember(member: CouncilMemberResult): string {
+  return formatTarget({ provider: member.provider, model: member.model });
+}
+
+function formatReview(member: CouncilMemberResult, index: number): string {
+  const lines = [`### Reviewer ${index + 1} (${describeMember(member)})`, member.questions ?? ''];
+  if (member.analysis) {
+    const { riskScore, traits, ruleViolations, recommendedActions } = member.analysis;
+    lines.push(
+      `Risk score: ${riskScore}`,
+      `Traits: ${traits.join(', ') || 'none'}`,
+      `Rule violations: ${ruleViolations.join(', ') || 'none'}`,
+      `Recommended actions: ${recommendedActions.join('; ') || 'none'}`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The synthesizer sees the context the members saw, then each review
+ */
+export function buildSynthesisMessages(contextSection: string, members: CouncilMemberResult[]): ChatMessage[] {
+  return [
+    { role: 'system', content: SYNTHESIS_SYSTEM_PROMPT },
+    { role: 'user', content: `${contextSection}\n\nREVIEWS:\n${members.map(formatReview).join('\n\n')}` }
+  ];
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && Boolean(item.trim())) : [];
+}
+
+export function parseSynthesis(text: string): CouncilVerdict {
+  const { questions, analysis } = parseMentorResponse(text);
+  return { questions, analysis, disagreements: toStrings(extractJsonObject(text)?.disagreements) };
+}
+
+function normalizeItem(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Points the answers disagree on: a wide spread of risk scores, and rule
+ * violations only some members flagged
+ */
+export function findDisagreements(members: CouncilMemberResult[]): string[] {
+  const analysed = members.filter((member) => member.analysis);
+  if (analysed.length < MIN_MEMBERS) {
+    return [];
+  }
+  const disagreements: string[] = [];
+  const byRisk = [...analysed].sort((a, b) => a.analysis!.riskScore - b.analysis!.riskScore);
+  const [lowest, highest] = [byRisk[0], byRisk[byRisk.length - 1]];
+  if (highest.analysis!.riskScore - lowest.analysis!.riskScore >= RISK_SPREAD) {
+    disagreements.push(
+      `Risk scores range from ${lowest.analysis!.riskScore} (${describeMember(lowest)}) to ${highest.analysis!.riskScore} (${describeMember(highest)}).`
+    );
+  }
+  const violations = new Set(analysed.flatMap((member) => member.analysis!.ruleViolations));
+  for (const rule of violations) {
+    const flagged = analysed.filter((member) => member.analysis!.ruleViolations.includes(rule));
+    if (flagged.length < analysed.length) {
+      const others = analysed.filter((member) => !flagged.includes(member));
+      disagreements.push(`${rule} flagged by ${flagged.map(describeMember).join(', ')} but not ${others.map(describeMember).join(', ')}.`);
+    }
+  }
+  return disagreements;
+}
+
+/**
+ * Merge answers without a synthesizer: questions and actions deduplicated in
+ * order, traits and violations combined, and the highest risk score kept
+ */
+export function mergeCouncil(members: CouncilMemberResult[]): CouncilVerdict {
+  const items = members.flatMap((member) =>
+    (member.questions ?? '')
+      .split('\n')
+      .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+      .filter(Boolean)
+  );
+  const questions = uniqueBy(items, normalizeItem).map((item) => `- ${item}`).join('\n');
+
+  const analyses = members.flatMap((member) => (member.analysis ? [member.analysis] : []));
+  const analysis = analyses.length
+    ? {
+      riskScore: Math.max(...analyses.map((entry) => entry.riskScore)),
+      traits: Array.from(new Set(analyses.flatMap((entry) => entry.traits))),
+      ruleViolations: Array.from(new Set(analyses.flatMap((entry) => entry.ruleViolations))),
+      recommendedActions: uniqueBy(analyses.flatMap((entry) => entry.recommendedActions), normalizeItem),
+    }
+    : undefined;
+
+  return { questions, analysis, disagreements: findDisagreements(members) };
+}
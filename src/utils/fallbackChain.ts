@@ -0,0 +1,120 @@
+import { providerRegistry } from './providers/index.js';
+import { loadProjectConfig } from './projectConfig.js';
+import { getScopedStorageDir } from './projectScope.js';
+
+/**
+ * Cross-provider fallback chain.
+ *
+ * Entries look like `anthropic:claude-sonnet-4`, `openai:o4-mini` or just
+ * `local`; everything after the first colon is the model, so Ollama tags such
+ * as `local:qwen2.5:7b` work. The chain for a call comes from, in order: the
+ * session (set through vibe_check's `fallbackChain`), the project config file,
+ * then LLM_FALLBACK_CHAIN.
+ */
+
+export interface ProviderTarget {
+  provider: string;
+  model?: string;
+}
+
+export function parseFallbackEntry(entry: string, list = 'fallback chain'): ProviderTarget {
+  const trimmed = entry.trim();
+  const separator = trimmed.indexOf(':');
+  const provider = separator === -1 ? trimmed : trimmed.slice(0, separator);
+  const model = separator === -1 ? undefined : trimmed.slice(separator + 1).trim() || undefined;
+  if (!providerRegistry.get(provider)) {
+    throw new Error(`Unknown provider in ${list}: ${provider || entry}`);
+  }
+  return model ? { provider, model } : { provider };
+}
+
+/**
+ * Parse a chain, throwing on the first unknown provider
+ */
+export function parseFallbackChain(entries: string[]): ProviderTarget[] {
+  return entries.filter((entry) => entry.trim()).map((entry) => parseFallbackEntry(entry));
+}
+
+// Configured chains are read on every call, so log bad entries and keep the rest
+function parseConfiguredChain(entries: unknown, source: string): ProviderTarget[] {
+  if (!Array.isArray(entries) && typeof entries !== 'string') {
+    return [];
+  }
+  const list: unknown[] = Array.isArray(entries) ? entries : entries.split(',');
+  const chain: ProviderTarget[] = [];
+  for (const entry of list) {
+    if (typeof entry !== 'string' || !entry.trim()) {
+      continue;
+    }
+    try {
+      chain.push(parseFallbackEntry(entry));
+    } catch (error) {
+      console.error('[LLM:fallback] ignoring chain entry', { source, entry, err: (error as Error).message });
+    }
+  }
+  return chain;
+}
+
+const sessionChains = new Map<string, ProviderTarget[]>();
+
+// Sessions of different projects may reuse the same ID, so scope the map key
+function sessionKey(sessionId: string): string {
+  const scopedDir = getScopedStorageDir();
+  return scopedDir ? `${scopedDir}::${sessionId}` : sessionId;
+}
+
+/**
+ * Remember a chain for the session; an empty chain clears it
+ */
+export function setSessionFallbackChain(sessionId: string, chain: ProviderTarget[]): void {
+  if (chain.length) {
+    sessionChains.set(sessionKey(sessionId), chain);
+  } else {
+    sessionChains.delete(sessionKey(sessionId));
+  }
+}
+
+export function getSessionFallbackChain(sessionId: string): ProviderTarget[] | undefined {
+  return sessionChains.get(sessionKey(sessionId));
+}
+
+export function resolveFallbackChain(sessionId?: string): ProviderTarget[] {
+  const sessionChain = sessionId ? getSessionFallbackChain(sessionId) : undefined;
+  if (sessionChain) {
+    return sessionChain;
+  }
+  const projectChain = loadProjectConfig().fallbackChain;
+  if (projectChain !== undefined) {
+    return parseConfiguredChain(projectChain, 'project config');
+  }
+  return parseConfiguredChain(process.env.LLM_FALLBACK_CHAIN ?? '', 'LLM_FALLBACK_CHAIN');
+}
+
+const LOCAL_PROVIDER = 'local';
+
+/**
+ * Targets a call that starts on `primary` may also reach. Plans given to the
+ * local provider stay on the machine: hosted fallbacks and council seats are
+ * dropped unless the project sets `allowHostedFallback: true`.
+ */
+export function reachableTargets<T extends ProviderTarget>(primary: string, targets: T[], purpose: string): T[] {
+  if (primary !== LOCAL_PROVIDER || loadProjectConfig().allowHostedFallback === true) {
+    return targets;
+  }
+  const kept = targets.filter((target) => target.provider === LOCAL_PROVIDER);
+  if (kept.length < targets.length) {
+    console.log('[LLM:fallback] keeping a local call local', {
+      purpose,
+      dropped: targets.filter((target) => target.provider !== LOCAL_PROVIDER).map(formatTarget),
+    });
+  }
+  return kept;
+}
+
+export function formatTarget({ provider, model }: ProviderTarget): string {
+  return model ? `${provider}:${model}` : provider;
+}
+
+export const __testing = {
+  reset: () => sessionChains.clear()
+};
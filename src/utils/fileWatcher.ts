@@ -20,6 +20,14 @@ import fs from 'fs';
 import path from 'path';
 import { getConstitutionalRulesPath, loadConstitutionalRules } from './constitutionalRules.js';
 import { validateRules } from './constitutional/rule-resolver.js';
+import { rulesReloads } from './metrics.js';
+
+export interface WatcherStatus {
+  watching: boolean;
+  rulesPath: string | null;
+  lastReloadAt: string | null;
+  lastError: string | null;
+}
 
 interface WatcherOptions {
   debounceMs?: number;
@@ -33,6 +41,8 @@ class ConstitutionalRulesWatcher {
   private currentRulesPath: string | null = null;
   private options: WatcherOptions;
   private isReloading = false;
+  private lastReloadAt: string | null = null;
+  private lastError: string | null = null;
 
   constructor(options: WatcherOptions = {}) {
     this.options = {
@@ -80,6 +90,7 @@ class ConstitutionalRulesWatcher {
       return true;
 
     } catch (error) {
+      this.lastError = (error as Error).message;
       if (this.options.onError) {
         this.options.onError(error as Error);
       }
@@ -87,6 +98,18 @@ class ConstitutionalRulesWatcher {
     }
   }
 
+  /**
+   * Current watcher state, reported by /readyz
+   */
+  getStatus(): WatcherStatus {
+    return {
+      watching: this.watcher !== null,
+      rulesPath: this.currentRulesPath,
+      lastReloadAt: this.lastReloadAt,
+      lastError: this.lastError
+    };
+  }
+
   /**
    * Stop watching
    */
@@ -148,11 +171,16 @@ class ConstitutionalRulesWatcher {
       this.clearConstitutionCache();
 
       // Step 4: Notify success
+      rulesReloads.inc({ status: 'success' });
+      this.lastReloadAt = new Date().toISOString();
+      this.lastError = null;
       if (this.options.onReload) {
         this.options.onReload(this.currentRulesPath, rules.length);
       }
 
     } catch (error) {
+      rulesReloads.inc({ status: 'error' });
+      this.lastError = (error as Error).message;
       if (this.options.onError) {
         this.options.onError(error as Error);
       }
@@ -0,0 +1,79 @@
+import type { NextFunction, Request, Response } from 'express';
+import { hasActiveTokens, tokenHasScope, verifyApiToken, TokenScope } from './apiTokens.js';
+import { runInProjectScope } from './projectScope.js';
+import { ensureHistoryLoaded } from './state.js';
+import { toolRegistry } from '../tools/builtin.js';
+
+/**
+ * 'auto' requires a token only once at least one active token exists,
+ * so a fresh install keeps working without configuration.
+ */
+export type HttpAuthMode = 'auto' | 'required' | 'none';
+
+export function resolveHttpAuthMode(value: string | undefined): HttpAuthMode {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'required' || normalized === 'none') {
+    return normalized;
+  }
+  return 'auto';
+}
+
+/**
+ * Scope needed for a single JSON-RPC message; anything but tools/call only reads.
+ * Tools declare their own scope in the registry.
+ */
+export function requiredScopeFor(message: unknown): TokenScope {
+  const { method, params } = (message ?? {}) as { method?: string; params?: { name?: unknown } };
+  if (method === 'tools/call' && typeof params?.name === 'string') {
+    return toolRegistry.scopeOf(params.name);
+  }
+  return 'read-only';
+}
+
+function bearerToken(req: Request): string | undefined {
+  const header = req.header('authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+function reject(res: Response, status: number, message: string, id: unknown = null) {
+  if (status === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="vibe-check"');
+  }
+  res.status(status).json({ jsonrpc: '2.0', error: { code: -32001, message }, id });
+}
+
+/**
+ * Express middleware for /mcp: checks the bearer token and its scopes, then
+ * runs the rest of the request inside the token's project scope.
+ */
+export function createHttpAuthMiddleware(mode: HttpAuthMode) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (mode === 'none' || (mode === 'auto' && !hasActiveTokens())) {
+      next();
+      return;
+    }
+
+    const token = verifyApiToken(bearerToken(req));
+    if (!token) {
+      reject(res, 401, 'Unauthorized: missing or invalid API token');
+      return;
+    }
+
+    if (req.method === 'POST') {
+      const messages = Array.isArray(req.body) ? req.body : [req.body];
+      for (const message of messages) {
+        const scope = requiredScopeFor(message);
+        if (!tokenHasScope(token.scopes, scope)) {
+          console.log('[Auth] scope denied', { tokenId: token.id, scope, method: message?.method });
+          reject(res, 403, `Forbidden: token lacks the ${scope} scope`, message?.id ?? null);
+          return;
+        }
+      }
+    }
+
+    runInProjectScope({ storageDir: token.storageDir, tokenId: token.id }, () => {
+      ensureHistoryLoaded().then(() => next(), next);
+    });
+  };
+}
@@ -0,0 +1,123 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000; // 30 minutes
+
+export interface HttpSession {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  createdAt: number;
+  lastSeen: number;
+  openStreams: number;
+  /** API token that opened the session, when HTTP auth is enforced */
+  tokenId?: string;
+}
+
+/**
+ * Tracks one transport/server pair per MCP session for the stateful
+ * Streamable HTTP mode and evicts sessions that have gone quiet.
+ */
+export class HttpSessionRegistry {
+  private sessions = new Map<string, HttpSession>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly idleMs: number = DEFAULT_SESSION_IDLE_MS) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  ids(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  add(id: string, transport: StreamableHTTPServerTransport, server: Server, tokenId?: string): HttpSession {
+    const now = Date.now();
+    const session: HttpSession = { id, transport, server, createdAt: now, lastSeen: now, openStreams: 0, tokenId };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  get(id: string | undefined): HttpSession | undefined {
+    if (!id) {
+      return undefined;
+    }
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastSeen = Date.now();
+    }
+    return session;
+  }
+
+  /**
+   * Mark a standalone SSE stream as open until the response closes
+   */
+  trackStream(session: HttpSession, onClose: (listener: () => void) => void): void {
+    session.openStreams += 1;
+    onClose(() => {
+      session.openStreams = Math.max(0, session.openStreams - 1);
+      session.lastSeen = Date.now();
+    });
+  }
+
+  /**
+   * Forget a session without closing it (used from transport.onclose)
+   */
+  remove(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  async close(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(id);
+    try {
+      // Closing the server also closes its transport
+      await session.server.close();
+    } catch (error) {
+      console.error('[MCP] error closing session', { sessionId: id, err: (error as Error)?.message });
+    }
+  }
+
+  /**
+   * Close sessions idle for longer than idleMs that have no open SSE stream
+   */
+  async evictIdle(now: number = Date.now()): Promise<string[]> {
+    const evicted: string[] = [];
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.openStreams === 0 && now - session.lastSeen > this.idleMs) {
+        evicted.push(session.id);
+        await this.close(session.id);
+      }
+    }
+    return evicted;
+  }
+
+  startSweeping(onEvict?: (ids: string[]) => void): void {
+    if (this.sweepTimer) {
+      return;
+    }
+    const interval = Math.max(1000, Math.min(this.idleMs, 60 * 1000));
+    this.sweepTimer = setInterval(() => {
+      this.evictIdle().then((ids) => {
+        if (ids.length && onEvict) {
+          onEvict(ids);
+        }
+      });
+    }, interval);
+    this.sweepTimer.unref();
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    for (const id of this.ids()) {
+      await this.close(id);
+    }
+  }
+}
@@ -1,240 +1,565 @@
-import { getLearningContextText } from './storage.js';
-import { getConstitution } from '../tools/constitution.js';
-import { resolveAnthropicConfig, buildAnthropicHeaders } from './anthropic.js';
+import { extractPartialQuestions, parseMentorResponse, VibeCheckAnalysis } from './riskAnalysis.js';
+import type { SamplingClient } from './sampling.js';
+import { fallbackQuestions, llmDuration, llmFallbacks, llmRequests, llmRetries } from './metrics.js';
+import { providerRegistry, ChatMessage, GenerationParams, LLMProvider, TokenUsage } from './providers/index.js';
+import { __testing as geminiTesting } from './providers/gemini.js';
+import { __testing as openaiTesting } from './providers/openai.js';
+import { formatTarget, ProviderTarget, reachableTargets, resolveFallbackChain } from './fallbackChain.js';
+import { canAttempt, recordFailure, recordSuccess, releaseTrial } from './circuitBreaker.js';
+import { getRetryPolicy, ProviderError, withRetry } from './retry.js';
+import { estimateTokens, TruncationNote } from './tokenBudget.js';
+import { buildCacheKey, getCachedResponse, isCacheEnabled, setCachedResponse } from './responseCache.js';
+import { CallUsage, metricsModelLabel, recordUsage } from './usage.js';
+import { reviewOffline } from './offlineReviewer.js';
+import { FixtureMissingError, generateWithFixtures, getFixtureMode } from './llmFixtures.js';
+import { defaultModelFor, paramsForProvider, resolveModelSelection } from './modelProfiles.js';
+import { compileMentorPrompt, formatConstitution, MentorPromptInput } from './mentorPrompt.js';
+import {
+  buildSynthesisMessages,
+  CouncilMemberResult,
+  CouncilOutput,
+  CouncilPlan,
+  CouncilVerdict,
+  mergeCouncil,
+  parseSynthesis,
+  resolveCouncil,
+} from './council.js';
 
-// API Clients - Use 'any' to support dynamic import
-let genAI: any = null;
-let openaiClient: any = null;
-
-// OpenRouter Constants
-const openrouterBaseUrl = 'https://openrouter.ai/api/v1';
+export const SUPPORTED_LLM_PROVIDERS = providerRegistry.ids();
 
 // Initialize all configured LLM clients
 export async function initializeLLMs() {
-  await ensureGemini();
-  await ensureOpenAI();
-}
-
-async function ensureGemini() {
-  if (!genAI && process.env.GEMINI_API_KEY) {
-    const { GoogleGenerativeAI } = await import('@google/generative-ai');
-    genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-    console.log('Gemini API client initialized dynamically');
-  }
-}
-
-async function ensureOpenAI() {
-  if (!openaiClient && process.env.OPENAI_API_KEY) {
-    const { OpenAI } = await import('openai');
-    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    console.log('OpenAI API client initialized dynamically');
+  for (const provider of providerRegistry.list()) {
+    if (provider.isConfigured()) {
+      await provider.initialize?.();
+    }
   }
 }
 
 // Input/Output Interfaces
-interface QuestionInput {
-  goal: string;
-  plan: string;
+interface QuestionInput extends MentorPromptInput {
   modelOverride?: {
     provider?: string;
     model?: string;
+    /** Named profile from the project config; explicit provider and model win over it */
+    profile?: string;
   };
-  userPrompt?: string;
-  progress?: string;
-  uncertainties?: string[];
-  taskContext?: string;
-  sessionId?: string;
-  historySummary?: string;
+  /** Overrides the session, project and environment chains for this call */
+  fallbackChain?: ProviderTarget[];
+  /** Skip the cache lookup; the fresh answer is still stored */
+  noCache?: boolean;
+  /** Council members for this call; empty opts out of a project council */
+  council?: ProviderTarget[];
 }
 
 interface QuestionOutput {
   questions: string;
+  analysis?: VibeCheckAnalysis;
+  /** Provider and model that actually answered */
+  provider?: string;
+  model?: string;
+  /** Model profile the call asked for */
+  profile?: string;
+  cached?: boolean;
+  /** Context sections cut to fit the token budget */
+  truncated?: TruncationNote[];
+  /** Tokens and cost of the provider call; absent for cached answers and councils */
+  usage?: CallUsage;
+  /** Each member's answer when a council reviewed the plan */
+  council?: CouncilOutput;
+  /** Set when no provider answered and the offline reviewer did */
+  degraded?: boolean;
+  degradedReason?: string;
 }
 
-// Main dispatcher function to generate responses from the selected LLM provider
-export async function generateResponse(input: QuestionInput): Promise<QuestionOutput> {
-  const provider = input.modelOverride?.provider || process.env.DEFAULT_LLM_PROVIDER || 'gemini';
-  const model = input.modelOverride?.model || process.env.DEFAULT_MODEL;
+/**
+ * Per-call capabilities supplied by the MCP request that triggered generation
+ */
+export interface GenerationContext {
+  /** Present when the connected client supports sampling/createMessage */
+  sampling?: SamplingClient;
+  /** Aborted when the client sends notifications/cancelled */
+  signal?: AbortSignal;
+  /** Reports the current stage (history lookup, rule loading, provider call, fallback) */
+  onProgress?: (message: string) => void;
+  /** Receives the mentor's answer so far while a streaming provider generates */
+  onPartialText?: (text: string) => void;
+}
+
+// Internal per-call state shared by every provider attempt of one generateResponse
+interface CallContext extends GenerationContext {
+  /** Absolute time by which every attempt, retry and fallback must finish */
+  deadline: number;
+}
 
-  // The system prompt remains the same as it's core to the vibe-check philosophy
-  const systemPrompt = `You are a meta-mentor. You're an experienced feedback provider that specializes in understanding intent, dysfunctional patterns in AI agents, and in responding in ways that further the goal. You need to carefully reason and process the information provided, to determine your output.\n\nYour tone needs to always be a mix of these traits based on the context of which pushes the message in the most appropriate affect: Gentle & Validating, Unafraid to push many questions but humble enough to step back, Sharp about problems and eager to help about problem-solving & giving tips and/or advice, stern and straightforward when spotting patterns & the agent being stuck in something that could derail things.\n\nHere's what you need to think about (Do not output the full thought process, only what is explicitly requested):\n1. What's going on here? What's the nature of the problem is the agent tackling? What's the approach, situation and goal? Is there any prior context that clarifies context further? \n2. What does the agent need to hear right now: Are there any clear patterns, loops, or unspoken assumptions being missed here? Or is the agent doing fine - in which case should I interrupt it or provide soft encouragement and a few questions? What is the best response I can give right now?\n3. In case the issue is technical - I need to provide guidance and help. In case I spot something that's clearly not accounted for/ assumed/ looping/ or otherwise could be out of alignment with the user or agent stated goals - I need to point out what I see gently and ask questions on if the agent agrees. If I don't see/ can't interpret an explicit issue - what intervention would provide valuable feedback here - questions, guidance, validation, or giving a soft go-ahead with reminders of best practices?\n4. In case the plan looks to be accurate - based on the context, can I remind the agent of how to continue, what not to forget, or should I soften and step back for the agent to continue its work? What's the most helpful thing I can do right now?`;
+// A provider and model with the generation settings to call them with
+interface CallTarget extends ProviderTarget {
+  params?: GenerationParams;
+}
 
-  let learningContext = '';
-  if (process.env.USE_LEARNING_HISTORY === 'true') {
-    learningContext = getLearningContextText();
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) {
+    return true;
   }
+  const name = (error as { name?: string } | null)?.name;
+  return name === 'AbortError' || name === 'APIUserAbortError' || name === 'CanceledError';
+}
 
-  const rules = input.sessionId ? getConstitution(input.sessionId) : [];
-  const constitutionBlock = rules.length ? `\nConstitution:\n${rules.map(r => `- ${r}`).join('\n')}` : '';
+// Cancellation and a missing replay fixture end the call instead of moving down the chain
+function isTerminalError(error: unknown, signal?: AbortSignal): boolean {
+  return isAbortError(error, signal) || error instanceof FixtureMissingError;
+}
 
-  const contextSection = `CONTEXT:\nHistory Context: ${input.historySummary || 'None'}\n${learningContext ? `Learning Context:\n${learningContext}` : ''}\nGoal: ${input.goal}\nPlan: ${input.plan}\nProgress: ${input.progress || 'None'}\nUncertainties: ${input.uncertainties?.join(', ') || 'None'}\nTask Context: ${input.taskContext || 'None'}\nUser Prompt: ${input.userPrompt || 'None'}${constitutionBlock}`;
-  const fullPrompt = `${systemPrompt}\n\n${contextSection}`;
-  const compiledPrompt = contextSection;
+// Time a provider call and count its outcome for /metrics; `model` is already a metrics label
+async function observeProviderCall<T>(
+  provider: string,
+  model: string,
+  signal: AbortSignal | undefined,
+  call: () => Promise<T>
+): Promise<T> {
+  const stopTimer = llmDuration.startTimer({ provider, model });
+  try {
+    const result = await call();
+    llmRequests.inc({ provider, model, status: 'ok' });
+    return result;
+  } catch (error) {
+    llmRequests.inc({ provider, model, status: isAbortError(error, signal) ? 'cancelled' : 'error' });
+    throw error;
+  } finally {
+    stopTimer();
+  }
+}
 
-  let responseText = '';
+// Progress message for a provider call
+function describeCall(provider: LLMProvider, model: string | undefined): string {
+  if (provider.capabilities.clientSampling) {
+    return 'Requesting sampling from client';
+  }
+  return model ? `Calling ${provider.id} (${model})` : `Calling ${provider.id}`;
+}
 
-  if (provider === 'gemini') {
-    await ensureGemini();
-    if (!genAI) throw new Error('Gemini API key missing.');
-    const geminiModel = model || 'gemini-2.5-pro';
-    const fallbackModel = 'gemini-2.5-flash';
-    try {
-      console.log(`Attempting to use Gemini model: ${geminiModel}`);
-      // console.error('Full Prompt:', fullPrompt); // Keep this commented out for now
-      const modelInstance = genAI.getGenerativeModel({ model: geminiModel });
-      const result = await modelInstance.generateContent(fullPrompt);
-      responseText = result.response.text();
-    } catch (error) {
-      console.error(`Gemini model ${geminiModel} failed. Trying fallback ${fallbackModel}.`, error);
-      // console.error('Full Prompt:', fullPrompt); // Keep this commented out for now
-      const fallbackModelInstance = genAI.getGenerativeModel({ model: fallbackModel });
-      const result = await fallbackModelInstance.generateContent(fullPrompt);
-      responseText = result.response.text();
+// Relay the answer so far, stripped of its JSON envelope; a fresh relay per attempt
+function createTextRelay(provider: LLMProvider, onPartialText?: (text: string) => void): ((delta: string) => void) | undefined {
+  if (!onPartialText || !provider.capabilities.streaming || process.env.LLM_STREAMING === 'false') {
+    return undefined;
+  }
+  let raw = '';
+  let sent = '';
+  return (delta: string) => {
+    raw += delta;
+    const questions = extractPartialQuestions(raw);
+    if (questions && questions !== sent) {
+      sent = questions;
+      onPartialText(questions);
     }
-  } else if (provider === 'openai') {
-    await ensureOpenAI();
-    if (!openaiClient) throw new Error('OpenAI API key missing.');
-    const openaiModel = model || 'o4-mini';
-    console.log(`Using OpenAI model: ${openaiModel}`);
-    const response = await openaiClient.chat.completions.create({
-      model: openaiModel,
-      messages: [{ role: 'system', content: fullPrompt }],
-    });
-    responseText = response.choices[0].message.content || '';
-  } else if (provider === 'openrouter') {
-    if (!process.env.OPENROUTER_API_KEY) throw new Error('OpenRouter API key missing.');
-    if (!model) throw new Error('OpenRouter provider requires a model to be specified in the tool call.');
-    console.log(`Using OpenRouter model: ${model}`);
-    const { default: axios } = await import('axios');
-    const response = await axios.post(`${openrouterBaseUrl}/chat/completions`, {
-      model: model,
-      messages: [{ role: 'system', content: fullPrompt }],
-    }, { headers: { Authorization: `Bearer ${process.env.OPENROUTER_API_KEY}`, 'HTTP-Referer': 'http://localhost', 'X-Title': 'Vibe Check MCP Server' } });
-    responseText = response.data.choices[0].message.content || '';
-  } else if (provider === 'anthropic') {
-    const anthropicModel = model || 'claude-3-5-sonnet-20241022';
-    responseText = await callAnthropic({
-      model: anthropicModel,
-      compiledPrompt,
-      systemPrompt,
-    });
-  } else {
-    throw new Error(`Invalid provider specified: ${provider}`);
+  };
+}
+
+interface ProviderAnswer {
+  text: string;
+  provider: string;
+  model?: string;
+  usage?: TokenUsage;
+  /** The provider, model and settings that were asked; absent on cached answers */
+  target?: CallTarget;
+}
+
+// Bound one attempt by a timeout; running out is a retryable failure, not a cancellation
+async function withTimeout<T>(
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined,
+  label: string,
+  call: (signal: AbortSignal | undefined) => Promise<T>
+): Promise<T> {
+  if (!timeoutMs) {
+    return call(signal);
+  }
+  const timeoutSignal = AbortSignal.timeout(timeoutMs);
+  // Raced as well, for providers that ignore the signal
+  const timedOut = new Promise<never>((_, reject) => {
+    timeoutSignal.addEventListener('abort', () => {
+      reject(new ProviderError(`${label} timed out after ${timeoutMs}ms.`, { retryable: true }));
+    }, { once: true });
+  });
+  try {
+    return await Promise.race([call(signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal), timedOut]);
+  } catch (error) {
+    if (timeoutSignal.aborted && !signal?.aborted && !(error instanceof ProviderError)) {
+      throw new ProviderError(`${label} timed out after ${timeoutMs}ms.`, { retryable: true, cause: error });
+    }
+    throw error;
   }
+}
 
+// Least time left for a retry or fallback to be worth starting; timers can also fire a few ms early
+const MIN_ATTEMPT_MS = 100;
+
+function outOfTime(deadline: number): boolean {
+  return deadline - Date.now() < MIN_ATTEMPT_MS;
+}
+
+// The profile's timeout, cut to what is left of the deadline. Sampling waits on
+// the user approving the request in their client, so only the profile bounds it.
+function attemptTimeout(provider: LLMProvider, params: GenerationParams, deadline: number): number | undefined {
+  if (provider.capabilities.clientSampling) {
+    return params.timeoutMs;
+  }
+  const remainingMs = Math.max(1, deadline - Date.now());
+  return params.timeoutMs ? Math.min(params.timeoutMs, remainingMs) : remainingMs;
+}
+
+async function callProvider(
+  provider: LLMProvider,
+  model: string | undefined,
+  messages: ChatMessage[],
+  context: CallContext,
+  params: GenerationParams = {}
+): Promise<ProviderAnswer> {
+  const { signal, sampling, onProgress, onPartialText, deadline } = context;
+  onProgress?.(describeCall(provider, model));
+  const attempt = () =>
+    observeProviderCall(provider.id, metricsModelLabel(provider.id, model), signal, () =>
+      withTimeout(attemptTimeout(provider, params, deadline), signal, model ? `${provider.label} (${model})` : provider.label, (attemptSignal) =>
+        generateWithFixtures(provider, messages, {
+          ...params,
+          model,
+          signal: attemptSignal,
+          sampling,
+          onText: createTextRelay(provider, onPartialText),
+        })
+      )
+    );
+  // A sampling refusal comes from the user or client, so retrying it only repeats the prompt
+  const result = provider.capabilities.clientSampling
+    ? await attempt()
+    : await withRetry(attempt, {
+      deadline: deadline - MIN_ATTEMPT_MS,
+      signal,
+      label: model ? `${provider.id}:${model}` : provider.id,
+      onRetry: ({ delayMs }) => {
+        llmRetries.inc({ provider: provider.id, model: metricsModelLabel(provider.id, model) });
+        onProgress?.(`Retrying ${provider.id} in ${delayMs}ms`);
+      }
+    });
   return {
-    questions: responseText,
+    text: result.text,
+    provider: provider.id,
+    model: result.model ?? model,
+    usage: result.usage,
+    target: { provider: provider.id, model, params },
   };
 }
 
-// The exported function is now a wrapper around the dispatcher
-export async function getMetacognitiveQuestions(input: QuestionInput): Promise<QuestionOutput> {
+// The requested model, then the provider's own fallback model
+async function tryProvider(
+  provider: LLMProvider,
+  model: string | undefined,
+  messages: ChatMessage[],
+  context: CallContext,
+  params?: GenerationParams
+): Promise<ProviderAnswer> {
   try {
-    return await generateResponse(input);
+    return await callProvider(provider, model, messages, context, params);
   } catch (error) {
-    console.error('Error getting metacognitive questions:', error);
-    // Fallback questions
-    return {
-      questions: `\nI can see you're thinking through your approach, which shows thoughtfulness:\n\n1. Does this plan directly address what the user requested, or might it be solving a different problem?\n2. Is there a simpler approach that would meet the user's needs?\n3. What unstated assumptions might be limiting the thinking here?\n4. How does this align with the user's original intent?\n`,
-    };
+    const { fallbackModel } = provider;
+    if (isTerminalError(error, context.signal) || !fallbackModel || fallbackModel === model || outOfTime(context.deadline)) {
+      throw error;
+    }
+    console.error(`${provider.label} model ${model} failed. Trying fallback ${fallbackModel}.`, error);
+    llmFallbacks.inc({ provider: provider.id, model: metricsModelLabel(provider.id, fallbackModel) });
+    context.onProgress?.(`Retrying with fallback ${provider.id} model (${fallbackModel})`);
+    return callProvider(provider, fallbackModel, messages, context, params);
   }
 }
 
-// Testing helpers
-export const __testing = {
-  setGenAI(client: any) { genAI = client; },
-  setOpenAIClient(client: any) { openaiClient = client; },
-  getGenAI() { return genAI; },
-  getOpenAIClient() { return openaiClient; }
-};
+// Selected provider first, then the fallback chain; without a chain, the provider's own fallback provider
+function buildTargets(primary: CallTarget, chain: ProviderTarget[]): CallTarget[] {
+  const provider = providerRegistry.require(primary.provider);
+  const rest = reachableTargets(
+    provider.id,
+    chain.length ? chain : provider.fallbackProvider ? [provider.fallbackProvider()] : [],
+    'fallback chain'
+  );
+  const targets = [primary];
+  for (const target of rest) {
+    providerRegistry.require(target.provider);
+    const resolved = { ...target, model: target.model || defaultModelFor(target.provider), params: paramsForProvider(target.provider) };
+    if (!targets.some((existing) => formatTarget(existing) === formatTarget(resolved))) {
+      targets.push(resolved);
+    }
+  }
+  return targets;
+}
 
-interface AnthropicCallOptions {
-  model: string;
-  compiledPrompt: string;
-  systemPrompt?: string;
-  maxTokens?: number;
-  temperature?: number;
-}
-
-async function callAnthropic({
-  model,
-  compiledPrompt,
-  systemPrompt,
-  maxTokens = 1024,
-  temperature = 0.2,
-}: AnthropicCallOptions): Promise<string> {
-  if (!model) {
-    throw new Error('Anthropic provider requires a model to be specified in the tool call or DEFAULT_MODEL.');
-  }
-
-  const { baseUrl, apiKey, authToken, version } = resolveAnthropicConfig();
-  const headers = buildAnthropicHeaders({ apiKey, authToken, version });
-  const url = `${baseUrl}/v1/messages`;
-
-  const body: Record<string, unknown> = {
-    model,
-    max_tokens: maxTokens,
-    temperature,
-    messages: [
-      {
-        role: 'user',
-        content: compiledPrompt,
-      },
-    ],
-  };
+// Walk the targets in order, skipping providers whose circuit is open
+async function runChain(targets: CallTarget[], messages: ChatMessage[], context: CallContext): Promise<ProviderAnswer> {
+  const { signal, onProgress } = context;
+  let lastError: unknown;
+
+  for (const target of targets) {
+    const provider = providerRegistry.require(target.provider);
+    // Sampling runs on the caller's client, so one client's refusal says nothing about the next
+    const breaker = !provider.capabilities.clientSampling;
 
-  if (systemPrompt) {
-    body.system = systemPrompt;
+    if (provider.capabilities.clientSampling && !context.sampling) {
+      console.log(`[LLM:${provider.id}] client does not support sampling, using fallback provider`);
+      continue;
+    }
+    if (breaker && !canAttempt(provider.id)) {
+      console.log('[LLM:circuit] skipping provider with open circuit', { provider: provider.id });
+      lastError ??= new Error(`Circuit open for provider ${provider.id}.`);
+      continue;
+    }
+    if (target !== targets[0]) {
+      if (outOfTime(context.deadline)) {
+        console.error('[LLM:fallback] deadline passed, not trying the rest of the chain', {
+          skipped: targets.slice(targets.indexOf(target)).map(formatTarget),
+        });
+        break;
+      }
+      llmFallbacks.inc({ provider: provider.id, model: metricsModelLabel(provider.id, target.model) });
+      onProgress?.(`Falling back to ${provider.id}`);
+    }
+
+    try {
+      const answer = await tryProvider(provider, target.model, messages, context, target.params);
+      if (breaker) recordSuccess(provider.id);
+      return answer;
+    } catch (error) {
+      if (isTerminalError(error, signal)) {
+        if (breaker) releaseTrial(provider.id);
+        throw error;
+      }
+      if (breaker) recordFailure(provider.id);
+      lastError = error;
+      console.error(`[LLM:${provider.id}] request failed`, { model: target.model, err: (error as Error)?.message });
+    }
   }
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(body),
+  throw lastError ?? new Error(`No provider available for ${targets.map(formatTarget).join(', ')}.`);
+}
+
+// Client sampling and some local servers report no usage, so count it ourselves
+function recordAnswerUsage(sessionId: string | undefined, answer: ProviderAnswer, messages: ChatMessage[]): CallUsage {
+  return recordUsage(sessionId, {
+    provider: answer.provider,
+    model: answer.model,
+    usage: answer.usage ?? {
+      inputTokens: estimateTokens(messages.map((message) => message.content).join('\n'), answer.model),
+      outputTokens: estimateTokens(answer.text, answer.model),
+    },
+    estimated: !answer.usage,
   });
+}
 
-  const rawText = await response.text();
-  let parsedBody: any;
-  if (rawText) {
-    try {
-      parsedBody = JSON.parse(rawText);
-    } catch {
-      parsedBody = undefined;
+// One attempt per council seat: no fallback chain, since a failed member only shrinks the council
+async function askTarget(target: CallTarget, messages: ChatMessage[], context: CallContext): Promise<ProviderAnswer> {
+  const provider = providerRegistry.require(target.provider);
+  const breaker = !provider.capabilities.clientSampling;
+  if (provider.capabilities.clientSampling && !context.sampling) {
+    throw new Error('Connected client does not support sampling.');
+  }
+  if (breaker && !canAttempt(provider.id)) {
+    throw new Error(`Circuit open for provider ${provider.id}.`);
+  }
+  try {
+    const answer = await tryProvider(
+      provider,
+      target.model || defaultModelFor(provider.id),
+      messages,
+      context,
+      target.params ?? paramsForProvider(provider.id)
+    );
+    if (breaker) recordSuccess(provider.id);
+    return answer;
+  } catch (error) {
+    if (breaker) {
+      if (isTerminalError(error, context.signal)) releaseTrial(provider.id);
+      else recordFailure(provider.id);
     }
+    throw error;
   }
+}
 
-  if (!response.ok) {
-    const requestId = response.headers.get('anthropic-request-id') || response.headers.get('x-request-id');
-    const retryAfter = response.headers.get('retry-after');
-    const requestSuffix = requestId ? ` (request id: ${requestId})` : '';
-    const errorMessage =
-      typeof parsedBody?.error?.message === 'string'
-        ? parsedBody.error.message
-        : typeof parsedBody?.message === 'string'
-          ? parsedBody.message
-          : rawText?.trim();
-
-    if (response.status === 401 || response.status === 403) {
-      throw new Error(
-        `Anthropic authentication failed with status ${response.status}${requestSuffix}. Verify ANTHROPIC_API_KEY or ANTHROPIC_AUTH_TOKEN.`
-      );
+interface CouncilResult extends CouncilVerdict {
+  council: CouncilOutput;
+  /** The synthesizer, or the only member that answered; absent after a local merge */
+  answeredBy?: { provider: string; model?: string };
+}
+
+// Ask every member in parallel, then have the synthesizer merge the answers
+async function conveneCouncil(
+  plan: CouncilPlan,
+  synthesizer: CallTarget,
+  messages: ChatMessage[],
+  contextSection: string,
+  sessionId: string | undefined,
+  context: CallContext
+): Promise<CouncilResult> {
+  const { signal, onProgress } = context;
+  onProgress?.(`Convening council: ${plan.members.map(formatTarget).join(', ')}`);
+  // Partial answers from several members at once would interleave, so only the synthesizer streams
+  const settled = await Promise.allSettled(
+    plan.members.map((target) => askTarget(target, messages, { ...context, onPartialText: undefined }))
+  );
+  signal?.throwIfAborted();
+  const missing = settled.find((result) => result.status === 'rejected' && result.reason instanceof FixtureMissingError);
+  if (missing) {
+    throw (missing as PromiseRejectedResult).reason;
+  }
+
+  const members: CouncilMemberResult[] = settled.map((result, index) => {
+    const target = plan.members[index];
+    if (result.status === 'rejected') {
+      console.error('[LLM:council] member failed', { member: formatTarget(target), err: (result.reason as Error)?.message });
+      return { provider: target.provider, model: target.model, error: (result.reason as Error)?.message ?? String(result.reason) };
     }
+    const { questions, analysis } = parseMentorResponse(result.value.text);
+    return {
+      provider: result.value.provider,
+      model: result.value.model,
+      questions,
+      ...(analysis ? { analysis } : {}),
+      usage: recordAnswerUsage(sessionId, result.value, messages),
+    };
+  });
+  const answered = members.filter((member) => !member.error);
+  const base = { trigger: plan.trigger, members };
+  console.log('[LLM:council] members answered', { trigger: plan.trigger, answered: answered.length, of: members.length });
 
-    if (response.status === 429) {
-      const retryMessage = retryAfter ? ` Retry after ${retryAfter} seconds if provided.` : '';
-      throw new Error(`Anthropic rate limit exceeded (status 429)${requestSuffix}.${retryMessage}`);
+  if (!answered.length) {
+    throw (settled.find((result) => result.status === 'rejected') as PromiseRejectedResult).reason;
+  }
+  if (answered.length === 1) {
+    const [only] = answered;
+    return {
+      questions: only.questions ?? '',
+      analysis: only.analysis,
+      disagreements: [],
+      council: { ...base, disagreements: [] },
+      answeredBy: only,
+    };
+  }
+
+  const synthesisMessages = buildSynthesisMessages(contextSection, answered);
+  onProgress?.(`Synthesizing council answers with ${formatTarget(synthesizer)}`);
+  try {
+    const answer = await askTarget(synthesizer, synthesisMessages, context);
+    const verdict = parseSynthesis(answer.text);
+    const usage = recordAnswerUsage(sessionId, answer, synthesisMessages);
+    const answeredBy = { provider: answer.provider, model: answer.model };
+    return { ...verdict, council: { ...base, disagreements: verdict.disagreements, synthesizer: { ...answeredBy, usage } }, answeredBy };
+  } catch (error) {
+    if (isTerminalError(error, signal)) {
+      throw error;
     }
+    console.error('[LLM:council] synthesis failed, merging locally', { synthesizer: formatTarget(synthesizer), err: (error as Error)?.message });
+    const verdict = mergeCouncil(answered);
+    return { ...verdict, council: { ...base, disagreements: verdict.disagreements } };
+  }
+}
+
+// Main dispatcher function to generate responses from the selected LLM provider
+export async function generateResponse(input: QuestionInput, context: GenerationContext = {}): Promise<QuestionOutput> {
+  const { signal, onProgress } = context;
+  const selection = resolveModelSelection(input.modelOverride);
+  const provider = providerRegistry.require(selection.provider);
+  const { model, params } = selection;
+  const withProfile = selection.profile ? { profile: selection.profile } : {};
+  const targets = buildTargets(
+    { provider: provider.id, model, params },
+    input.fallbackChain ?? resolveFallbackChain(input.sessionId)
+  );
+
+  onProgress?.('Loading constitution rules');
+  const { messages, systemPrompt, promptContext, contextSection, rules, sections, truncated } = compileMentorPrompt(input, model);
+
+  signal?.throwIfAborted();
+
+  const council = resolveCouncil({ requested: input.council, sessionId: input.sessionId, rules, provider: provider.id });
+  if (council) {
+    const deadline = Date.now() + getRetryPolicy().deadlineMs;
+    // The synthesizer checks the reviews against the constitution too
+    const constitution = formatConstitution(sections.rules);
+    const synthesisContext = constitution ? `${contextSection}\n${constitution}` : contextSection;
+    const result = await conveneCouncil(council, council.synthesizer ?? targets[0], messages, synthesisContext, input.sessionId, {
+      ...context,
+      deadline,
+    });
+    return {
+      questions: result.questions,
+      analysis: result.analysis,
+      provider: result.answeredBy?.provider,
+      model: result.answeredBy?.model,
+      ...withProfile,
+      council: result.council,
+      ...(truncated.length ? { truncated } : {}),
+    };
+  }
+
+  // Every call appends to the session history, so an identical re-send would
+  // never match if the history were part of the key. Recording and replaying
+  // fixtures skip the cache so every request reaches them.
+  const cacheKeyFor = (target: CallTarget) => buildCacheKey({
+    provider: target.provider,
+    model: target.model,
+    systemPrompt,
+    context: promptContext,
+    constitution: rules,
+    params: target.params,
+  });
+  const cacheKey = isCacheEnabled() && !getFixtureMode() ? cacheKeyFor(targets[0]) : undefined;
+  const cached = cacheKey && !input.noCache ? getCachedResponse(cacheKey) : undefined;
+  if (cacheKey) {
+    console.log(`[Cache] ${cached ? 'hit' : input.noCache ? 'bypass' : 'miss'}`, { key: cacheKey.slice(0, 12), provider: provider.id, model });
+  }
 
-    const detail = errorMessage ? ` ${errorMessage}` : '';
-    throw new Error(`Anthropic request failed with status ${response.status}${requestSuffix}.${detail}`.trim());
+  let answer: ProviderAnswer;
+  let usage: CallUsage | undefined;
+  if (cached) {
+    answer = cached;
+  } else {
+    const deadline = Date.now() + getRetryPolicy().deadlineMs;
+    answer = await runChain(targets, messages, { ...context, deadline });
+    usage = recordAnswerUsage(input.sessionId, answer, messages);
+    // Stored under the provider and model that answered, so a fallback's reply
+    // is only served to calls that ask that fallback first
+    if (cacheKey && answer.target) {
+      setCachedResponse(cacheKeyFor(answer.target), { text: answer.text, provider: answer.provider, model: answer.model });
+    }
   }
+  const { questions, analysis } = parseMentorResponse(answer.text);
+  return {
+    questions,
+    analysis,
+    provider: answer.provider,
+    model: answer.model,
+    ...withProfile,
+    ...(cached ? { cached: true } : {}),
+    ...(truncated.length ? { truncated } : {}),
+    ...(usage ? { usage } : {}),
+  };
+}
 
-  const content = Array.isArray(parsedBody?.content) ? parsedBody.content : [];
-  const firstTextBlock = content.find((block: any) => block?.type === 'text' && typeof block?.text === 'string');
-  if (firstTextBlock) {
-    return firstTextBlock.text;
+// The exported function is now a wrapper around the dispatcher
+export async function getMetacognitiveQuestions(input: QuestionInput, context: GenerationContext = {}): Promise<QuestionOutput> {
+  try {
+    return await generateResponse(input, context);
+  } catch (error) {
+    // A cancelled request has nobody waiting for a review, and a replay miss must fail the run
+    if (isTerminalError(error, context.signal)) {
+      throw error;
+    }
+    console.error('Error getting metacognitive questions:', error);
+    fallbackQuestions.inc({ source: 'llm' });
+    return { ...reviewOffline(input), degraded: true, degradedReason: (error as Error)?.message || String(error) };
   }
+}
 
-  const fallbackText = content[0]?.text;
-  return typeof fallbackText === 'string' ? fallbackText : '';
-}
\ No newline at end of file
+// Testing helpers
+export const __testing = {
+  setGenAI(client: any) { geminiTesting.setClient(client); },
+  setOpenAIClient(client: any) { openaiTesting.setClient(client); },
+  getGenAI() { return geminiTesting.getClient(); },
+  getOpenAIClient() { return openaiTesting.getClient(); }
+};
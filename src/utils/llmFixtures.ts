@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getStorageDir } from './storage.js';
+import type { ChatMessage, GenerateOptions, GenerateResult, GenerationParams, LLMProvider } from './providers/index.js';
+
+/**
+ * Record and replay provider calls as JSON fixtures.
+ *
+ * VIBE_CHECK_FIXTURES=record saves each provider request and its answer to
+ * `<fixtures dir>/<key>.json`. `replay` answers from those files without
+ * calling any provider and throws on a request that has no fixture. The key
+ * hashes the provider, model, messages and generation settings, so an edit
+ * to the prompt or to the rendered constitution shows up as a miss. The
+ * directory defaults to `<storage dir>/fixtures`; VIBE_CHECK_FIXTURES_DIR
+ * points it elsewhere, such as tests/fixtures/llm.
+ */
+
+export const FIXTURE_MODES = ['record', 'replay'] as const;
+export type FixtureMode = (typeof FIXTURE_MODES)[number];
+
+// Generation settings that change the answer; the timeout doesn't
+type FixtureSettings = Pick<GenerationParams, 'temperature' | 'maxTokens' | 'reasoningEffort'>;
+
+function fixtureSettings({ temperature, maxTokens, reasoningEffort }: GenerationParams): FixtureSettings | undefined {
+  const settings: FixtureSettings = {
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(maxTokens !== undefined ? { maxTokens } : {}),
+    ...(reasoningEffort !== undefined ? { reasoningEffort } : {}),
+  };
+  return Object.keys(settings).length ? settings : undefined;
+}
+
+export interface LlmFixture {
+  key: string;
+  provider: string;
+  model?: string;
+  recordedAt: string;
+  request: { messages: ChatMessage[]; settings?: FixtureSettings };
+  response: GenerateResult;
+}
+
+/**
+ * A replayed request with no recorded answer; never retried or sent down the fallback chain
+ */
+export class FixtureMissingError extends Error {
+  readonly key: string;
+  readonly file: string;
+
+  constructor(provider: string, model: string | undefined, key: string, file: string) {
+    super(
+      `No recorded fixture for ${model ? `${provider}:${model}` : provider} (${key.slice(0, 12)}) at ${file}. ` +
+      'Run with VIBE_CHECK_FIXTURES=record to capture it.'
+    );
+    this.name = 'FixtureMissingError';
+    this.key = key;
+    this.file = file;
+  }
+}
+
+export function getFixtureMode(): FixtureMode | undefined {
+  const mode = process.env.VIBE_CHECK_FIXTURES?.trim().toLowerCase();
+  if (!mode || mode === 'off') {
+    return undefined;
+  }
+  if (!(FIXTURE_MODES as readonly string[]).includes(mode)) {
+    console.error('[Fixtures] ignoring unknown VIBE_CHECK_FIXTURES', { mode });
+    return undefined;
+  }
+  return mode as FixtureMode;
+}
+
+export function getFixturesDir(): string {
+  return path.resolve(process.env.VIBE_CHECK_FIXTURES_DIR || path.join(getStorageDir(), 'fixtures'));
+}
+
+export function fixtureKey(
+  provider: string,
+  model: string | undefined,
+  messages: ChatMessage[],
+  params: GenerationParams = {}
+): string {
+  // Absent when unset, so requests without generation settings keep their keys
+  const settings = fixtureSettings(params);
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ provider, model: model ?? null, messages, ...(settings ? { settings } : {}) }))
+    .digest('hex');
+}
+
+export function getFixtureFile(key: string, dir = getFixturesDir()): string {
+  return path.join(dir, `${key}.json`);
+}
+
+export function readFixture(key: string, dir = getFixturesDir()): LlmFixture | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(getFixtureFile(key, dir), 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+export function writeFixture(fixture: LlmFixture, dir = getFixturesDir()): void {
+  const file = getFixtureFile(fixture.key, dir);
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  } catch (error) {
+    console.error('[Fixtures] failed to record fixture', { file, err: (error as Error)?.message });
+  }
+}
+
+/**
+ * `provider.generate`, recorded or replayed when VIBE_CHECK_FIXTURES is set
+ */
+export async function generateWithFixtures(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  options: GenerateOptions
+): Promise<GenerateResult> {
+  const mode = getFixtureMode();
+  if (!mode) {
+    return provider.generate(messages, options);
+  }
+  const key = fixtureKey(provider.id, options.model, messages, options);
+  const settings = fixtureSettings(options);
+
+  if (mode === 'replay') {
+    options.signal?.throwIfAborted();
+    const fixture = readFixture(key);
+    if (!fixture) {
+      throw new FixtureMissingError(provider.id, options.model, key, getFixtureFile(key));
+    }
+    console.log('[Fixtures] replay', { key: key.slice(0, 12), provider: provider.id, model: options.model });
+    // Streaming callers still see the answer, in one piece
+    options.onText?.(fixture.response.text);
+    return fixture.response;
+  }
+
+  const response = await provider.generate(messages, options);
+  writeFixture({
+    key,
+    provider: provider.id,
+    model: options.model,
+    recordedAt: new Date().toISOString(),
+    request: { messages, ...(settings ? { settings } : {}) },
+    response,
+  });
+  console.log('[Fixtures] recorded', { key: key.slice(0, 12), provider: provider.id, model: options.model });
+  return response;
+}
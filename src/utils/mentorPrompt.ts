@@ -0,0 +1,177 @@
+import { getLearningContextText, getProjectName } from './storage.js';
+import { getConstitution } from '../tools/constitution.js';
+import { ANALYSIS_INSTRUCTIONS } from './riskAnalysis.js';
+import { renderSystemPrompt, resolvePersona, templateIncludesConstitution } from './promptTemplates.js';
+import { extractWorkType } from './constitutional/session-id.js';
+import { estimateTokens, fitContextToBudget, getContextBudget, PromptSections, TruncationNote } from './tokenBudget.js';
+import { resolveModelSelection } from './modelProfiles.js';
+import type { ChatMessage } from './providers/index.js';
+
+/**
+ * The messages a vibe_check sends, and a preview of them.
+ *
+ * compileMentorPrompt is the one place the system prompt, constitution and
+ * context are put together, so a preview (vibe_check `dryRun` or
+ * `vibe-check-mcp prompt preview`) shows exactly what a provider would get.
+ */
+
+export interface MentorPromptInput {
+  goal: string;
+  plan: string;
+  userPrompt?: string;
+  progress?: string;
+  uncertainties?: string[];
+  taskContext?: string;
+  sessionId?: string;
+  historySummary?: string;
+  /** Mentor persona for this call; defaults to the session's, then the project's */
+  persona?: string;
+}
+
+export interface MentorPrompt {
+  messages: ChatMessage[];
+  persona: string;
+  systemPrompt: string;
+  /** The constitution block, sent as its own system message; empty without rules or when the template places them */
+  constitutionSection: string;
+  /** Context without the history line; the response cache keys on it */
+  promptContext: string;
+  /** The user message */
+  contextSection: string;
+  /** The session's rules before the budget was applied */
+  rules: string[];
+  /** Sections after fitting the budget */
+  sections: PromptSections;
+  truncated: TruncationNote[];
+}
+
+/**
+ * The constitution block for a model: one `- rule` per line, or '' without rules
+ */
+export function formatConstitution(rules: string[]): string {
+  return rules.length ? `Constitution:\n${rules.map(r => `- ${r}`).join('\n')}` : '';
+}
+
+export function compileMentorPrompt(input: MentorPromptInput, model?: string): MentorPrompt {
+  const learningContext = process.env.USE_LEARNING_HISTORY === 'true' ? getLearningContextText() : '';
+  const rules = input.sessionId ? getConstitution(input.sessionId) : [];
+
+  const { sections, truncated } = fitContextToBudget({
+    goal: input.goal,
+    plan: input.plan,
+    userPrompt: input.userPrompt,
+    progress: input.progress,
+    taskContext: input.taskContext,
+    uncertainties: input.uncertainties,
+    rules,
+    historySummary: input.historySummary,
+    learningContext,
+  }, model);
+  if (truncated.length) {
+    console.log('[LLM:budget] context truncated', { model, budget: getContextBudget(), truncated });
+  }
+  const persona = resolvePersona(input.sessionId, input.persona);
+  const systemPrompt = `${renderSystemPrompt({
+    persona,
+    projectName: getProjectName(),
+    workType: (input.sessionId && extractWorkType(input.sessionId)) || 'general',
+    constitution: sections.rules,
+  })}\n\n${ANALYSIS_INSTRUCTIONS}`;
+  // Its own system message, after the mentor prompt: both stay the same across
+  // a session's calls, which lets providers with prompt caching cache them.
+  // Skipped when the template already placed the rules with {{constitution}}.
+  const constitutionSection = templateIncludesConstitution() ? '' : formatConstitution(sections.rules);
+
+  const promptContext = `${sections.learningContext ? `Learning Context:\n${sections.learningContext}` : ''}\nGoal: ${sections.goal}\nPlan: ${sections.plan}\nProgress: ${sections.progress || 'None'}\nUncertainties: ${sections.uncertainties?.join(', ') || 'None'}\nTask Context: ${sections.taskContext || 'None'}\nUser Prompt: ${sections.userPrompt || 'None'}`;
+  const contextSection = `CONTEXT:\nHistory Context: ${sections.historySummary || 'None'}\n${promptContext}`;
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...(constitutionSection ? [{ role: 'system' as const, content: constitutionSection }] : []),
+    { role: 'user', content: contextSection }
+  ];
+
+  return { messages, persona, systemPrompt, constitutionSection, promptContext, contextSection, rules, sections, truncated };
+}
+
+export interface PromptSectionTokens {
+  section: string;
+  tokens: number;
+}
+
+export interface PromptPreview {
+  provider: string;
+  model?: string;
+  profile?: string;
+  persona: string;
+  systemPrompt: string;
+  constitution: string;
+  historySummary: string;
+  learningContext: string;
+  /** The user message */
+  context: string;
+  messages: ChatMessage[];
+  /** Estimated per section for the selected model, after the budget was applied */
+  tokens: PromptSectionTokens[];
+  totalTokens: number;
+  budget: number;
+  truncated: TruncationNote[];
+}
+
+/**
+ * The compiled prompt for a call, without calling any provider
+ */
+export function previewPrompt(
+  input: MentorPromptInput & { modelOverride?: { provider?: string; model?: string; profile?: string } }
+): PromptPreview {
+  const selection = resolveModelSelection(input.modelOverride);
+  const { model } = selection;
+  const prompt = compileMentorPrompt(input, model);
+  const { sections } = prompt;
+  const parts: Array<[string, string | undefined]> = [
+    ['system', prompt.systemPrompt],
+    ['constitution', prompt.constitutionSection],
+    ['history', sections.historySummary],
+    ['learnings', sections.learningContext],
+    ['goal', sections.goal],
+    ['plan', sections.plan],
+    ['userPrompt', sections.userPrompt],
+    ['progress', sections.progress],
+    ['taskContext', sections.taskContext],
+    ['uncertainties', sections.uncertainties?.join(', ')],
+  ];
+
+  return {
+    provider: selection.provider,
+    model,
+    ...(selection.profile ? { profile: selection.profile } : {}),
+    persona: prompt.persona,
+    systemPrompt: prompt.systemPrompt,
+    constitution: prompt.constitutionSection,
+    historySummary: sections.historySummary ?? '',
+    learningContext: sections.learningContext ?? '',
+    context: prompt.contextSection,
+    messages: prompt.messages,
+    tokens: parts.map(([section, text]) => ({ section, tokens: estimateTokens(text ?? '', model) })),
+    totalTokens: prompt.messages.reduce((total, message) => total + estimateTokens(message.content, model), 0),
+    budget: getContextBudget(),
+    truncated: prompt.truncated,
+  };
+}
+
+export function formatPromptPreview(preview: PromptPreview): string {
+  const target = preview.model ? `${preview.provider}:${preview.model}` : preview.provider;
+  const lines = [
+    `Prompt preview for ${target}${preview.profile ? ` (profile ${preview.profile})` : ''}, persona ${preview.persona}. No provider was called.`,
+    '',
+    `Estimated tokens: ${preview.totalTokens} (context budget ${preview.budget})`,
+    ...preview.tokens.filter(({ tokens }) => tokens > 0).map(({ section, tokens }) => `- ${section}: ${tokens}`),
+  ];
+  if (preview.truncated.length) {
+    lines.push('', 'Cut to fit the budget:');
+    lines.push(...preview.truncated.map(({ section, action, tokens, keptTokens }) => `- ${section}: ${action}, ${tokens} -> ${keptTokens} tokens`));
+  }
+  for (const message of preview.messages) {
+    lines.push('', `=== ${message.role} ===`, message.content);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,224 @@
+/**
+ * Minimal Prometheus text-format metrics.
+ *
+ * Counters, gauges and histograms with labels, rendered on demand for the
+ * HTTP server's /metrics endpoint. Gauges may read their value at scrape time.
+ */
+
+type Labels = Record<string, string>;
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (!entries.length) {
+    return '';
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+  reset(): void;
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const current = this.values.get(key);
+    if (current) {
+      current.value += amount;
+    } else {
+      this.values.set(key, { labels, value: amount });
+    }
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly collect?: () => number) {}
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  render(): string[] {
+    if (this.collect) {
+      try {
+        this.set(this.collect());
+      } catch (error) {
+        console.error('[Metrics] gauge collection failed', { metric: this.name, err: (error as Error)?.message });
+      }
+    }
+    return Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[] = DEFAULT_BUCKETS) {}
+
+  observe(labels: Labels, seconds: number): void {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (seconds <= bound) {
+        entry!.counts[index] += 1;
+      }
+    });
+    entry.sum += seconds;
+    entry.count += 1;
+  }
+
+  /**
+   * Start a timer; call the returned function to record the elapsed time
+   */
+  startTimer(labels: Labels): () => number {
+    const started = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const toolCalls = metricsRegistry.register(
+  new Counter('vibe_check_tool_calls_total', 'MCP tool calls by tool and outcome (ok, error, cancelled)')
+);
+
+export const toolDuration = metricsRegistry.register(
+  new Histogram('vibe_check_tool_duration_seconds', 'MCP tool call latency in seconds')
+);
+
+export const llmRequests = metricsRegistry.register(
+  new Counter('vibe_check_llm_requests_total', 'LLM provider calls by provider, model and outcome (ok, error, cancelled)')
+);
+
+export const llmDuration = metricsRegistry.register(
+  new Histogram('vibe_check_llm_request_duration_seconds', 'LLM provider call latency in seconds')
+);
+
+export const llmFallbacks = metricsRegistry.register(
+  new Counter('vibe_check_llm_fallbacks_total', 'Calls routed to a fallback provider or model, labelled with the fallback target')
+);
+
+export const llmRetries = metricsRegistry.register(
+  new Counter('vibe_check_llm_retries_total', 'Provider calls retried after a rate limit, server error, dropped connection or timeout')
+);
+
+export const llmTokens = metricsRegistry.register(
+  new Counter('vibe_check_llm_tokens_total', 'Tokens sent to and received from providers, by provider, model and direction (input, output, cache_read, cache_write)')
+);
+
+export const fallbackQuestions = metricsRegistry.register(
+  new Counter('vibe_check_fallback_questions_total', 'Times the offline reviewer answered instead of an LLM (degraded answers)')
+);
+
+export const rulesReloads = metricsRegistry.register(
+  new Counter('vibe_check_rules_reloads_total', 'Constitutional rules hot-reload events by outcome')
+);
+
+/**
+ * Register a gauge whose value is read at scrape time
+ */
+export function registerCollectedGauge(name: string, help: string, collect: () => number): Gauge {
+  return metricsRegistry.register(new Gauge(name, help, collect));
+}
+
+export function renderMetrics(): string {
+  return metricsRegistry.render();
+}
+
+export const __testing = {
+  reset: () => metricsRegistry.reset()
+};
@@ -0,0 +1,136 @@
+import { providerRegistry } from './providers/index.js';
+import type { GenerationParams, ReasoningEffort } from './providers/index.js';
+import { loadProjectConfig } from './projectConfig.js';
+
+/**
+ * Model profiles and per-provider generation settings from vibe-check.config.json.
+ *
+ * A profile names a provider, model and generation settings, and a call picks
+ * one with `modelOverride.profile`. `providers` holds each provider's default
+ * model and settings, used whenever that provider answers without a profile,
+ * including as a fallback or council member. Explicit `modelOverride.provider`
+ * and `model` win over the profile.
+ */
+
+export interface ModelProfile extends GenerationParams {
+  provider?: string;
+  model?: string;
+}
+
+export interface ModelSelection {
+  provider: string;
+  model?: string;
+  params: GenerationParams;
+  profile?: string;
+}
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high'];
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+// Config is read on every call, so log bad fields and keep the rest
+function parseProfile(value: unknown, source: string): ModelProfile {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    console.error('[LLM:profile] ignoring malformed entry', { source });
+    return {};
+  }
+  const raw = value as Record<string, unknown>;
+  const profile: ModelProfile = {};
+  const invalid: string[] = [];
+
+  if (typeof raw.provider === 'string' && providerRegistry.get(raw.provider)) profile.provider = raw.provider;
+  else if (raw.provider !== undefined) invalid.push('provider');
+  if (typeof raw.model === 'string' && raw.model.trim()) profile.model = raw.model.trim();
+  else if (raw.model !== undefined) invalid.push('model');
+  if (typeof raw.temperature === 'number' && raw.temperature >= 0 && raw.temperature <= 2) profile.temperature = raw.temperature;
+  else if (raw.temperature !== undefined) invalid.push('temperature');
+  if (isPositiveNumber(raw.maxTokens)) profile.maxTokens = Math.floor(raw.maxTokens);
+  else if (raw.maxTokens !== undefined) invalid.push('maxTokens');
+  if (REASONING_EFFORTS.includes(raw.reasoningEffort as ReasoningEffort)) profile.reasoningEffort = raw.reasoningEffort as ReasoningEffort;
+  else if (raw.reasoningEffort !== undefined) invalid.push('reasoningEffort');
+  if (isPositiveNumber(raw.timeoutMs)) profile.timeoutMs = Math.floor(raw.timeoutMs);
+  else if (raw.timeoutMs !== undefined) invalid.push('timeoutMs');
+
+  if (invalid.length) {
+    console.error('[LLM:profile] ignoring invalid settings', { source, fields: invalid });
+  }
+  return profile;
+}
+
+function generationParams({ temperature, maxTokens, reasoningEffort, timeoutMs }: ModelProfile): GenerationParams {
+  return {
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(maxTokens !== undefined ? { maxTokens } : {}),
+    ...(reasoningEffort !== undefined ? { reasoningEffort } : {}),
+    ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+  };
+}
+
+export function listProfiles(): string[] {
+  const profiles = loadProjectConfig().profiles;
+  return profiles && typeof profiles === 'object' ? Object.keys(profiles) : [];
+}
+
+export function getProfile(name: string): ModelProfile {
+  const profiles = loadProjectConfig().profiles;
+  const value = profiles && typeof profiles === 'object' && Object.hasOwn(profiles, name) ? profiles[name] : undefined;
+  if (value === undefined) {
+    const available = listProfiles();
+    throw new Error(`Unknown model profile: ${name}. ${available.length ? `Available: ${available.join(', ')}` : 'No profiles in vibe-check.config.json.'}`);
+  }
+  return parseProfile(value, `profiles.${name}`);
+}
+
+/**
+ * The project's default model and settings for a provider
+ */
+export function getProviderDefaults(providerId: string): ModelProfile {
+  const value = loadProjectConfig().providers?.[providerId];
+  if (value === undefined) {
+    return {};
+  }
+  const { provider: _ignored, ...defaults } = parseProfile(value, `providers.${providerId}`);
+  return defaults;
+}
+
+/**
+ * Model for a provider when the call names none: the project's default for
+ * that provider, DEFAULT_MODEL when it is the default provider, then the
+ * provider's own default
+ */
+export function defaultModelFor(providerId: string): string | undefined {
+  const configured = getProviderDefaults(providerId).model;
+  if (configured) {
+    return configured;
+  }
+  // DEFAULT_MODEL names a model for DEFAULT_LLM_PROVIDER only
+  if (providerId === (process.env.DEFAULT_LLM_PROVIDER || 'gemini') && process.env.DEFAULT_MODEL) {
+    return process.env.DEFAULT_MODEL;
+  }
+  return providerRegistry.get(providerId)?.defaultModel;
+}
+
+/**
+ * Provider, model and generation settings for a call
+ */
+export function resolveModelSelection(override: { provider?: string; model?: string; profile?: string } = {}): ModelSelection {
+  const profile = override.profile ? getProfile(override.profile) : {};
+  const provider = override.provider || profile.provider || process.env.DEFAULT_LLM_PROVIDER || 'gemini';
+  // A profile's model belongs to its provider, so it is dropped when the call picks another one
+  const profileModel = !profile.provider || profile.provider === provider ? profile.model : undefined;
+  return {
+    provider,
+    model: override.model || profileModel || defaultModelFor(provider),
+    params: { ...generationParams(getProviderDefaults(provider)), ...generationParams(profile) },
+    ...(override.profile ? { profile: override.profile } : {}),
+  };
+}
+
+/**
+ * Settings for a fallback or council target, which never carries a profile
+ */
+export function paramsForProvider(providerId: string): GenerationParams {
+  return generationParams(getProviderDefaults(providerId));
+}
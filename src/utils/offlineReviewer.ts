@@ -0,0 +1,217 @@
+import { getConstitution } from '../tools/constitution.js';
+import { getLearningEntries, LearningEntry } from './storage.js';
+import { extractWorkType } from './constitutional/session-id.js';
+import { RuleSeverity, ruleSeverity } from './tokenBudget.js';
+import type { VibeCheckAnalysis } from './riskAnalysis.js';
+
+/**
+ * Rule-based review served when no provider can answer. It needs no LLM:
+ * the goal and plan are matched against the session's constitution (NEVER
+ * and ALWAYS phrases, rule keywords and examples), checked for tests and
+ * rollback steps by work type, and compared with recent learnings.
+ */
+
+export interface OfflineReviewInput {
+  goal: string;
+  plan: string;
+  userPrompt?: string;
+  progress?: string;
+  uncertainties?: string[];
+  taskContext?: string;
+  sessionId?: string;
+}
+
+export interface OfflineReview {
+  questions: string;
+  analysis: VibeCheckAnalysis;
+}
+
+interface ParsedRule {
+  id?: string;
+  name?: string;
+  severity?: RuleSeverity;
+  text: string;
+  examples: string[];
+}
+
+const MAX_RULE_QUESTIONS = 5;
+const MAX_LEARNINGS = 3;
+const MAX_UNCERTAINTIES = 2;
+// Shared keywords a rule or learning needs before it counts as related to the plan
+const MIN_OVERLAP = 2;
+const QUOTE_LENGTH = 160;
+
+const TEST_WORK_TYPES = ['feature', 'bugfix', 'fix', 'refactor'];
+const ROLLBACK_WORK_TYPES = ['migration', 'deployment', 'deploy', 'release'];
+
+const MENTIONS_TESTS = /\b(tests?|testing|tested|specs?|coverage|e2e|qa)\b/i;
+const MENTIONS_ROLLBACK = /\b(roll ?back|revert|backups?|restore|canary|feature flag|down migration|undo)\b/i;
+const RISKY_CHANGE = /\b(migrat\w*|deploy\w*|release|drop|alter table|schema change)\b/i;
+
+const SEVERITY_ORDER: RuleSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'not', 'use', 'all', 'any', 'are', 'but', 'can', 'from', 'has', 'have', 'into',
+  'its', 'must', 'never', 'always', 'only', 'our', 'should', 'that', 'then', 'this', 'those', 'was', 'were',
+  'when', 'will', 'without', 'you', 'your', 'also', 'each', 'every', 'before', 'after', 'make', 'sure', 'them',
+  'they', 'what', 'which', 'while', 'than', 'more', 'less', 'just', 'via', 'per', 'out', 'new', 'add', 'critical',
+]);
+
+function keywords(text: string): Set<string> {
+  // Version numbers keep their dots (`11.x`); `jest.fn` is two words
+  const words = text.toLowerCase().match(/\d+(?:\.[\dx]+)+|[a-z0-9]+/g) ?? [];
+  return new Set(words.filter((word) => word.length >= 3 && !STOPWORDS.has(word)));
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
+function quote(text: string): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  return trimmed.length > QUOTE_LENGTH ? `${trimmed.slice(0, QUOTE_LENGTH - 1)}…` : trimmed;
+}
+
+/**
+ * Split a constitution string (`🚨 [category] id name: description | Rationale: … | Examples: a; b`).
+ * Rules added with update_constitution are free text and keep only `text`.
+ */
+export function parseRule(rule: string): ParsedRule {
+  const [head, ...parts] = rule.split(' | ');
+  const examples = parts
+    .filter((part) => part.startsWith('Examples: '))
+    .flatMap((part) => part.slice('Examples: '.length).split('; '));
+  const match = head.match(/^\S+\s+\[[^\]]*\]\s+(\S+)\s+([^:]+):\s*(.*)$/);
+  if (!match) {
+    return { text: head, examples };
+  }
+  return { id: match[1], name: match[2].trim(), severity: ruleSeverity(rule), text: match[3], examples };
+}
+
+/**
+ * Phrases after NEVER or ALWAYS, up to the end of the clause
+ */
+function directives(rule: ParsedRule, word: 'NEVER' | 'ALWAYS'): string[] {
+  const pattern = new RegExp(`\\b${word}\\b:?\\s*([^.;()|]+)`, 'gi');
+  return [rule.text, ...rule.examples].flatMap((text) => Array.from(text.matchAll(pattern), (match) => match[1].trim())).filter(Boolean);
+}
+
+function describeRule(rule: ParsedRule): string {
+  return rule.id ? `${rule.id} (${rule.name})` : `"${quote(rule.text)}"`;
+}
+
+function severityRank(rule: ParsedRule): number {
+  return rule.severity ? SEVERITY_ORDER.indexOf(rule.severity) : SEVERITY_ORDER.length;
+}
+
+function recentLearnings(planWords: Set<string>): LearningEntry[] {
+  let entries: LearningEntry[];
+  try {
+    entries = Object.values(getLearningEntries()).flat();
+  } catch (error) {
+    console.error('[OfflineReview] could not read learnings', { err: (error as Error)?.message });
+    return [];
+  }
+  return entries
+    .filter((entry) => overlap(keywords(`${entry.category} ${entry.mistake} ${entry.solution ?? ''}`), planWords) >= MIN_OVERLAP)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_LEARNINGS);
+}
+
+/**
+ * Review a plan without a model; same output shape as a provider answer
+ */
+export function reviewOffline(input: OfflineReviewInput): OfflineReview {
+  const planText = [input.goal, input.plan, input.progress, input.taskContext].filter(Boolean).join('\n');
+  const planWords = keywords(planText);
+  const workType = input.sessionId ? extractWorkType(input.sessionId)?.toLowerCase() : undefined;
+  const rules = (input.sessionId ? getConstitution(input.sessionId) : []).map(parseRule);
+
+  const questions: string[] = [];
+  const actions: string[] = [];
+  const traits: string[] = [];
+  const violations: ParsedRule[] = [];
+
+  for (const rule of rules) {
+    const forbidden = directives(rule, 'NEVER').find((phrase) => {
+      const words = keywords(phrase);
+      return words.size > 0 && overlap(words, planWords) === words.size;
+    });
+    if (forbidden) {
+      violations.push(rule);
+      questions.push(`The plan mentions "${quote(forbidden)}", which ${describeRule(rule)} forbids. How will you change the plan to comply?`);
+      actions.push(`Rework the plan to follow ${rule.id ?? 'the constitution'}`);
+    }
+  }
+
+  const related = rules
+    .filter((rule) => !violations.includes(rule))
+    .map((rule) => ({ rule, score: overlap(keywords([rule.name ?? '', rule.text, ...rule.examples].join(' ')), planWords) }))
+    .filter(({ score }) => score >= MIN_OVERLAP)
+    .sort((a, b) => severityRank(a.rule) - severityRank(b.rule) || b.score - a.score);
+  for (const { rule } of related.slice(0, Math.max(0, MAX_RULE_QUESTIONS - violations.length))) {
+    const required = directives(rule, 'ALWAYS')[0];
+    questions.push(
+      required
+        ? `${describeRule(rule)} applies here and says to always ${quote(required)}. Where does the plan do that?`
+        : `${describeRule(rule)} applies here: ${quote(rule.text)}. How does the plan satisfy it?`
+    );
+  }
+
+  if (workType && TEST_WORK_TYPES.includes(workType) && !MENTIONS_TESTS.test(planText)) {
+    traits.push('missing-tests');
+    questions.push(`This is ${workType} work, but the plan never mentions tests. Which tests will show the change works?`);
+    actions.push('Add the tests that cover this change to the plan');
+  }
+  const rollbackWork = Boolean(workType && ROLLBACK_WORK_TYPES.includes(workType));
+  if ((rollbackWork || RISKY_CHANGE.test(planText)) && !MENTIONS_ROLLBACK.test(planText)) {
+    traits.push('missing-rollback');
+    questions.push(`The plan has no rollback step. How will you undo the ${rollbackWork ? workType : 'change'} if it goes wrong?`);
+    actions.push('Write down the rollback step before starting');
+  }
+
+  for (const learning of recentLearnings(planWords)) {
+    const solution = learning.solution ? ` (fixed by: ${quote(learning.solution)})` : '';
+    const ask = learning.type === 'mistake' ? 'How does this plan avoid repeating it?' : 'Does this plan build on it?';
+    questions.push(`A recent ${learning.type} in ${learning.category} looks similar: "${quote(learning.mistake)}"${solution}. ${ask}`);
+  }
+
+  for (const uncertainty of (input.uncertainties ?? []).slice(0, MAX_UNCERTAINTIES)) {
+    questions.push(`You are unsure about "${quote(uncertainty)}". What is the cheapest way to settle it before going further?`);
+  }
+
+  if (!questions.length) {
+    questions.push('Is there a simpler approach that would meet the user\'s needs?');
+  }
+  questions.push(
+    input.userPrompt
+      ? `The user asked: "${quote(input.userPrompt)}". Does this plan directly address what the user requested, or might it be solving a different problem?`
+      : 'Does this plan directly address what the user requested, or might it be solving a different problem?'
+  );
+
+  const criticalViolations = violations.filter((rule) => rule.severity === 'CRITICAL').length;
+  const riskScore = Math.min(
+    1,
+    0.2
+      + criticalViolations * 0.25
+      + (violations.length - criticalViolations) * 0.1
+      + (traits.includes('missing-rollback') ? 0.15 : 0)
+      + (traits.includes('missing-tests') ? 0.1 : 0)
+  );
+
+  return {
+    questions: questions.map((question, index) => `${index + 1}. ${question}`).join('\n'),
+    analysis: {
+      riskScore: Math.round(riskScore * 100) / 100,
+      traits,
+      ruleViolations: violations.map((rule) => rule.id ?? quote(rule.text)),
+      recommendedActions: actions,
+    },
+  };
+}
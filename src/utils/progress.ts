@@ -0,0 +1,41 @@
+import type { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Turn stage messages into notifications/progress for the request's progressToken.
+ * Returns undefined when the client did not ask for progress.
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ((message: string) => void) | undefined {
+  if (progressToken === undefined) {
+    return undefined;
+  }
+
+  let progress = 0;
+  return (message: string) => {
+    progress += 1;
+    sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, message }
+    }).catch((error) => {
+      console.error('[Progress] failed to send notification', { err: (error as Error)?.message });
+    });
+  };
+}
+
+/**
+ * Rate-limit partial-output messages to one per interval. There is no trailing
+ * send: a late message could arrive after the tool result, and the final text
+ * is in the result anyway.
+ */
+export function throttleProgress(report: (message: string) => void, intervalMs = 250): (message: string) => void {
+  let lastSent = -Infinity;
+  return (message: string) => {
+    const now = Date.now();
+    if (now - lastSent >= intervalMs) {
+      lastSent = now;
+      report(message);
+    }
+  };
+}
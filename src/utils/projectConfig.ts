@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+import { getStorageDir } from './storage.js';
+
+/**
+ * Per-project settings in `<storage dir>/vibe-check.config.json`.
+ *
+ * Resolved through getStorageDir, so a project-bound HTTP token reads its own
+ * project's file. Re-read whenever the file changes.
+ */
+/** Provider, model and generation settings, as in a model profile */
+export interface ProfileConfig {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  reasoningEffort?: 'low' | 'medium' | 'high';
+  timeoutMs?: number;
+}
+
+export interface ProjectConfig {
+  /** Ordered `provider:model` entries tried after the selected provider fails */
+  fallbackChain?: string[];
+  /** Let calls to the `local` provider fall back to, or convene, hosted providers */
+  allowHostedFallback?: boolean;
+  /** Mentor persona used when neither the call nor the session picks one */
+  persona?: string;
+  /** USD per million input and output tokens, keyed by model or `provider:model` prefix */
+  prices?: Record<string, { input: number; output: number }>;
+  /** Named profiles picked with `modelOverride.profile`, e.g. `fast`, `deep`, `cheap` */
+  profiles?: Record<string, ProfileConfig>;
+  /** Default model and generation settings per provider ID */
+  providers?: Record<string, Omit<ProfileConfig, 'provider'>>;
+  /** Send matching sessions to several providers and merge their answers */
+  council?: {
+    /** `provider:model` entries, at least two */
+    members?: string[];
+    /** Merges the answers; defaults to the provider selected for the call */
+    synthesizer?: string;
+    /** Session work types that convene the council, e.g. `migration` */
+    workTypes?: string[];
+    /** Rule severities (CRITICAL, HIGH, MEDIUM, LOW) that convene it when present in the constitution */
+    severities?: string[];
+  };
+}
+
+export const PROJECT_CONFIG_FILE = 'vibe-check.config.json';
+
+const cache = new Map<string, { mtimeMs: number; config: ProjectConfig }>();
+
+export function getProjectConfigPath(): string {
+  return path.join(getStorageDir(), PROJECT_CONFIG_FILE);
+}
+
+export function loadProjectConfig(): ProjectConfig {
+  const configPath = getProjectConfigPath();
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(configPath).mtimeMs;
+  } catch {
+    return {};
+  }
+
+  const cached = cache.get(configPath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.config;
+  }
+
+  let config: ProjectConfig = {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      config = parsed;
+    } else {
+      console.error('[Config] project config must be a JSON object', { file: configPath });
+    }
+  } catch (error) {
+    console.error('[Config] failed to read project config', { file: configPath, err: (error as Error)?.message });
+  }
+  cache.set(configPath, { mtimeMs, config });
+  return config;
+}
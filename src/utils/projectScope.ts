@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Per-request project binding.
+ *
+ * HTTP requests authenticated with a project-bound API token run inside a
+ * scope so that storage, history, rules and session constitutions resolve
+ * against that project's storage directory instead of the server default.
+ */
+export interface ProjectScope {
+  storageDir: string;
+  tokenId?: string;
+}
+
+const projectScope = new AsyncLocalStorage<ProjectScope>();
+
+export function runInProjectScope<T>(scope: ProjectScope, fn: () => T): T {
+  return projectScope.run(scope, fn);
+}
+
+export function getProjectScope(): ProjectScope | undefined {
+  return projectScope.getStore();
+}
+
+export function getScopedStorageDir(): string | undefined {
+  return projectScope.getStore()?.storageDir;
+}
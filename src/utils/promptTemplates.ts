@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import { getStorageDir } from './storage.js';
+import { getScopedStorageDir } from './projectScope.js';
+import { loadProjectConfig } from './projectConfig.js';
+
+/**
+ * Mentor system prompt templates and personas.
+ *
+ * `<storage dir>/prompts/system.md` replaces the built-in template, and
+ * `<storage dir>/prompts/personas/<name>.md` adds or overrides a persona.
+ * Files are re-read when their mtime changes, so edits apply to the next call
+ * without a restart. Templates may use {{persona}}, {{projectName}},
+ * {{workType}} and {{constitution}}; other placeholders are left as written.
+ * A template that places {{constitution}} carries the rules itself, so they
+ * are not sent again as a separate message.
+ */
+
+export const DEFAULT_PERSONA = 'mentor';
+
+export const BUILTIN_PERSONAS: Record<string, string> = {
+  mentor: `Your tone needs to always be a mix of these traits based on the context of which pushes the message in the most appropriate affect: Gentle & Validating, Unafraid to push many questions but humble enough to step back, Sharp about problems and eager to help about problem-solving & giving tips and/or advice, stern and straightforward when spotting patterns & the agent being stuck in something that could derail things.`,
+  'strict-reviewer': `Your tone is that of a strict senior reviewer: direct, terse and unsentimental. Call out every unverified assumption, missing test, rollback gap and bit of scope creep plainly, and do not soften a problem to spare feelings. Only give a go-ahead when the plan has no open risks.`,
+  'gentle-coach': `Your tone is that of a gentle coach: warm, encouraging and patient. Lead with what is working, raise at most the two or three concerns that matter most as open questions, and frame guidance as suggestions the agent can weigh for itself.`,
+  'security-auditor': `You review as a security auditor. Treat every plan as if it touches production: look for secrets handling, authentication and authorization gaps, input validation and injection, dependency and supply-chain risk, data exposure, sensitive data in logs, and missing audit trails or rollback. Be blunt about anything exploitable and ask how each risk is mitigated before endorsing the plan.`
+};
+
+const DEFAULT_SYSTEM_TEMPLATE = `You are a meta-mentor. You're an experienced feedback provider that specializes in understanding intent, dysfunctional patterns in AI agents, and in responding in ways that further the goal. You need to carefully reason and process the information provided, to determine your output.\n\n{{persona}}\n\nHere's what you need to think about (Do not output the full thought process, only what is explicitly requested):\n1. What's going on here? What's the nature of the problem is the agent tackling? What's the approach, situation and goal? Is there any prior context that clarifies context further? \n2. What does the agent need to hear right now: Are there any clear patterns, loops, or unspoken assumptions being missed here? Or is the agent doing fine - in which case should I interrupt it or provide soft encouragement and a few questions? What is the best response I can give right now?\n3. In case the issue is technical - I need to provide guidance and help. In case I spot something that's clearly not accounted for/ assumed/ looping/ or otherwise could be out of alignment with the user or agent stated goals - I need to point out what I see gently and ask questions on if the agent agrees. If I don't see/ can't interpret an explicit issue - what intervention would provide valuable feedback here - questions, guidance, validation, or giving a soft go-ahead with reminders of best practices?\n4. In case the plan looks to be accurate - based on the context, can I remind the agent of how to continue, what not to forget, or should I soften and step back for the agent to continue its work? What's the most helpful thing I can do right now?`;
+
+export interface SystemPromptVariables {
+  persona: string;
+  projectName: string;
+  workType: string;
+  /** Session constitution rules, rendered one per line */
+  constitution: string[];
+}
+
+const fileCache = new Map<string, { mtimeMs: number; text: string }>();
+
+// Read a template, reusing the cached text until the file changes
+function readTemplate(file: string): string | undefined {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    return undefined;
+  }
+  const cached = fileCache.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.text;
+  }
+  try {
+    const text = fs.readFileSync(file, 'utf8').trim();
+    fileCache.set(file, { mtimeMs, text });
+    console.log('[Prompts:template] loaded', { file });
+    return text;
+  } catch (error) {
+    console.error('[Prompts:template] failed to read template', { file, err: (error as Error)?.message });
+    return undefined;
+  }
+}
+
+export function getPromptsDir(): string {
+  return path.join(getStorageDir(), 'prompts');
+}
+
+function personaFile(name: string): string {
+  return path.join(getPromptsDir(), 'personas', `${name}.md`);
+}
+
+/**
+ * Built-in personas plus the project's own
+ */
+export function listPersonas(): string[] {
+  let projectPersonas: string[] = [];
+  try {
+    projectPersonas = fs
+      .readdirSync(path.join(getPromptsDir(), 'personas'))
+      .filter((name) => name.endsWith('.md'))
+      .map((name) => name.slice(0, -3));
+  } catch {
+    // No project personas
+  }
+  return Array.from(new Set([...Object.keys(BUILTIN_PERSONAS), ...projectPersonas]));
+}
+
+/**
+ * Check a persona name, throwing for one that is neither built in nor defined by the project
+ */
+export function parsePersona(name: string): string {
+  const trimmed = name.trim();
+  if (!listPersonas().includes(trimmed)) {
+    throw new Error(`Unknown persona: ${name}. Available: ${listPersonas().join(', ')}`);
+  }
+  return trimmed;
+}
+
+function personaText(name: string): string {
+  return readTemplate(personaFile(name)) ?? BUILTIN_PERSONAS[name] ?? BUILTIN_PERSONAS[DEFAULT_PERSONA];
+}
+
+const sessionPersonas = new Map<string, string>();
+
+// Sessions of different projects may reuse the same ID, so scope the map key
+function sessionKey(sessionId: string): string {
+  const scopedDir = getScopedStorageDir();
+  return scopedDir ? `${scopedDir}::${sessionId}` : sessionId;
+}
+
+export function setSessionPersona(sessionId: string, persona: string): void {
+  sessionPersonas.set(sessionKey(sessionId), persona);
+}
+
+/**
+ * Persona for a call: the call's own, then the session's, then the project config's
+ */
+export function resolvePersona(sessionId?: string, override?: string): string {
+  if (override) {
+    return override;
+  }
+  const sessionPersona = sessionId ? sessionPersonas.get(sessionKey(sessionId)) : undefined;
+  if (sessionPersona) {
+    return sessionPersona;
+  }
+  const projectPersona = loadProjectConfig().persona;
+  if (typeof projectPersona === 'string' && listPersonas().includes(projectPersona)) {
+    return projectPersona;
+  }
+  if (projectPersona !== undefined) {
+    console.error('[Prompts:template] ignoring unknown project persona', { persona: projectPersona });
+  }
+  return DEFAULT_PERSONA;
+}
+
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+}
+
+function systemTemplate(): string {
+  return readTemplate(path.join(getPromptsDir(), 'system.md')) ?? DEFAULT_SYSTEM_TEMPLATE;
+}
+
+/**
+ * Whether the system template renders the constitution rules itself
+ */
+export function templateIncludesConstitution(): boolean {
+  return /\{\{\s*constitution\s*\}\}/.test(systemTemplate());
+}
+
+export function renderSystemPrompt({ persona, projectName, workType, constitution }: SystemPromptVariables): string {
+  return renderTemplate(systemTemplate(), {
+    persona: personaText(persona),
+    projectName,
+    workType,
+    constitution: constitution.length ? constitution.map((rule) => `- ${rule}`).join('\n') : 'None'
+  });
+}
+
+export const __testing = {
+  reset: () => {
+    sessionPersonas.clear();
+    fileCache.clear();
+  }
+};
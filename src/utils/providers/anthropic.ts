@@ -0,0 +1,204 @@
+import { resolveAnthropicConfig, buildAnthropicHeaders } from '../anthropic.js';
+import { ProviderError, parseRetryAfter } from '../retry.js';
+import { checkEnvKeys, splitSystemPrompt } from './registry.js';
+import { readSseJson } from './sse.js';
+import type { ChatMessage, LLMProvider, ReasoningEffort, TokenUsage } from './types.js';
+
+const envKeys = [{ name: 'ANTHROPIC_API_KEY', pattern: /^sk-ant-/, message: 'must start with "sk-ant-".' }];
+
+export const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  capabilities: { jsonMode: false, systemPrompt: true, clientSampling: false, streaming: true },
+  defaultModel: 'claude-3-5-sonnet-20241022',
+  envKeys,
+  isConfigured: () => Boolean(process.env.ANTHROPIC_API_KEY || process.env.ANTHROPIC_AUTH_TOKEN),
+  async generate(messages, { model, signal, maxTokens, temperature, reasoningEffort, onText }) {
+    const { text, usage } = await callAnthropic({ model: model ?? '', messages, signal, maxTokens, temperature, reasoningEffort, onText });
+    return { text, model, usage };
+  },
+  async healthCheck() {
+    // A bearer token for a proxy (ANTHROPIC_AUTH_TOKEN) has no fixed format
+    if (!process.env.ANTHROPIC_API_KEY && process.env.ANTHROPIC_AUTH_TOKEN) {
+      return { ok: true, detail: 'ANTHROPIC_AUTH_TOKEN set' };
+    }
+    return checkEnvKeys(envKeys);
+  }
+};
+
+interface AnthropicCallOptions {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  reasoningEffort?: ReasoningEffort;
+  signal?: AbortSignal;
+  onText?: (delta: string) => void;
+}
+
+// Extended thinking budget per reasoning effort; it is spent before, and on top of, maxTokens
+const THINKING_BUDGETS: Record<ReasoningEffort, number> = { low: 1024, medium: 4096, high: 16384 };
+
+interface AnthropicReply {
+  text: string;
+  usage?: TokenUsage;
+}
+
+// input_tokens leaves out the tokens read from or written to the prompt cache
+function readAnthropicUsage(usage: any): TokenUsage | undefined {
+  if (typeof usage?.input_tokens !== 'number' && typeof usage?.output_tokens !== 'number') {
+    return undefined;
+  }
+  return {
+    inputTokens: usage.input_tokens ?? 0,
+    outputTokens: usage.output_tokens ?? 0,
+    ...(usage.cache_read_input_tokens ? { cacheReadTokens: usage.cache_read_input_tokens } : {}),
+    ...(usage.cache_creation_input_tokens ? { cacheWriteTokens: usage.cache_creation_input_tokens } : {}),
+  };
+}
+
+/**
+ * System messages as text blocks, the last one marked for prompt caching.
+ * The mentor prompt and the session constitution repeat on every call in a
+ * session, so later calls read them from the cache; prompts shorter than the
+ * model's minimum cacheable length are sent uncached.
+ */
+function buildAnthropicSystem(messages: ChatMessage[]): Array<Record<string, unknown>> {
+  const blocks: Array<Record<string, unknown>> = messages
+    .filter((message) => message.role === 'system' && message.content)
+    .map((message) => ({ type: 'text', text: message.content }));
+  if (blocks.length) {
+    blocks[blocks.length - 1].cache_control = { type: 'ephemeral' };
+  }
+  return blocks;
+}
+
+async function callAnthropic({
+  model,
+  messages,
+  maxTokens = 1024,
+  temperature = 0.2,
+  reasoningEffort,
+  signal,
+  onText,
+}: AnthropicCallOptions): Promise<AnthropicReply> {
+  if (!model) {
+    throw new Error('Anthropic provider requires a model to be specified in the tool call or DEFAULT_MODEL.');
+  }
+
+  const { baseUrl, apiKey, authToken, version } = resolveAnthropicConfig();
+  const headers = buildAnthropicHeaders({ apiKey, authToken, version });
+  const url = `${baseUrl}/v1/messages`;
+  const { conversation } = splitSystemPrompt(messages);
+  const system = buildAnthropicSystem(messages);
+
+  const body: Record<string, unknown> = {
+    model,
+    max_tokens: maxTokens,
+    temperature,
+    messages: conversation.map(({ role, content }) => ({ role, content })),
+  };
+
+  // Thinking requires the default temperature
+  if (reasoningEffort) {
+    const budget = THINKING_BUDGETS[reasoningEffort];
+    body.thinking = { type: 'enabled', budget_tokens: budget };
+    body.max_tokens = budget + maxTokens;
+    delete body.temperature;
+  }
+
+  if (system.length) {
+    body.system = system;
+  }
+
+  if (onText) {
+    body.stream = true;
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (response.ok && onText && response.body) {
+    return readAnthropicStream(response.body, onText);
+  }
+
+  const rawText = await response.text();
+  let parsedBody: any;
+  if (rawText) {
+    try {
+      parsedBody = JSON.parse(rawText);
+    } catch {
+      parsedBody = undefined;
+    }
+  }
+
+  if (!response.ok) {
+    const requestId = response.headers.get('anthropic-request-id') || response.headers.get('x-request-id');
+    const retryAfter = response.headers.get('retry-after');
+    const requestSuffix = requestId ? ` (request id: ${requestId})` : '';
+    const errorMessage =
+      typeof parsedBody?.error?.message === 'string'
+        ? parsedBody.error.message
+        : typeof parsedBody?.message === 'string'
+          ? parsedBody.message
+          : rawText?.trim();
+
+    if (response.status === 401 || response.status === 403) {
+      throw new ProviderError(
+        `Anthropic authentication failed with status ${response.status}${requestSuffix}. Verify ANTHROPIC_API_KEY or ANTHROPIC_AUTH_TOKEN.`,
+        { status: response.status }
+      );
+    }
+
+    if (response.status === 429) {
+      const retryMessage = retryAfter ? ` Retry after ${retryAfter} seconds if provided.` : '';
+      throw new ProviderError(`Anthropic rate limit exceeded (status 429)${requestSuffix}.${retryMessage}`, {
+        status: 429,
+        retryAfterMs: parseRetryAfter(retryAfter)
+      });
+    }
+
+    const detail = errorMessage ? ` ${errorMessage}` : '';
+    throw new ProviderError(`Anthropic request failed with status ${response.status}${requestSuffix}.${detail}`.trim(), {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(retryAfter)
+    });
+  }
+
+  const usage = readAnthropicUsage(parsedBody?.usage);
+  const content = Array.isArray(parsedBody?.content) ? parsedBody.content : [];
+  const firstTextBlock = content.find((block: any) => block?.type === 'text' && typeof block?.text === 'string');
+  if (firstTextBlock) {
+    return { text: firstTextBlock.text, usage };
+  }
+
+  const fallbackText = content[0]?.text;
+  return { text: typeof fallbackText === 'string' ? fallbackText : '', usage };
+}
+
+// Messages API events: text arrives in content_block_delta; errors can follow a 200.
+// Input and cache tokens are reported in message_start, the output total in message_delta
+async function readAnthropicStream(body: AsyncIterable<Uint8Array>, onText: (delta: string) => void): Promise<AnthropicReply> {
+  let text = '';
+  let usage: TokenUsage | undefined;
+  for await (const event of readSseJson(body)) {
+    if (event?.type === 'message_start') {
+      usage = readAnthropicUsage(event.message?.usage) ?? usage;
+    } else if (event?.type === 'message_delta' && typeof event.usage?.output_tokens === 'number') {
+      usage = { ...usage, inputTokens: usage?.inputTokens ?? 0, outputTokens: event.usage.output_tokens };
+    } else if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta' && typeof event.delta.text === 'string') {
+      text += event.delta.text;
+      onText(event.delta.text);
+    } else if (event?.type === 'error') {
+      const errorType = event.error?.type;
+      throw new ProviderError(`Anthropic stream failed: ${event.error?.message ?? errorType ?? 'unknown error'}`, {
+        retryable: errorType === 'overloaded_error' || errorType === 'api_error'
+      });
+    }
+  }
+  return { text, usage };
+}
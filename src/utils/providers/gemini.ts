@@ -0,0 +1,83 @@
+import { checkEnvKeys, splitSystemPrompt } from './registry.js';
+import type { GenerationParams, LLMProvider, ReasoningEffort, TokenUsage } from './types.js';
+
+// Use 'any' to support dynamic import
+let genAI: any = null;
+
+// Ask Gemini for a bare JSON object matching ANALYSIS_INSTRUCTIONS
+const GEMINI_JSON_CONFIG = { responseMimeType: 'application/json' };
+
+// Thinking budget in tokens per reasoning effort (Gemini 2.5 models)
+const THINKING_BUDGETS: Record<ReasoningEffort, number> = { low: 1024, medium: 8192, high: 24576 };
+
+function generationConfig({ temperature, maxTokens, reasoningEffort }: GenerationParams) {
+  return {
+    ...GEMINI_JSON_CONFIG,
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(maxTokens ? { maxOutputTokens: maxTokens } : {}),
+    ...(reasoningEffort ? { thinkingConfig: { thinkingBudget: THINKING_BUDGETS[reasoningEffort] } } : {}),
+  };
+}
+
+async function ensureClient() {
+  if (!genAI && process.env.GEMINI_API_KEY) {
+    const { GoogleGenerativeAI } = await import('@google/generative-ai');
+    genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+    console.log('Gemini API client initialized dynamically');
+  }
+}
+
+// Streams repeat the running totals on every chunk, so the last one wins
+function readGeminiUsage(metadata: any): TokenUsage | undefined {
+  if (typeof metadata?.promptTokenCount !== 'number') {
+    return undefined;
+  }
+  return { inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount ?? 0 };
+}
+
+const envKeys = [{ name: 'GEMINI_API_KEY', pattern: /^AI/, message: 'must start with "AI".' }];
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  capabilities: { jsonMode: true, systemPrompt: true, clientSampling: false, streaming: true },
+  defaultModel: 'gemini-2.5-pro',
+  fallbackModel: 'gemini-2.5-flash',
+  envKeys,
+  isConfigured: () => Boolean(process.env.GEMINI_API_KEY),
+  initialize: ensureClient,
+  async generate(messages, { model, signal, onText, ...params }) {
+    await ensureClient();
+    if (!genAI) throw new Error('Gemini API key missing.');
+    console.log(`Attempting to use Gemini model: ${model}`);
+    const { system, conversation } = splitSystemPrompt(messages);
+    const modelInstance = genAI.getGenerativeModel({
+      model,
+      generationConfig: generationConfig(params),
+      ...(system ? { systemInstruction: system } : {})
+    });
+    const prompt = conversation.map((message) => message.content).join('\n\n');
+    if (onText) {
+      const result = await modelInstance.generateContentStream(prompt, { signal });
+      let text = '';
+      let usage: TokenUsage | undefined;
+      for await (const chunk of result.stream) {
+        usage = readGeminiUsage(chunk.usageMetadata) ?? usage;
+        const delta = chunk.text();
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+      return { text, model, usage };
+    }
+    const result = await modelInstance.generateContent(prompt, { signal });
+    return { text: result.response.text(), model, usage: readGeminiUsage(result.response.usageMetadata) };
+  },
+  healthCheck: async () => checkEnvKeys(envKeys)
+};
+
+export const __testing = {
+  setClient(client: any) { genAI = client; },
+  getClient() { return genAI; }
+};
@@ -0,0 +1,34 @@
+import { ProviderRegistry } from './registry.js';
+import { anthropicProvider } from './anthropic.js';
+import { openaiProvider } from './openai.js';
+import { geminiProvider } from './gemini.js';
+import { openrouterProvider } from './openrouter.js';
+import { localProvider } from './local.js';
+import { samplingProvider } from './sampling.js';
+
+export type {
+  ChatMessage,
+  GenerateOptions,
+  GenerateResult,
+  GenerationParams,
+  LLMProvider,
+  ProviderCapabilities,
+  ProviderEnvKey,
+  ProviderHealth,
+  ReasoningEffort,
+  TokenUsage
+} from './types.js';
+export { ProviderRegistry, checkEnvKeys, readChatUsage, splitSystemPrompt } from './registry.js';
+
+/**
+ * Built-in providers. Order is the order the CLI offers their API keys in.
+ * Adding a provider means writing its module and listing it here.
+ */
+export const providerRegistry = new ProviderRegistry([
+  anthropicProvider,
+  openaiProvider,
+  geminiProvider,
+  openrouterProvider,
+  localProvider,
+  samplingProvider
+]);
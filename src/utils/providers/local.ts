@@ -0,0 +1,125 @@
+import { ProviderError, parseRetryAfter } from '../retry.js';
+import { readChatUsage } from './registry.js';
+import { readSseJson } from './sse.js';
+import type { LLMProvider, TokenUsage } from './types.js';
+
+/**
+ * Any server that speaks the OpenAI `/chat/completions` API: Ollama, LM Studio,
+ * vLLM, llama.cpp server. Prompts go only to LOCAL_LLM_BASE_URL, and the
+ * dispatcher never falls back from it to a hosted provider unless the project
+ * sets `allowHostedFallback`.
+ */
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+export function getLocalConfig() {
+  const baseUrl = process.env.LOCAL_LLM_BASE_URL?.trim().replace(/\/+$/, '');
+  const timeout = Number.parseInt(process.env.LOCAL_LLM_TIMEOUT_MS ?? '', 10);
+  return {
+    baseUrl,
+    apiKey: process.env.LOCAL_LLM_API_KEY?.trim() || undefined,
+    model: process.env.LOCAL_LLM_MODEL?.trim() || undefined,
+    timeoutMs: Number.isNaN(timeout) || timeout <= 0 ? DEFAULT_TIMEOUT_MS : timeout
+  };
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export const localProvider: LLMProvider = {
+  id: 'local',
+  label: 'OpenAI-compatible local server',
+  capabilities: { jsonMode: false, systemPrompt: true, clientSampling: false, streaming: true },
+  get defaultModel() {
+    return getLocalConfig().model;
+  },
+  // The base URL isn't an API key, so the CLI doesn't prompt for it
+  envKeys: [],
+  isConfigured: () => Boolean(getLocalConfig().baseUrl),
+  async generate(messages, { model, signal, maxTokens, temperature, reasoningEffort, timeoutMs: profileTimeoutMs, onText }) {
+    const { baseUrl, apiKey, timeoutMs: configuredTimeoutMs } = getLocalConfig();
+    const timeoutMs = profileTimeoutMs ?? configuredTimeoutMs;
+    if (!baseUrl) throw new Error('Local provider requires LOCAL_LLM_BASE_URL.');
+    if (!model) throw new Error('Local provider requires LOCAL_LLM_MODEL or a model in the tool call.');
+    console.log(`Using local model: ${model}`, { baseUrl });
+
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: Boolean(onText),
+          ...(onText ? { stream_options: { include_usage: true } } : {}),
+          ...(maxTokens ? { max_tokens: maxTokens } : {}),
+          ...(temperature !== undefined ? { temperature } : {}),
+          ...(reasoningEffort ? { reasoning_effort: reasoningEffort } : {})
+        }),
+        signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
+      });
+    } catch (error) {
+      if (timeoutSignal.aborted && !signal?.aborted) {
+        throw new ProviderError(`Local model request timed out after ${timeoutMs}ms (${baseUrl}).`, { retryable: true });
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(`Local model request failed with status ${response.status}. ${errorText.trim()}`.trim(), {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+      });
+    }
+
+    // Some servers ignore `stream` and answer in one JSON body
+    if (onText && response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+      let text = '';
+      let answeredBy = model;
+      let usage: TokenUsage | undefined;
+      for await (const chunk of readSseJson(response.body)) {
+        answeredBy = chunk?.model ?? answeredBy;
+        usage = readChatUsage(chunk?.usage) ?? usage;
+        const delta = chunk?.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+      return { text, model: answeredBy, usage };
+    }
+
+    const rawText = await response.text();
+    let parsed: any;
+    try {
+      parsed = JSON.parse(rawText);
+    } catch {
+      throw new Error(`Local model returned a non-JSON response from ${baseUrl}/chat/completions.`);
+    }
+    return { text: parsed?.choices?.[0]?.message?.content || '', model: parsed?.model ?? model, usage: readChatUsage(parsed?.usage) };
+  },
+  async healthCheck() {
+    const { baseUrl, model } = getLocalConfig();
+    if (!baseUrl) {
+      return { ok: false, detail: 'LOCAL_LLM_BASE_URL not set' };
+    }
+    if (!isHttpUrl(baseUrl)) {
+      return { ok: false, detail: 'Invalid LOCAL_LLM_BASE_URL: must be an http(s) URL.' };
+    }
+    return model
+      ? { ok: true, detail: `${baseUrl} (${model})` }
+      : { ok: false, detail: 'LOCAL_LLM_MODEL not set' };
+  }
+};
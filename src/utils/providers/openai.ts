@@ -0,0 +1,81 @@
+import { checkEnvKeys, readChatUsage } from './registry.js';
+import type { GenerationParams, LLMProvider, TokenUsage } from './types.js';
+
+// Use 'any' to support dynamic import
+let openaiClient: any = null;
+
+async function ensureClient() {
+  if (!openaiClient && process.env.OPENAI_API_KEY) {
+    const { OpenAI } = await import('openai');
+    // Retries go through the shared policy in retry.ts, not the SDK's own
+    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY, maxRetries: 0 });
+    console.log('OpenAI API client initialized dynamically');
+  }
+}
+
+const envKeys = [{ name: 'OPENAI_API_KEY', pattern: /^sk-/, message: 'must start with "sk-".' }];
+
+// Only what the profile sets; o-series models reject temperature, so it is never defaulted
+function generationSettings({ temperature, maxTokens, reasoningEffort }: GenerationParams) {
+  return {
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(maxTokens ? { max_completion_tokens: maxTokens } : {}),
+    ...(reasoningEffort ? { reasoning_effort: reasoningEffort } : {}),
+  };
+}
+
+export const openaiProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  capabilities: { jsonMode: true, systemPrompt: true, clientSampling: false, streaming: true },
+  defaultModel: 'o4-mini',
+  envKeys,
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+  initialize: ensureClient,
+  async generate(messages, { model, signal, onText, ...params }) {
+    await ensureClient();
+    if (!openaiClient) throw new Error('OpenAI API key missing.');
+    console.log(`Using OpenAI model: ${model}`);
+    if (onText) {
+      const stream = await openaiClient.chat.completions.create({
+        model,
+        messages,
+        response_format: { type: 'json_object' },
+        ...generationSettings(params),
+        stream: true,
+        // Usage arrives in a final chunk with no choices
+        stream_options: { include_usage: true },
+      }, { signal });
+      let text = '';
+      let answeredBy = model;
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        answeredBy = chunk.model ?? answeredBy;
+        usage = readChatUsage(chunk.usage) ?? usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+      return { text, model: answeredBy, usage };
+    }
+    const response = await openaiClient.chat.completions.create({
+      model,
+      messages,
+      response_format: { type: 'json_object' },
+      ...generationSettings(params),
+    }, { signal });
+    return {
+      text: response.choices[0].message.content || '',
+      model: response.model ?? model,
+      usage: readChatUsage(response.usage)
+    };
+  },
+  healthCheck: async () => checkEnvKeys(envKeys)
+};
+
+export const __testing = {
+  setClient(client: any) { openaiClient = client; },
+  getClient() { return openaiClient; }
+};
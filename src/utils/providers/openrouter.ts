@@ -0,0 +1,67 @@
+import { checkEnvKeys, readChatUsage } from './registry.js';
+import { readSseJson } from './sse.js';
+import type { GenerationParams, LLMProvider, TokenUsage } from './types.js';
+
+const openrouterBaseUrl = 'https://openrouter.ai/api/v1';
+
+const envKeys = [{ name: 'OPENROUTER_API_KEY', pattern: /^sk-or-/, message: 'must start with "sk-or-".' }];
+
+// OpenRouter maps `reasoning.effort` onto each upstream model's own setting
+function generationSettings({ temperature, maxTokens, reasoningEffort }: GenerationParams) {
+  return {
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(maxTokens ? { max_tokens: maxTokens } : {}),
+    ...(reasoningEffort ? { reasoning: { effort: reasoningEffort } } : {}),
+  };
+}
+
+export const openrouterProvider: LLMProvider = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+  capabilities: { jsonMode: false, systemPrompt: true, clientSampling: false, streaming: true },
+  // No default: OpenRouter fronts hundreds of models, so the caller has to pick one
+  envKeys,
+  isConfigured: () => Boolean(process.env.OPENROUTER_API_KEY),
+  async generate(messages, { model, signal, onText, ...params }) {
+    if (!process.env.OPENROUTER_API_KEY) throw new Error('OpenRouter API key missing.');
+    if (!model) throw new Error('OpenRouter provider requires a model to be specified in the tool call.');
+    console.log(`Using OpenRouter model: ${model}`);
+    const { default: axios } = await import('axios');
+    const headers = { Authorization: `Bearer ${process.env.OPENROUTER_API_KEY}`, 'HTTP-Referer': 'http://localhost', 'X-Title': 'Vibe Check MCP Server' };
+    if (onText) {
+      const response = await axios.post(`${openrouterBaseUrl}/chat/completions`, {
+        model,
+        messages,
+        ...generationSettings(params),
+        stream: true,
+      }, { headers, signal, responseType: 'stream' });
+      let text = '';
+      let answeredBy = model;
+      let usage: TokenUsage | undefined;
+      for await (const event of readSseJson(response.data)) {
+        if (event?.error) {
+          throw new Error(`OpenRouter stream failed: ${event.error.message ?? 'unknown error'}`);
+        }
+        answeredBy = event?.model ?? answeredBy;
+        usage = readChatUsage(event?.usage) ?? usage;
+        const delta = event?.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+      return { text, model: answeredBy, usage };
+    }
+    const response = await axios.post(`${openrouterBaseUrl}/chat/completions`, {
+      model,
+      messages,
+      ...generationSettings(params),
+    }, { headers, signal });
+    return {
+      text: response.data.choices[0].message.content || '',
+      model: response.data.model ?? model,
+      usage: readChatUsage(response.data.usage)
+    };
+  },
+  healthCheck: async () => checkEnvKeys(envKeys)
+};
@@ -0,0 +1,92 @@
+import type { ChatMessage, LLMProvider, ProviderEnvKey, ProviderHealth, TokenUsage } from './types.js';
+
+const PROVIDER_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+export class ProviderRegistry {
+  private providers = new Map<string, LLMProvider>();
+
+  constructor(providers: LLMProvider[] = []) {
+    for (const provider of providers) {
+      this.register(provider);
+    }
+  }
+
+  register(provider: LLMProvider): void {
+    if (!PROVIDER_ID_PATTERN.test(provider?.id ?? '')) {
+      throw new Error(`Invalid provider id: ${provider?.id}`);
+    }
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Provider already registered: ${provider.id}`);
+    }
+    if (typeof provider.generate !== 'function' || typeof provider.healthCheck !== 'function') {
+      throw new Error(`Provider ${provider.id} must implement generate and healthCheck`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): LLMProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Like get, but throws the error generateResponse has always reported for unknown providers
+   */
+  require(id: string): LLMProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Invalid provider specified: ${id}`);
+    }
+    return provider;
+  }
+
+  ids(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  list(): LLMProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  envKeys(): ProviderEnvKey[] {
+    return this.list().flatMap((provider) => provider.envKeys);
+  }
+}
+
+/**
+ * Health of a key-based provider: ok when one of its keys is set and well-formed
+ */
+export function checkEnvKeys(envKeys: ProviderEnvKey[]): ProviderHealth {
+  const names = envKeys.map((key) => key.name).join(' or ');
+  for (const key of envKeys) {
+    const value = process.env[key.name]?.trim();
+    if (!value) {
+      continue;
+    }
+    if (key.pattern && !key.pattern.test(value)) {
+      return { ok: false, detail: `Invalid ${key.name}: ${key.message ?? 'unexpected format.'}` };
+    }
+    return { ok: true, detail: `${key.name} set` };
+  }
+  return { ok: false, detail: `${names} not set` };
+}
+
+/**
+ * Split messages into the system prompt and the rest, for APIs that take the system prompt separately
+ */
+export function splitSystemPrompt(messages: ChatMessage[]): { system: string; conversation: ChatMessage[] } {
+  const system = messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+  return { system, conversation: messages.filter((message) => message.role !== 'system') };
+}
+
+/**
+ * Token usage from an OpenAI-style `usage` object (OpenAI, OpenRouter, local servers)
+ */
+export function readChatUsage(usage: any): TokenUsage | undefined {
+  if (typeof usage?.prompt_tokens !== 'number' && typeof usage?.completion_tokens !== 'number') {
+    return undefined;
+  }
+  return { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+}
@@ -0,0 +1,39 @@
+import { requestSampling } from '../sampling.js';
+import { splitSystemPrompt } from './registry.js';
+import type { LLMProvider } from './types.js';
+
+// Provider used when `sampling` is selected but the client can't sample
+function resolveSamplingFallback(): { provider: string; model?: string } {
+  const configured = process.env.DEFAULT_LLM_PROVIDER;
+  const provider = process.env.SAMPLING_FALLBACK_PROVIDER
+    || (configured && configured !== 'sampling' ? configured : 'gemini');
+  // DEFAULT_MODEL names a model for DEFAULT_LLM_PROVIDER, so only reuse it for that provider
+  return { provider, model: provider === configured ? process.env.DEFAULT_MODEL : undefined };
+}
+
+export const samplingProvider: LLMProvider = {
+  id: 'sampling',
+  label: 'MCP client sampling',
+  capabilities: { jsonMode: false, systemPrompt: true, clientSampling: true, streaming: false },
+  fallbackProvider: resolveSamplingFallback,
+  envKeys: [],
+  // Needs no key; whether the client can sample is only known per request
+  isConfigured: () => true,
+  async generate(messages, { model, signal, sampling }) {
+    if (!sampling) {
+      throw new Error('Connected client does not support sampling.');
+    }
+    const { system, conversation } = splitSystemPrompt(messages);
+    const { text, model: answeredBy } = await requestSampling(
+      sampling,
+      { systemPrompt: system, compiledPrompt: conversation.map((message) => message.content).join('\n\n'), model },
+      signal
+    );
+    console.log('[LLM:sampling] client responded', { model: answeredBy });
+    return { text, model: answeredBy };
+  },
+  healthCheck: async () => ({
+    ok: true,
+    detail: `Uses the connected client's model; falls back to ${resolveSamplingFallback().provider}`
+  })
+};
@@ -0,0 +1,57 @@
+/**
+ * Minimal server-sent events reader for streaming chat APIs.
+ *
+ * Yields the `data:` payload of each event, joining multi-line data. Comments
+ * (OpenRouter's `: OPENROUTER PROCESSING` keep-alives) and the OpenAI-style
+ * `[DONE]` sentinel are skipped.
+ */
+export async function* readSseData(body: AsyncIterable<Uint8Array | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  function* flushLines(final: boolean): Generator<string> {
+    let newline: number;
+    while ((newline = buffer.search(/\r?\n/)) !== -1 || (final && buffer)) {
+      const end = newline === -1 ? buffer.length : newline;
+      const line = buffer.slice(0, end);
+      buffer = newline === -1 ? '' : buffer.slice(end + (buffer[end] === '\r' ? 2 : 1));
+
+      if (!line) {
+        if (data.length) {
+          const payload = data.join('\n');
+          data = [];
+          if (payload !== '[DONE]') {
+            yield payload;
+          }
+        }
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+  }
+
+  for await (const chunk of body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    yield* flushLines(false);
+  }
+  buffer += decoder.decode();
+  yield* flushLines(true);
+  // A stream that ends without a blank line still delivers its last event
+  if (data.length && data.join('\n') !== '[DONE]') {
+    yield data.join('\n');
+  }
+}
+
+/**
+ * Parse each SSE payload as JSON, skipping anything that isn't
+ */
+export async function* readSseJson(body: AsyncIterable<Uint8Array | string>): AsyncGenerator<any> {
+  for await (const payload of readSseData(body)) {
+    try {
+      yield JSON.parse(payload);
+    } catch {
+      console.error('[LLM:stream] ignoring malformed event', { payload: payload.slice(0, 200) });
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import type { SamplingClient } from '../sampling.js';
+
+/**
+ * The contract every LLM provider module implements.
+ *
+ * The dispatcher in llm.ts builds the system messages (the mentor prompt, then
+ * the session constitution) and one user message, and hands them to whichever
+ * provider is selected; each provider maps the messages onto its own API shape.
+ * The system messages stay the same across a session's calls, so providers
+ * with prompt caching can cache them.
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderCapabilities {
+  /** Can be asked for a bare JSON object */
+  jsonMode: boolean;
+  /** Takes the system prompt separately from the conversation */
+  systemPrompt: boolean;
+  /** Answers through the connected MCP client instead of an API key */
+  clientSampling: boolean;
+  /** Honours GenerateOptions.onText by streaming the reply */
+  streaming: boolean;
+}
+
+/** Credential read from the environment, validated by the CLI before it is saved */
+export interface ProviderEnvKey {
+  name: string;
+  pattern?: RegExp;
+  /** Shown after `Invalid <name>: ` when the value doesn't match */
+  message?: string;
+}
+
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/** Sampling settings from a model profile or the project's per-provider defaults */
+export interface GenerationParams {
+  temperature?: number;
+  /** Cap on output tokens, not counting reasoning */
+  maxTokens?: number;
+  /** Mapped to reasoning_effort, Anthropic extended thinking or a Gemini thinking budget */
+  reasoningEffort?: ReasoningEffort;
+  /** Per-attempt time limit; the dispatcher aborts the request after it */
+  timeoutMs?: number;
+}
+
+export interface GenerateOptions extends GenerationParams {
+  /** Already resolved against the provider's default model */
+  model?: string;
+  signal?: AbortSignal;
+  /** Set for providers with the clientSampling capability */
+  sampling?: SamplingClient;
+  /** Streaming providers call this with each text delta; the full text is still returned */
+  onText?: (delta: string) => void;
+}
+
+/** Token counts as reported by the provider API */
+export interface TokenUsage {
+  /** Input tokens billed at the full rate, not counting cache reads and writes */
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the provider's prompt cache */
+  cacheReadTokens?: number;
+  /** Input tokens written to the provider's prompt cache */
+  cacheWriteTokens?: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  /** Model that actually answered, when the API reports it */
+  model?: string;
+  /** Absent when the API doesn't report usage (client sampling, some local servers) */
+  usage?: TokenUsage;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  detail: string;
+}
+
+export interface LLMProvider {
+  id: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  /** Used when neither the tool call, a profile, the project config nor DEFAULT_MODEL names a model */
+  defaultModel?: string;
+  /** Retried once, on the same provider, when the requested model fails */
+  fallbackModel?: string;
+  /** Provider to hand the call to when this one can't serve it */
+  fallbackProvider?: () => { provider: string; model?: string };
+  envKeys: ProviderEnvKey[];
+  isConfigured(): boolean;
+  generate(messages: ChatMessage[], options: GenerateOptions): Promise<GenerateResult>;
+  /** Local configuration check; never spends tokens */
+  healthCheck(): Promise<ProviderHealth>;
+  /** Create API clients ahead of the first call */
+  initialize?(): Promise<void>;
+}
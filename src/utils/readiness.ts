@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import { getConstitutionalRulesPath } from './constitutionalRules.js';
+import { validateRules } from './constitutional/rule-resolver.js';
+import { getWatcher, WatcherStatus } from './fileWatcher.js';
+import { getHistoryFile } from './state.js';
+import { getLogFile, getStorageDir } from './storage.js';
+import { providerRegistry } from './providers/index.js';
+
+/**
+ * Readiness checks for /readyz.
+ *
+ * /healthz only says the process is up; these checks catch the setups where
+ * every vibe_check would quietly fall back to the offline reviewer.
+ */
+
+export interface ReadinessCheck {
+  ok: boolean;
+  error?: string;
+}
+
+export interface ProviderReadiness extends ReadinessCheck {
+  defaultProvider: string;
+  configured: Record<string, boolean>;
+}
+
+export interface RulesReadiness extends ReadinessCheck {
+  path: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface FileReadiness {
+  path: string;
+  exists: boolean;
+  readable: boolean;
+  writable: boolean;
+  error?: string;
+}
+
+export interface StorageReadiness extends ReadinessCheck {
+  dir: string;
+  history: FileReadiness;
+  learning: FileReadiness;
+}
+
+export interface HotReloadReadiness extends ReadinessCheck, Partial<WatcherStatus> {
+  enabled: boolean;
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready';
+  checks: {
+    providers: ProviderReadiness;
+    rules: RulesReadiness;
+    storage: StorageReadiness;
+    hotReload: HotReloadReadiness;
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function checkProviders(): ProviderReadiness {
+  const configured = Object.fromEntries(
+    providerRegistry.list().map((provider) => [provider.id, provider.isConfigured()])
+  );
+  const defaultProvider = process.env.DEFAULT_LLM_PROVIDER || 'gemini';
+  const error = !providerRegistry.get(defaultProvider)
+    ? `Default provider ${defaultProvider} is not a known provider`
+    : !configured[defaultProvider]
+      ? `Default provider ${defaultProvider} is not configured`
+      : undefined;
+  return { ok: !error, defaultProvider, configured, ...(error ? { error } : {}) };
+}
+
+export function checkRules(): RulesReadiness {
+  const rulesPath = getConstitutionalRulesPath();
+  if (!rulesPath) {
+    // No rules file is a supported setup: the built-in defaults apply
+    return { ok: true, path: null, errors: [], warnings: [] };
+  }
+  try {
+    const { valid, errors, warnings } = validateRules(rulesPath);
+    return {
+      ok: valid,
+      path: rulesPath,
+      errors,
+      warnings,
+      ...(valid ? {} : { error: errors.join('; ') })
+    };
+  } catch (error) {
+    return { ok: false, path: rulesPath, errors: [errorMessage(error)], warnings: [], error: errorMessage(error) };
+  }
+}
+
+// A missing file is fine as long as the directory lets us create it
+function checkFile(filePath: string, dirWritable: boolean): FileReadiness {
+  if (!fs.existsSync(filePath)) {
+    return { path: filePath, exists: false, readable: true, writable: dirWritable };
+  }
+  const result: FileReadiness = { path: filePath, exists: true, readable: false, writable: false };
+  try {
+    JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    result.readable = true;
+  } catch (error) {
+    result.error = errorMessage(error);
+  }
+  try {
+    fs.accessSync(filePath, fs.constants.W_OK);
+    result.writable = true;
+  } catch (error) {
+    result.error ??= errorMessage(error);
+  }
+  return result;
+}
+
+export function checkStorage(): StorageReadiness {
+  const dir = getStorageDir();
+  let dirError: string | undefined;
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    const probe = path.join(dir, `.readyz-${process.pid}`);
+    fs.writeFileSync(probe, '');
+    fs.unlinkSync(probe);
+  } catch (error) {
+    dirError = errorMessage(error);
+  }
+
+  const history = checkFile(getHistoryFile(), !dirError);
+  const learning = checkFile(getLogFile(), !dirError);
+  const ok = !dirError && [history, learning].every((file) => file.readable && file.writable);
+  const error = dirError ?? history.error ?? learning.error ?? (ok ? undefined : 'Storage files are not readable and writable');
+  return { ok, dir, history, learning, ...(error ? { error } : {}) };
+}
+
+export function checkHotReload(): HotReloadReadiness {
+  const enabled = process.env.VIBE_CHECK_HOT_RELOAD === 'true';
+  if (!enabled) {
+    return { ok: true, enabled };
+  }
+  const watcher = getWatcher();
+  if (!watcher) {
+    return { ok: false, enabled, error: 'Hot reload is enabled but the watcher is not initialized' };
+  }
+  const status = watcher.getStatus();
+  // Without a rules file there is nothing to watch
+  const ok = status.watching || getConstitutionalRulesPath() === null;
+  return {
+    ok,
+    enabled,
+    ...status,
+    ...(ok ? {} : { error: status.lastError ?? 'Hot reload watcher is not running' })
+  };
+}
+
+export function checkReadiness(): ReadinessReport {
+  const checks = {
+    providers: checkProviders(),
+    rules: checkRules(),
+    storage: checkStorage(),
+    hotReload: checkHotReload()
+  };
+  const ready = Object.values(checks).every((check) => check.ok);
+  return { status: ready ? 'ready' : 'not_ready', checks };
+}
@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getStorageDir } from './storage.js';
+import type { GenerationParams } from './providers/index.js';
+
+/**
+ * Content-addressed cache of provider answers in `<storage dir>/cache/responses`.
+ *
+ * One JSON file per key. A hit bumps the file's mtime, and writes evict the
+ * least recently used files beyond VIBE_CHECK_CACHE_MAX_ENTRIES. Entries older
+ * than VIBE_CHECK_CACHE_TTL_MS are ignored and deleted; a TTL of 0 disables
+ * the cache.
+ */
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 200;
+
+export interface CacheKeyParts {
+  provider: string;
+  model?: string;
+  systemPrompt: string;
+  /** Compiled context section sent as the user message */
+  context: string;
+  constitution: string[];
+  /** Temperature, token cap and reasoning effort change the answer; the timeout doesn't */
+  params?: GenerationParams;
+}
+
+export interface CachedResponse {
+  text: string;
+  provider: string;
+  model?: string;
+  createdAt: number;
+}
+
+function nonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+export function getCacheConfig() {
+  return {
+    ttlMs: nonNegativeInt(process.env.VIBE_CHECK_CACHE_TTL_MS, DEFAULT_TTL_MS),
+    maxEntries: nonNegativeInt(process.env.VIBE_CHECK_CACHE_MAX_ENTRIES, DEFAULT_MAX_ENTRIES)
+  };
+}
+
+export function isCacheEnabled(): boolean {
+  const { ttlMs, maxEntries } = getCacheConfig();
+  return ttlMs > 0 && maxEntries > 0;
+}
+
+export function getCacheDir(): string {
+  return path.join(getStorageDir(), 'cache', 'responses');
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Version of a rule set: rules are compiled into the prompt, so any edit changes it
+ */
+export function constitutionVersion(rules: string[]): string {
+  return sha256(JSON.stringify(rules)).slice(0, 16);
+}
+
+export function buildCacheKey({ provider, model, systemPrompt, context, constitution, params = {} }: CacheKeyParts): string {
+  const { timeoutMs: _timeout, ...settings } = params;
+  return sha256(
+    JSON.stringify({
+      provider,
+      model: model ?? null,
+      systemPrompt: sha256(systemPrompt),
+      context: sha256(context),
+      constitution: constitutionVersion(constitution),
+      // Left out when empty so keys from before profiles still match
+      ...(Object.keys(settings).length ? { settings } : {})
+    })
+  );
+}
+
+// The mtime records the last use for LRU eviction
+function touch(file: string, now: number): void {
+  const seconds = now / 1000;
+  fs.utimesSync(file, seconds, seconds);
+}
+
+function entryPath(key: string): string {
+  return path.join(getCacheDir(), `${key}.json`);
+}
+
+export function getCachedResponse(key: string, now = Date.now()): CachedResponse | undefined {
+  if (!isCacheEnabled()) {
+    return undefined;
+  }
+  const file = entryPath(key);
+  let entry: CachedResponse;
+  try {
+    entry = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+  if (typeof entry?.text !== 'string' || typeof entry.createdAt !== 'number' || now - entry.createdAt > getCacheConfig().ttlMs) {
+    fs.rmSync(file, { force: true });
+    return undefined;
+  }
+  try {
+    touch(file, now);
+  } catch {
+    // Another process evicted it after the read; the answer is still good
+  }
+  return entry;
+}
+
+export function setCachedResponse(key: string, response: Omit<CachedResponse, 'createdAt'>, now = Date.now()): void {
+  if (!isCacheEnabled()) {
+    return;
+  }
+  const dir = getCacheDir();
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    const file = entryPath(key);
+    const tempFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify({ ...response, createdAt: now }));
+    fs.renameSync(tempFile, file);
+    touch(file, now);
+    evictLeastRecentlyUsed(dir, getCacheConfig().maxEntries);
+  } catch (error) {
+    console.error('[Cache] failed to write response', { dir, err: (error as Error)?.message });
+  }
+}
+
+function evictLeastRecentlyUsed(dir: string, maxEntries: number): void {
+  const entries = fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => {
+      const file = path.join(dir, name);
+      try {
+        return { file, mtimeMs: fs.statSync(file).mtimeMs };
+      } catch {
+        return undefined;
+      }
+    })
+    .filter((entry): entry is { file: string; mtimeMs: number } => entry !== undefined);
+  if (entries.length <= maxEntries) {
+    return;
+  }
+  entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const { file } of entries.slice(0, entries.length - maxEntries)) {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+export function clearResponseCache(): void {
+  fs.rmSync(getCacheDir(), { recursive: true, force: true });
+}
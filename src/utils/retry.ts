@@ -0,0 +1,198 @@
+/**
+ * Shared retry policy for provider calls.
+ *
+ * Rate limits (429), server errors (5xx), dropped connections and timeouts are
+ * retried with jittered exponential backoff. A Retry-After from the provider
+ * replaces the computed delay. No retry starts if its wait would end past the
+ * call's deadline. Bounding each attempt by the time left is up to the caller:
+ * generateResponse cuts every provider attempt off at the deadline, so one
+ * vibe_check takes at most LLM_RETRY_DEADLINE_MS across attempts, retries and
+ * fallbacks.
+ */
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+const DEFAULT_DEADLINE_MS = 30_000;
+
+const RETRYABLE_CODES = new Set([
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+]);
+
+// Thrown by the openai SDK for dropped connections and its own timeouts
+const RETRYABLE_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError', 'TimeoutError']);
+
+/**
+ * Error from a provider call, carrying what the retry policy needs
+ */
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ProviderError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? isRetryableStatus(options.status);
+  }
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  deadlineMs: number;
+}
+
+export function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: positiveInt(process.env.LLM_RETRY_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS),
+    baseDelayMs: positiveInt(process.env.LLM_RETRY_BASE_DELAY_MS, DEFAULT_BASE_DELAY_MS),
+    maxDelayMs: positiveInt(process.env.LLM_RETRY_MAX_DELAY_MS, DEFAULT_MAX_DELAY_MS),
+    deadlineMs: positiveInt(process.env.LLM_RETRY_DEADLINE_MS, DEFAULT_DEADLINE_MS)
+  };
+}
+
+function isRetryableStatus(status: number | undefined): boolean {
+  return status === 408 || status === 429 || (status !== undefined && status >= 500);
+}
+
+// openai and axios errors expose the status differently; Gemini only has `status`
+function statusOf(error: any): number | undefined {
+  const status = error?.status ?? error?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function headerOf(error: any, name: string): string | undefined {
+  for (const headers of [error?.headers, error?.response?.headers]) {
+    const value = typeof headers?.get === 'function' ? headers.get(name) : headers?.[name];
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// Node sets the code on socket errors; fetch wraps them and keeps it on the cause
+function codeOf(error: any): string {
+  const code = error?.code ?? error?.cause?.code;
+  return typeof code === 'string' ? code : '';
+}
+
+function nameOf(error: any): string {
+  return typeof error?.name === 'string' ? error.name : '';
+}
+
+/**
+ * Parse a Retry-After header: delay in seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value.trim());
+  if (!Number.isNaN(seconds)) {
+    return seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.retryable;
+  }
+  if (isRetryableStatus(statusOf(error))) {
+    return true;
+  }
+  return RETRYABLE_CODES.has(codeOf(error)) || RETRYABLE_NAMES.has(nameOf(error));
+}
+
+export function getRetryAfterMs(error: unknown): number | undefined {
+  if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs;
+  }
+  return parseRetryAfter(headerOf(error, 'retry-after'));
+}
+
+/**
+ * Delay before the given retry (1-based): full jitter over an exponential window
+ */
+export function computeBackoff(retry: number, policy: RetryPolicy, random = Math.random): number {
+  const window = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(random() * window);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface RetryOptions {
+  /** Absolute time (ms since epoch) after which no retry may finish waiting; `call` must respect it too */
+  deadline: number;
+  signal?: AbortSignal;
+  /** Used in log lines, e.g. `openai:o4-mini` */
+  label: string;
+  onRetry?: (info: { attempt: number; delayMs: number; error: unknown }) => void;
+  policy?: RetryPolicy;
+}
+
+export async function withRetry<T>(call: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { deadline, signal, label, onRetry } = options;
+  const policy = options.policy ?? getRetryPolicy();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      const retryAfterMs = getRetryAfterMs(error);
+      const delayMs = retryAfterMs ?? computeBackoff(attempt, policy);
+      if (Date.now() + delayMs > deadline) {
+        console.error('[LLM:retry] giving up, retry would pass the deadline', { target: label, attempt, delayMs });
+        throw error;
+      }
+      console.error('[LLM:retry] retrying', {
+        target: label,
+        attempt,
+        delayMs,
+        retryAfterMs,
+        status: statusOf(error),
+        err: (error as Error)?.message
+      });
+      onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
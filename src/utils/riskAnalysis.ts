@@ -0,0 +1,211 @@
+/**
+ * Structured risk analysis returned alongside vibe_check prose.
+ *
+ * Providers with a JSON mode are asked for a JSON object directly; for the
+ * rest the same shape is requested in the prompt and recovered with a
+ * tolerant parser that falls back to treating the whole reply as prose.
+ */
+
+export const RISK_TRAITS = [
+  'tunnel-vision',
+  'feature-creep',
+  'looping',
+  'complex-solution-bias',
+  'premature-implementation',
+  'misalignment',
+  'overtooling',
+  'unverified-assumptions',
+  'missing-tests',
+  'missing-rollback'
+] as const;
+
+export type RiskTrait = (typeof RISK_TRAITS)[number] | string;
+
+export interface VibeCheckAnalysis {
+  riskScore: number;
+  traits: RiskTrait[];
+  ruleViolations: string[];
+  recommendedActions: string[];
+}
+
+export interface ParsedMentorResponse {
+  questions: string;
+  analysis?: VibeCheckAnalysis;
+}
+
+export const ANALYSIS_INSTRUCTIONS = `Respond with a single JSON object and nothing else, using exactly these keys:
+{
+  "questions": "<your feedback to the agent as markdown prose: observations, questions and advice>",
+  "riskScore": <number from 0 (on track) to 1 (about to derail)>,
+  "traits": [<zero or more of: ${RISK_TRAITS.map((trait) => `"${trait}"`).join(', ')}>],
+  "ruleViolations": [<IDs of constitution rules the plan may violate, e.g. "SEC-001">],
+  "recommendedActions": [<short imperative next steps for the agent>]
+}`;
+
+export const ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    riskScore: { type: 'number', minimum: 0, maximum: 1 },
+    traits: { type: 'array', items: { type: 'string' } },
+    ruleViolations: { type: 'array', items: { type: 'string' } },
+    recommendedActions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['riskScore', 'traits', 'ruleViolations', 'recommendedActions']
+} as const;
+
+function stripCodeFence(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  return fenced ? fenced[1].trim() : text;
+}
+
+function tryParseObject(text: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return typeof value === 'string' && value.trim() ? [value.trim()] : [];
+  }
+  return value
+    .filter((item): item is string | number => typeof item === 'string' || typeof item === 'number')
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+}
+
+function normalizeTrait(trait: string): string {
+  return trait
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-');
+}
+
+function normalizeRiskScore(value: unknown): number | null {
+  const numeric = typeof value === 'string' ? Number.parseFloat(value) : value;
+  if (typeof numeric !== 'number' || Number.isNaN(numeric)) {
+    return null;
+  }
+  // Some models answer with a whole number on a 0-10 or 0-100 scale despite the
+  // instructions; anything else outside 0-1 is clamped rather than guessed at
+  const wholeNumber = Number.isInteger(numeric);
+  const scaled = wholeNumber && numeric > 10 && numeric <= 100 ? numeric / 100
+    : wholeNumber && numeric > 1 && numeric <= 10 ? numeric / 10
+      : numeric;
+  return Math.min(1, Math.max(0, Math.round(scaled * 100) / 100));
+}
+
+/**
+ * Coerce a parsed object into a VibeCheckAnalysis, or null when it carries no risk data
+ */
+export function normalizeAnalysis(raw: Record<string, unknown>): VibeCheckAnalysis | null {
+  const source = raw.analysis && typeof raw.analysis === 'object' ? (raw.analysis as Record<string, unknown>) : raw;
+  const riskScore = normalizeRiskScore(source.riskScore ?? source.risk_score);
+  if (riskScore === null) {
+    return null;
+  }
+
+  return {
+    riskScore,
+    traits: Array.from(new Set(toStringList(source.traits).map(normalizeTrait))),
+    ruleViolations: Array.from(new Set(toStringList(source.ruleViolations ?? source.rule_violations))),
+    recommendedActions: toStringList(source.recommendedActions ?? source.recommended_actions)
+  };
+}
+
+/**
+ * The JSON object in a reply: bare, fenced, or embedded in prose
+ */
+export function extractJsonObject(rawText: string): Record<string, unknown> | null {
+  const text = (rawText ?? '').trim();
+  const parsed = tryParseObject(stripCodeFence(text));
+  if (parsed) {
+    return parsed;
+  }
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? tryParseObject(text.slice(start, end + 1)) : null;
+}
+
+/**
+ * Split a mentor reply into prose and structured analysis.
+ * Accepts raw JSON, fenced JSON, or prose with an embedded JSON object.
+ */
+export function parseMentorResponse(rawText: string): ParsedMentorResponse {
+  const text = (rawText ?? '').trim();
+  if (!text) {
+    return { questions: '' };
+  }
+
+  let parsed = tryParseObject(stripCodeFence(text));
+  let remainder = '';
+
+  if (!parsed) {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      parsed = tryParseObject(text.slice(start, end + 1));
+      remainder = `${text.slice(0, start)}${text.slice(end + 1)}`.replace(/```(?:json)?/gi, '').trim();
+    }
+  }
+
+  if (!parsed) {
+    return { questions: text };
+  }
+
+  const analysis = normalizeAnalysis(parsed) ?? undefined;
+  if (!analysis && typeof parsed.questions !== 'string') {
+    // An unrelated object (e.g. a code sample) inside prose
+    return { questions: text };
+  }
+
+  const questions = typeof parsed.questions === 'string' && parsed.questions.trim()
+    ? parsed.questions.trim()
+    : remainder || (analysis ? analysis.recommendedActions.map((action) => `- ${action}`).join('\n') : text);
+
+  return { questions, analysis };
+}
+
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+
+/**
+ * The `questions` prose decoded from a reply that is still streaming.
+ * Returns '' until the field starts; plain prose replies are returned as they are.
+ */
+export function extractPartialQuestions(partial: string): string {
+  const start = /"questions"\s*:\s*"/.exec(partial);
+  if (!start) {
+    return /^\s*(```|\{)/.test(partial) ? '' : partial.trim();
+  }
+
+  let text = '';
+  for (let i = start.index + start[0].length; i < partial.length; i++) {
+    const char = partial[i];
+    if (char === '"') {
+      break;
+    }
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+    const escape = partial[i + 1];
+    if (escape === undefined) {
+      break;
+    }
+    if (escape === 'u') {
+      const hex = partial.slice(i + 2, i + 6);
+      if (!/^[0-9a-f]{4}$/i.test(hex)) {
+        break;
+      }
+      text += String.fromCharCode(Number.parseInt(hex, 16));
+      i += 5;
+    } else {
+      text += JSON_ESCAPES[escape] ?? escape;
+      i += 1;
+    }
+  }
+  return text;
+}
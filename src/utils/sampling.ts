@@ -0,0 +1,69 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { CreateMessageRequest, CreateMessageResult, RequestId } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * MCP sampling as an LLM provider.
+ *
+ * The compiled vibe-check prompt is sent back to the connected client with
+ * `sampling/createMessage`, so the client's own model answers and the server
+ * needs no API key.
+ */
+
+export type SamplingRequestParams = CreateMessageRequest['params'];
+
+export interface SamplingClient {
+  createMessage(params: SamplingRequestParams, options?: RequestOptions): Promise<CreateMessageResult>;
+}
+
+const DEFAULT_SAMPLING_MAX_TOKENS = 1024;
+
+/**
+ * Sampling client bound to a connected server, or undefined when the client did not declare sampling support.
+ * Passing the triggering request's ID lets HTTP transports answer on that request's stream.
+ */
+export function createServerSamplingClient(server: Server, relatedRequestId?: RequestId): SamplingClient | undefined {
+  if (!server.getClientCapabilities()?.sampling) {
+    return undefined;
+  }
+  return {
+    createMessage: (params, options) => server.createMessage(params, { relatedRequestId, ...options })
+  };
+}
+
+export function getSamplingMaxTokens(): number {
+  const configured = Number.parseInt(process.env.SAMPLING_MAX_TOKENS ?? '', 10);
+  return Number.isNaN(configured) || configured <= 0 ? DEFAULT_SAMPLING_MAX_TOKENS : configured;
+}
+
+export function buildSamplingRequest(options: {
+  systemPrompt: string;
+  compiledPrompt: string;
+  model?: string;
+  maxTokens?: number;
+}): SamplingRequestParams {
+  return {
+    systemPrompt: options.systemPrompt,
+    messages: [{ role: 'user', content: { type: 'text', text: options.compiledPrompt } }],
+    maxTokens: options.maxTokens ?? getSamplingMaxTokens(),
+    temperature: 0.2,
+    includeContext: 'none',
+    modelPreferences: {
+      // A model name is only a hint; the client picks whatever it has that fits best
+      hints: options.model ? [{ name: options.model }] : undefined,
+      intelligencePriority: 0.8,
+      speedPriority: 0.4,
+      costPriority: 0.3
+    }
+  };
+}
+
+export async function requestSampling(
+  client: SamplingClient,
+  options: { systemPrompt: string; compiledPrompt: string; model?: string },
+  signal?: AbortSignal
+): Promise<{ text: string; model: string }> {
+  const result = await client.createMessage(buildSamplingRequest(options), { signal });
+  const text = result.content.type === 'text' ? result.content.text : '';
+  return { text, model: result.model };
+}
@@ -1,82 +1,108 @@
-
-
 import fs from 'fs/promises';
 import path from 'path';
-import os from 'os';
 import { VibeCheckInput } from '../tools/vibeCheck.js';
+import { getProjectName, getStorageDir } from './storage.js';
+import type { CallUsage } from './usage.js';
+import type { CouncilOutput } from './council.js';
 
-// Define data directory - configurable via VIBE_CHECK_STORAGE_DIR environment variable
-// Falls back to user's home directory if not set
-function getDataDir(): string {
-  if (process.env.VIBE_CHECK_STORAGE_DIR) {
-    return process.env.VIBE_CHECK_STORAGE_DIR;
-  }
-  return path.join(os.homedir(), '.vibe-check');
+// History lives next to the learning log: VIBE_CHECK_STORAGE_DIR, ~/.vibe-check,
+// or the storage directory of the project bound to the current request
+export function getHistoryFile(): string {
+  return path.join(getStorageDir(), `history-${getProjectName()}.json`);
 }
 
-// Get project name from storage directory path
-// E.g., /path/to/hivebrowser/.vibe-check → hivebrowser
-function getProjectName(): string {
-  const dataDir = getDataDir();
-  // Extract directory name before .vibe-check
-  const parts = dataDir.split(path.sep);
-  const vibeCheckIndex = parts.findIndex(p => p === '.vibe-check');
-  if (vibeCheckIndex > 0) {
-    return parts[vibeCheckIndex - 1];
-  }
-  return 'default';
+export interface Interaction {
+  input: VibeCheckInput;
+  output: string;
+  timestamp: number;
+  /** Tokens and cost of the provider call that produced the output */
+  usage?: CallUsage;
+  /** Each member's answer when a council produced the output */
+  council?: CouncilOutput;
 }
 
-const DATA_DIR = getDataDir();
-const PROJECT_NAME = getProjectName();
-const HISTORY_FILE = path.join(DATA_DIR, `history-${PROJECT_NAME}.json`);
+// One history map per history file, so project-scoped requests never share sessions
+const histories: Map<string, Map<string, Interaction[]>> = new Map();
 
-interface Interaction { 
-  input: VibeCheckInput; 
-  output: string; 
-  timestamp: number; 
+function currentHistory(): Map<string, Interaction[]> {
+  const historyFile = getHistoryFile();
+  let history = histories.get(historyFile);
+  if (!history) {
+    history = new Map();
+    histories.set(historyFile, history);
+  }
+  return history;
 }
 
-let history: Map<string, Interaction[]> = new Map();
-
-async function ensureDataDir() { 
-  try { 
-    await fs.mkdir(DATA_DIR, { recursive: true }); 
-  } catch {} 
+async function ensureDataDir() {
+  try {
+    await fs.mkdir(getStorageDir(), { recursive: true });
+  } catch {}
 }
 
 export async function loadHistory() {
   await ensureDataDir();
+  const historyFile = getHistoryFile();
   try {
-    const data = await fs.readFile(HISTORY_FILE, 'utf-8');
+    const data = await fs.readFile(historyFile, 'utf-8');
     const parsed = JSON.parse(data);
-    history = new Map(Object.entries(parsed).map(([k, v]) => [k, v as Interaction[]]));
-  } catch { 
-    history.set('default', []); 
+    histories.set(historyFile, new Map(Object.entries(parsed).map(([k, v]) => [k, v as Interaction[]])));
+  } catch {
+    const history = new Map<string, Interaction[]>();
+    history.set('default', []);
+    histories.set(historyFile, history);
+  }
+}
+
+/**
+ * Load history for the current project scope unless it is already in memory
+ */
+export async function ensureHistoryLoaded() {
+  if (!histories.has(getHistoryFile())) {
+    await loadHistory();
   }
 }
 
 async function saveHistory() {
-  const data = Object.fromEntries(history);
-  await fs.writeFile(HISTORY_FILE, JSON.stringify(data));
+  const data = Object.fromEntries(currentHistory());
+  await fs.writeFile(getHistoryFile(), JSON.stringify(data));
 }
 
 export function getHistorySummary(sessionId = 'default'): string {
-  const sessHistory = history.get(sessionId) || [];
+  const sessHistory = currentHistory().get(sessionId) || [];
   if (!sessHistory.length) return '';
   const summary = sessHistory.slice(-5).map((int, i) => `Interaction ${i+1}: Goal ${int.input.goal}, Guidance: ${int.output.slice(0, 100)}...`).join('\n');
   return `History Context:\n${summary}\n`;
 }
 
-export function addToHistory(sessionId = 'default', input: VibeCheckInput, output: string) {
+export function listHistorySessions(): string[] {
+  const history = currentHistory();
+  return Array.from(history.keys()).filter((sessionId) => (history.get(sessionId) || []).length > 0);
+}
+
+export function getSessionHistory(sessionId = 'default'): Interaction[] {
+  return [...(currentHistory().get(sessionId) || [])];
+}
+
+/**
+ * Record an interaction; the returned promise settles once it is on disk, and a failed write is only logged
+ */
+export function addToHistory(
+  sessionId = 'default',
+  input: VibeCheckInput,
+  output: string,
+  details: Pick<Interaction, 'usage' | 'council'> = {}
+): Promise<void> {
+  const history = currentHistory();
   if (!history.has(sessionId)) {
     history.set(sessionId, []);
   }
   const sessHistory = history.get(sessionId)!;
-  sessHistory.push({ input, output, timestamp: Date.now() });
+  sessHistory.push({ input, output, timestamp: Date.now(), ...details });
   if (sessHistory.length > 10) {
     sessHistory.shift();
   }
-  saveHistory();
+  return saveHistory().catch((error) => {
+    console.error('Error saving history:', error);
+  });
 }
-
@@ -1,10 +1,16 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { getScopedStorageDir } from './projectScope.js';
+import { registerCollectedGauge } from './metrics.js';
 
-// Define data directory - configurable via VIBE_CHECK_STORAGE_DIR environment variable
-// Falls back to user's home directory if not set
+// Define data directory - a project-bound request scope wins, then the
+// VIBE_CHECK_STORAGE_DIR environment variable, then the user's home directory
 function getDataDir(): string {
+  const scopedDir = getScopedStorageDir();
+  if (scopedDir) {
+    return scopedDir;
+  }
   if (process.env.VIBE_CHECK_STORAGE_DIR) {
     return process.env.VIBE_CHECK_STORAGE_DIR;
   }
@@ -13,7 +19,7 @@ function getDataDir(): string {
 
 // Get project name from storage directory path
 // E.g., /path/to/hivebrowser/.vibe-check → hivebrowser
-function getProjectName(): string {
+export function getProjectName(): string {
   const dataDir = getDataDir();
   // Extract directory name before .vibe-check
   const parts = dataDir.split(path.sep);
@@ -24,9 +30,9 @@ function getProjectName(): string {
   return 'default';
 }
 
-const DATA_DIR = getDataDir();
-const PROJECT_NAME = getProjectName();
-const LOG_FILE = path.join(DATA_DIR, `vibe-log-${PROJECT_NAME}.json`);
+export function getLogFile(): string {
+  return path.join(getDataDir(), `vibe-log-${getProjectName()}.json`);
+}
 
 // Interfaces for the log data structure
 export type LearningType = 'mistake' | 'preference' | 'success';
@@ -71,12 +77,20 @@ const emptyLog: VibeLog = {
   lastUpdated: Date.now()
 };
 
+/**
+ * Directory holding the learning log, history and project configuration
+ */
+export function getStorageDir(): string {
+  return getDataDir();
+}
+
 /**
  * Ensure the data directory exists
  */
 export function ensureDataDir(): void {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
+  const dataDir = getDataDir();
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
   }
 }
 
@@ -85,15 +99,16 @@ export function ensureDataDir(): void {
  */
 export function readLogFile(): VibeLog {
   ensureDataDir();
+  const logFile = getLogFile();
   
-  if (!fs.existsSync(LOG_FILE)) {
+  if (!fs.existsSync(logFile)) {
     // Initialize with empty log if file doesn't exist
     writeLogFile(emptyLog);
     return emptyLog;
   }
   
   try {
-    const data = fs.readFileSync(LOG_FILE, 'utf8');
+    const data = fs.readFileSync(logFile, 'utf8');
     return JSON.parse(data) as VibeLog;
   } catch (error) {
     console.error('Error reading vibe log:', error);
@@ -110,7 +125,7 @@ export function writeLogFile(data: VibeLog): void {
   
   try {
     const jsonData = JSON.stringify(data, null, 2);
-    fs.writeFileSync(LOG_FILE, jsonData, 'utf8');
+    fs.writeFileSync(getLogFile(), jsonData, 'utf8');
   } catch (error) {
     console.error('Error writing vibe log:', error);
   }
@@ -158,6 +173,20 @@ export function addLearningEntry(
   return entry;
 }
 
+/**
+ * Count learning entries without creating the log file
+ */
+function countLearningEntries(): number {
+  const logFile = getLogFile();
+  if (!fs.existsSync(logFile)) {
+    return 0;
+  }
+  const log = JSON.parse(fs.readFileSync(logFile, 'utf8')) as VibeLog;
+  return Object.values(log.mistakes ?? {}).reduce((total, data) => total + (data.examples?.length ?? 0), 0);
+}
+
+registerCollectedGauge('vibe_check_learning_entries', 'Entries in the learning log', countLearningEntries);
+
 /**
  * Get all mistake entries
  */
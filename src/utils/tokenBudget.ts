@@ -0,0 +1,205 @@
+/**
+ * Token estimation and prioritized truncation of the vibe_check context.
+ *
+ * The context section is fitted into VIBE_CHECK_CONTEXT_BUDGET_TOKENS by
+ * walking its parts from most to least important. The constitution is fitted
+ * first, from its own share of the budget, so the rules kept for a session
+ * don't shift with the length of the plan or history. Each part keeps what still
+ * fits: text is cut at the end, lists keep whole items, history keeps the most
+ * recent interactions. Whatever has no budget left is dropped, and every cut
+ * is reported so the caller can surface it.
+ */
+
+const DEFAULT_CONTEXT_BUDGET_TOKENS = 8_000;
+// Below this a compacted section is more marker than content, so drop it instead
+const MIN_SECTION_TOKENS = 16;
+// Most of the budget the constitution may take; what it leaves goes to the other sections
+const CONSTITUTION_SHARE = 0.5;
+
+// Rough characters per token by model family; unknown models get the conservative ratio
+const CHARS_PER_TOKEN: Array<[RegExp, number]> = [
+  [/^(gpt-|o\d|chatgpt)/i, 4],
+  [/^gemini/i, 4],
+  [/claude/i, 3.5],
+  [/(llama|qwen|mistral|phi|deepseek|gemma)/i, 3.2]
+];
+const DEFAULT_CHARS_PER_TOKEN = 3.2;
+
+export function charsPerToken(model?: string): number {
+  const match = model ? CHARS_PER_TOKEN.find(([pattern]) => pattern.test(model)) : undefined;
+  return match ? match[1] : DEFAULT_CHARS_PER_TOKEN;
+}
+
+export function estimateTokens(text: string, model?: string): number {
+  return text ? Math.ceil(text.length / charsPerToken(model)) : 0;
+}
+
+export function getContextBudget(): number {
+  const parsed = Number.parseInt(process.env.VIBE_CHECK_CONTEXT_BUDGET_TOKENS ?? '', 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? DEFAULT_CONTEXT_BUDGET_TOKENS : parsed;
+}
+
+export interface PromptSections {
+  goal: string;
+  plan: string;
+  userPrompt?: string;
+  progress?: string;
+  taskContext?: string;
+  uncertainties?: string[];
+  /** Compiled constitution rule strings, as produced by rulesToStrings or update_constitution */
+  rules: string[];
+  historySummary?: string;
+  learningContext?: string;
+}
+
+export interface TruncationNote {
+  section: string;
+  action: 'compacted' | 'dropped';
+  /** Estimated tokens before and after */
+  tokens: number;
+  keptTokens: number;
+}
+
+export interface BudgetResult {
+  sections: PromptSections;
+  truncated: TruncationNote[];
+  tokens: number;
+}
+
+export type RuleSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+const SEVERITY_MARKERS: Array<[string, RuleSeverity]> = [['🚨', 'CRITICAL'], ['⚠️', 'HIGH'], ['ℹ️', 'MEDIUM'], ['📝', 'LOW']];
+
+// rulesToStrings marks severity with a leading emoji; rules added through update_constitution have none
+export function ruleSeverity(rule: string): RuleSeverity | undefined {
+  return SEVERITY_MARKERS.find(([marker]) => rule.startsWith(marker))?.[1];
+}
+
+function ruleRank(rule: string): number {
+  const severity = ruleSeverity(rule);
+  if (severity === 'CRITICAL') return 0;
+  if (severity === 'HIGH') return 1;
+  if (severity === 'LOW') return 3;
+  return 2;
+}
+
+class Budget {
+  readonly truncated: TruncationNote[] = [];
+  private remaining: number;
+
+  constructor(private readonly total: number, private readonly model?: string) {
+    this.remaining = total;
+  }
+
+  get used(): number {
+    return this.total - this.remaining;
+  }
+
+  private note(section: string, tokens: number, keptTokens: number): void {
+    this.truncated.push({ section, action: keptTokens ? 'compacted' : 'dropped', tokens, keptTokens });
+  }
+
+  // Keep the start of the text, marking the cut
+  text(section: string, value: string | undefined): string | undefined {
+    if (!value) {
+      return value;
+    }
+    const tokens = estimateTokens(value, this.model);
+    if (tokens <= this.remaining) {
+      this.remaining -= tokens;
+      return value;
+    }
+    if (this.remaining < MIN_SECTION_TOKENS) {
+      this.note(section, tokens, 0);
+      return undefined;
+    }
+    const marker = ` … [truncated, ~${tokens - this.remaining} tokens omitted]`;
+    const keepChars = Math.max(0, Math.floor(this.remaining * charsPerToken(this.model)) - marker.length);
+    const compacted = `${value.slice(0, keepChars).trimEnd()}${marker}`;
+    const keptTokens = estimateTokens(compacted, this.model);
+    this.remaining = Math.max(0, this.remaining - keptTokens);
+    this.note(section, tokens, keptTokens);
+    return compacted;
+  }
+
+  // Keep whole items in the given order of preference, spending at most `limit`
+  items(section: string, values: string[], limit = Infinity): Set<string> {
+    const kept = new Set<string>();
+    let tokens = 0;
+    let keptTokens = 0;
+    for (const value of values) {
+      const cost = estimateTokens(value, this.model) + 1;
+      tokens += cost;
+      if (cost <= this.remaining && keptTokens + cost <= limit) {
+        this.remaining -= cost;
+        keptTokens += cost;
+        kept.add(value);
+      }
+    }
+    if (kept.size < values.length) {
+      this.note(section, tokens, keptTokens);
+    }
+    return kept;
+  }
+}
+
+// The summary is a header line plus one line per interaction, oldest first
+function fitHistory(budget: Budget, summary: string | undefined): string | undefined {
+  if (!summary) {
+    return summary;
+  }
+  const interactions = summary.split('\n').filter((line) => line.trim());
+  const header = interactions[0]?.startsWith('History Context:') ? interactions.shift() : undefined;
+  const kept = budget.items('history', [...interactions].reverse());
+  const recent = interactions.filter((line) => kept.has(line));
+  return recent.length ? [header, ...recent].filter(Boolean).join('\n') : undefined;
+}
+
+// Category headers and entries, most relevant first as getLearningContextText orders them
+function fitLearnings(budget: Budget, text: string | undefined): string | undefined {
+  if (!text) {
+    return text;
+  }
+  const allLines = text.split('\n');
+  const kept = budget.items('learnings', allLines.filter((line) => line.trim()));
+  return kept.size ? allLines.filter((line) => !line.trim() || kept.has(line)).join('\n').trim() : undefined;
+}
+
+/**
+ * Fit the context into the budget. The rules come first, by severity, from
+ * their own allowance. The rest, highest priority first: goal, plan, user
+ * prompt, progress, task context, uncertainties, recent history, learnings.
+ */
+export function fitContextToBudget(sections: PromptSections, model?: string, budgetTokens = getContextBudget()): BudgetResult {
+  const budget = new Budget(budgetTokens, model);
+
+  const rules = budget.items(
+    'rules',
+    [...sections.rules].sort((a, b) => ruleRank(a) - ruleRank(b)),
+    Math.floor(budgetTokens * CONSTITUTION_SHARE)
+  );
+  const goal = budget.text('goal', sections.goal) ?? '';
+  const plan = budget.text('plan', sections.plan) ?? '';
+  const userPrompt = budget.text('userPrompt', sections.userPrompt);
+  const progress = budget.text('progress', sections.progress);
+  const taskContext = budget.text('taskContext', sections.taskContext);
+  const uncertainties = sections.uncertainties && budget.items('uncertainties', sections.uncertainties);
+  const historySummary = fitHistory(budget, sections.historySummary);
+  const learningContext = fitLearnings(budget, sections.learningContext);
+
+  return {
+    sections: {
+      goal,
+      plan,
+      userPrompt,
+      progress,
+      taskContext,
+      uncertainties: uncertainties && sections.uncertainties!.filter((item) => uncertainties.has(item)),
+      rules: sections.rules.filter((rule) => rules.has(rule)),
+      historySummary,
+      learningContext
+    },
+    truncated: budget.truncated,
+    tokens: budget.used
+  };
+}
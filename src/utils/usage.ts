@@ -0,0 +1,288 @@
+import fs from 'fs';
+import path from 'path';
+import { getProjectName, getStorageDir } from './storage.js';
+import { loadProjectConfig } from './projectConfig.js';
+import { llmTokens } from './metrics.js';
+import { defaultModelFor } from './modelProfiles.js';
+import { providerRegistry } from './providers/index.js';
+import { parseSessionId } from './constitutional/session-id.js';
+import type { TokenUsage } from './providers/index.js';
+
+/**
+ * Token usage and cost of every provider call, appended to `<storage dir>/usage.jsonl`.
+ *
+ * Prices are USD per million tokens. `prices` in vibe-check.config.json adds
+ * to or overrides the built-in table. Keys are a model name or
+ * `provider:model`, and the longest key that prefixes the answering model
+ * wins, so `claude-3-5-sonnet` also prices `claude-3-5-sonnet-20241022`.
+ * Prompt cache reads cost a tenth of the input price and cache writes a
+ * quarter more, as Anthropic bills them.
+ * VIBE_CHECK_USAGE_LEDGER=false stops the appends; calls are still priced.
+ */
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+  // Self-hosted models cost nothing per token
+  'local:': { input: 0, output: 0 },
+};
+
+// Prompt cache rates relative to the input price
+const CACHE_READ_RATE = 0.1;
+const CACHE_WRITE_RATE = 1.25;
+
+export interface UsageEntry {
+  timestamp: number;
+  project: string;
+  sessionId: string;
+  provider: string;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Prompt cache reads and writes, when the provider reports them */
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  /** Absent when no price matches the model */
+  costUsd?: number;
+  /** Counted locally because the provider reported no usage */
+  estimated?: boolean;
+}
+
+/** Usage of one call as returned in the tool output and stored with the history entry */
+export type CallUsage = Omit<UsageEntry, 'timestamp' | 'project' | 'sessionId'>;
+
+export const USAGE_LEDGER_FILE = 'usage.jsonl';
+
+export const USAGE_GROUPS = ['session', 'ticket', 'project', 'provider', 'model', 'day'] as const;
+export type UsageGroup = (typeof USAGE_GROUPS)[number];
+
+export interface UsageSummaryRow {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  /** Calls whose model had no price; their tokens are counted but cost nothing here */
+  unpricedCalls: number;
+}
+
+export function getUsageLedgerFile(storageDir = getStorageDir()): string {
+  return path.join(storageDir, USAGE_LEDGER_FILE);
+}
+
+function isPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice | null;
+  return Number.isFinite(price?.input) && Number.isFinite(price?.output);
+}
+
+/**
+ * Built-in prices overlaid with the project's `prices`; malformed entries are ignored
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  const table = { ...DEFAULT_PRICES };
+  const configured = loadProjectConfig().prices;
+  if (configured && typeof configured === 'object') {
+    for (const [key, price] of Object.entries(configured)) {
+      if (isPrice(price)) {
+        table[key] = price;
+      } else {
+        console.error('[Usage] ignoring malformed price', { key });
+      }
+    }
+  }
+  return table;
+}
+
+// The longest key that prefixes `provider:model` or the model
+function findPriceKey(provider: string, model: string | undefined, table: Record<string, ModelPrice>): string | undefined {
+  const candidates = [`${provider}:${model ?? ''}`, ...(model ? [model] : [])];
+  let match: string | undefined;
+  for (const key of Object.keys(table)) {
+    if (candidates.some((candidate) => candidate.startsWith(key)) && (!match || key.length > match.length)) {
+      match = key;
+    }
+  }
+  return match;
+}
+
+export function findPrice(provider: string, model: string | undefined, table = getPriceTable()): ModelPrice | undefined {
+  const match = findPriceKey(provider, model, table);
+  return match ? table[match] : undefined;
+}
+
+// Model half of a configured `provider:model` entry
+function entryModel(entry: unknown): string | undefined {
+  return typeof entry === 'string' && entry.includes(':') ? entry.slice(entry.indexOf(':') + 1).trim() || undefined : undefined;
+}
+
+// Models the server itself names: provider defaults, profiles, configured chains and council seats
+function knownModels(provider: string): Set<string> {
+  const config = loadProjectConfig();
+  const registered = providerRegistry.get(provider);
+  return new Set([
+    registered?.defaultModel,
+    registered?.fallbackModel,
+    defaultModelFor(provider),
+    ...Object.values(config.profiles ?? {}).map((profile) => profile?.model),
+    ...Object.values(config.providers ?? {}).map((defaults) => defaults?.model),
+    ...(Array.isArray(config.fallbackChain) ? config.fallbackChain : []).map(entryModel),
+    ...(process.env.LLM_FALLBACK_CHAIN ?? '').split(',').map(entryModel),
+    ...(Array.isArray(config.council?.members) ? config.council.members : []).map(entryModel),
+    entryModel(config.council?.synthesizer),
+  ].filter((model): model is string => typeof model === 'string' && model.length > 0));
+}
+
+/**
+ * Model label for /metrics. `modelOverride.model` is caller input, so only
+ * models the server knows keep their name; a dated variant of a priced model
+ * is counted under its price key, and anything else as `other`.
+ */
+export function metricsModelLabel(provider: string, model: string | undefined, table = getPriceTable()): string {
+  if (!model) {
+    return 'default';
+  }
+  if (knownModels(provider).has(model)) {
+    return model;
+  }
+  const key = findPriceKey(provider, model, table);
+  return (key?.includes(':') ? entryModel(key) : key) ?? 'other';
+}
+
+export function priceUsage(provider: string, model: string | undefined, usage: TokenUsage, table = getPriceTable()): number | undefined {
+  const price = findPrice(provider, model, table);
+  if (!price) {
+    return undefined;
+  }
+  const cachedInput = (usage.cacheReadTokens ?? 0) * CACHE_READ_RATE + (usage.cacheWriteTokens ?? 0) * CACHE_WRITE_RATE;
+  return ((usage.inputTokens + cachedInput) * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Price one provider call, count it in /metrics and append it to the project's ledger
+ */
+export function recordUsage(
+  sessionId: string | undefined,
+  call: { provider: string; model?: string; usage: TokenUsage; estimated?: boolean },
+  now = Date.now()
+): CallUsage {
+  const { provider, model, usage, estimated } = call;
+  const costUsd = priceUsage(provider, model, usage);
+  const callUsage: CallUsage = {
+    provider,
+    model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    ...(usage.cacheReadTokens ? { cacheReadTokens: usage.cacheReadTokens } : {}),
+    ...(usage.cacheWriteTokens ? { cacheWriteTokens: usage.cacheWriteTokens } : {}),
+    ...(costUsd !== undefined ? { costUsd } : {}),
+    ...(estimated ? { estimated: true } : {}),
+  };
+  const modelLabel = metricsModelLabel(provider, model);
+  llmTokens.inc({ provider, model: modelLabel, direction: 'input' }, usage.inputTokens);
+  llmTokens.inc({ provider, model: modelLabel, direction: 'output' }, usage.outputTokens);
+  if (usage.cacheReadTokens) {
+    llmTokens.inc({ provider, model: modelLabel, direction: 'cache_read' }, usage.cacheReadTokens);
+  }
+  if (usage.cacheWriteTokens) {
+    llmTokens.inc({ provider, model: modelLabel, direction: 'cache_write' }, usage.cacheWriteTokens);
+  }
+
+  if (process.env.VIBE_CHECK_USAGE_LEDGER === 'false') {
+    return callUsage;
+  }
+  const entry: UsageEntry = { timestamp: now, project: getProjectName(), sessionId: sessionId || 'default', ...callUsage };
+  const file = getUsageLedgerFile();
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(entry)}\n`);
+  } catch (error) {
+    console.error('[Usage] failed to record usage', { file, err: (error as Error)?.message });
+  }
+  return callUsage;
+}
+
+/**
+ * Every entry in a ledger, skipping lines that don't parse (a crash mid-append)
+ */
+export function readUsageLedger(file = getUsageLedgerFile()): UsageEntry[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, 'utf8');
+  } catch {
+    return [];
+  }
+  const entries: UsageEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      console.error('[Usage] skipping malformed ledger line', { file });
+    }
+  }
+  return entries;
+}
+
+function groupKey(entry: UsageEntry, by: UsageGroup): string {
+  switch (by) {
+    case 'session':
+      return entry.sessionId;
+    case 'ticket':
+      // The issue ID of a conventional session ID; `adhoc` sessions group together
+      return parseSessionId(entry.sessionId)?.linearIssueId ?? 'none';
+    case 'project':
+      return entry.project;
+    case 'provider':
+      return entry.provider;
+    case 'model':
+      return `${entry.provider}:${entry.model ?? 'default'}`;
+    case 'day':
+      return new Date(entry.timestamp).toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * Totals per group; days in date order, everything else most expensive first
+ */
+export function summarizeUsage(entries: UsageEntry[], by: UsageGroup): UsageSummaryRow[] {
+  const rows = new Map<string, UsageSummaryRow>();
+  for (const entry of entries) {
+    const key = groupKey(entry, by);
+    const row = rows.get(key)
+      ?? { key, calls: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, unpricedCalls: 0 };
+    row.calls += 1;
+    row.inputTokens += entry.inputTokens;
+    row.outputTokens += entry.outputTokens;
+    row.cacheReadTokens += entry.cacheReadTokens ?? 0;
+    row.cacheWriteTokens += entry.cacheWriteTokens ?? 0;
+    if (entry.costUsd === undefined) {
+      row.unpricedCalls += 1;
+    } else {
+      row.costUsd += entry.costUsd;
+    }
+    rows.set(key, row);
+  }
+  return Array.from(rows.values()).sort((a, b) =>
+    by === 'day' ? a.key.localeCompare(b.key) : b.costUsd - a.costUsd || a.key.localeCompare(b.key)
+  );
+}
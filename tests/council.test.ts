@@ -0,0 +1,143 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ChatMessage, providerRegistry } from '../src/utils/providers/index.js';
+import { generateResponse } from '../src/utils/llm.js';
+import { vibeCheckTool } from '../src/tools/vibeCheck.js';
+import { resetConstitution } from '../src/tools/constitution.js';
+import { getSessionHistory, loadHistory } from '../src/utils/state.js';
+import { mergeCouncil, parseCouncil, resolveCouncil } from '../src/utils/council.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+function reply(questions: string, riskScore: number, ruleViolations: string[] = []) {
+  return JSON.stringify({ questions, riskScore, traits: [], ruleViolations, recommendedActions: ['Write a rollback plan'] });
+}
+
+const memberA = vi.fn(async () => ({ text: reply('1. Is the migration reversible?\n2. Who approves the cutover?', 0.2) }));
+const memberB = vi.fn(async () => ({ text: reply('- Is the migration reversible?\n- Have you load-tested the new schema?', 0.7, ['DB-001']) }));
+const synthesizer = vi.fn(async () => ({
+  text: JSON.stringify({
+    questions: 'Merged: is it reversible, who approves, and was it load-tested?',
+    disagreements: ['council-b sees high risk; council-a does not.'],
+    riskScore: 0.5,
+    traits: ['missing-rollback'],
+    ruleViolations: ['DB-001'],
+    recommendedActions: ['Load-test the schema'],
+  }),
+}));
+
+const input = { goal: 'Migrate orders table', plan: 'Run the migration in prod', modelOverride: { provider: 'council-synth' } };
+const council = [{ provider: 'council-a' }, { provider: 'council-b' }];
+
+let storageDir: string;
+
+function writeConfig(config: unknown) {
+  fs.writeFileSync(path.join(storageDir, 'vibe-check.config.json'), JSON.stringify(config));
+}
+
+beforeAll(() => {
+  providerRegistry.register(fakeProvider({ id: 'council-a', defaultModel: 'council-a-model', generate: memberA }));
+  providerRegistry.register(fakeProvider({ id: 'council-b', defaultModel: 'council-b-model', generate: memberB }));
+  providerRegistry.register(fakeProvider({ id: 'council-synth', defaultModel: 'council-synth-model', generate: synthesizer }));
+});
+
+beforeEach(() => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-council-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const mock of [memberA, memberB, synthesizer]) mock.mockClear();
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('council selection', () => {
+  it('parses call councils and rejects unknown or lone members', () => {
+    expect(parseCouncil(['council-a', 'council-b:large', 'council-a'])).toEqual([{ provider: 'council-a' }, { provider: 'council-b', model: 'large' }]);
+    expect(parseCouncil([])).toEqual([]);
+    expect(() => parseCouncil(['council-a', 'nope'])).toThrow('Unknown provider in council: nope');
+    expect(() => parseCouncil(['council-a', ' council-a '])).toThrow(/at least 2 distinct members/);
+  });
+
+  it('convenes a project council for configured work types and rule severities', () => {
+    writeConfig({ council: { members: ['council-a', 'council-b', 'missing'], workTypes: ['migration'], severities: ['critical'], synthesizer: 'council-synth' } });
+    const migration = 'shop-migration-SHOP-7-20260301-a1b2c3d4';
+
+    expect(resolveCouncil({ sessionId: migration, rules: [] })).toEqual({ members: council, synthesizer: { provider: 'council-synth' }, trigger: 'workType' });
+    expect(resolveCouncil({ sessionId: 'shop-feature-adhoc-20260301-a1b2c3d4', rules: ['🚨 [security] SEC-001 No secrets'] })?.trigger).toBe('severity');
+    expect(resolveCouncil({ sessionId: 'shop-feature-adhoc-20260301-a1b2c3d4', rules: ['⚠️ [style] STY-001 Lint'] })).toBeUndefined();
+    expect(resolveCouncil({ requested: [], sessionId: migration, rules: [] })).toBeUndefined();
+  });
+});
+
+describe('council reviews', () => {
+  it('asks every member with the same context and returns the synthesized answer', async () => {
+    const res = await generateResponse({ ...input, council });
+
+    const [[membersMessages], [otherMessages]] = [memberA.mock.calls[0], memberB.mock.calls[0]] as unknown as Array<[ChatMessage[]]>;
+    expect(membersMessages).toEqual(otherMessages);
+    const [[synthesisMessages]] = synthesizer.mock.calls as unknown as Array<[ChatMessage[]]>;
+    expect(synthesisMessages[1].content).toContain('### Reviewer 1 (council-a:council-a-model)\n1. Is the migration reversible?');
+    expect(synthesisMessages[1].content).toContain('Rule violations: DB-001');
+
+    expect(res).toMatchObject({
+      questions: 'Merged: is it reversible, who approves, and was it load-tested?',
+      provider: 'council-synth',
+      analysis: { riskScore: 0.5, ruleViolations: ['DB-001'] },
+    });
+    expect(res.council).toMatchObject({
+      trigger: 'call',
+      disagreements: ['council-b sees high risk; council-a does not.'],
+      synthesizer: { provider: 'council-synth', model: 'council-synth-model' },
+    });
+    expect(res.council?.members.map(({ provider, analysis }) => [provider, analysis?.riskScore])).toEqual([['council-a', 0.2], ['council-b', 0.7]]);
+  });
+
+  it('merges locally when the synthesizer fails and skips failed members', async () => {
+    synthesizer.mockRejectedValueOnce(new Error('synth down'));
+    const res = await generateResponse({ ...input, council });
+
+    expect(res.provider).toBeUndefined();
+    expect(res.questions).toBe('- Is the migration reversible?\n- Who approves the cutover?\n- Have you load-tested the new schema?');
+    expect(res.analysis).toMatchObject({ riskScore: 0.7, ruleViolations: ['DB-001'], recommendedActions: ['Write a rollback plan'] });
+    expect(res.council?.disagreements).toEqual([
+      'Risk scores range from 0.2 (council-a:council-a-model) to 0.7 (council-b:council-b-model).',
+      'DB-001 flagged by council-b:council-b-model but not council-a:council-a-model.',
+    ]);
+
+    memberB.mockRejectedValueOnce(new Error('rate limited'));
+    const single = await generateResponse({ ...input, council });
+    expect(synthesizer).toHaveBeenCalledTimes(1);
+    expect(single).toMatchObject({ provider: 'council-a', questions: '1. Is the migration reversible?\n2. Who approves the cutover?' });
+    expect(single.council?.members[1]).toEqual({ provider: 'council-b', error: 'rate limited' });
+  });
+
+  it('keeps the members in history and rejects invalid councils', async () => {
+    await loadHistory();
+    const sessionId = 'shop-migration-SHOP-7-20260301-a1b2c3d4';
+    writeConfig({ council: { members: ['council-a', 'council-b'], severities: ['CRITICAL'] } });
+    resetConstitution(sessionId, ['🚨 [data] DB-001 Never drop columns without a backup']);
+
+    const result = await vibeCheckTool({ ...input, sessionId });
+
+    expect(result.council?.trigger).toBe('severity');
+    expect(getSessionHistory(sessionId)[0].council?.members).toHaveLength(2);
+    await expect(vibeCheckTool({ ...input, modelOverride: { council: ['council-a'] } })).rejects.toThrow(/at least 2 distinct members/);
+  });
+});
+
+describe('mergeCouncil', () => {
+  it('reports no disagreements when members agree', () => {
+    const analysis = { riskScore: 0.3, traits: ['looping'], ruleViolations: [], recommendedActions: [] };
+    expect(mergeCouncil([
+      { provider: 'a', questions: 'Why now?', analysis },
+      { provider: 'b', questions: 'why now', analysis: { ...analysis, riskScore: 0.4 } },
+    ])).toEqual({ questions: '- Why now?', analysis: { ...analysis, riskScore: 0.4 }, disagreements: [] });
+  });
+});
@@ -0,0 +1,191 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { providerRegistry } from '../src/utils/providers/index.js';
+import { generateResponse, getMetacognitiveQuestions } from '../src/utils/llm.js';
+import { vibeCheckTool } from '../src/tools/vibeCheck.js';
+import {
+  __testing as chainTesting,
+  parseFallbackChain,
+  resolveFallbackChain,
+  setSessionFallbackChain,
+} from '../src/utils/fallbackChain.js';
+import {
+  __testing as circuitTesting,
+  canAttempt,
+  getCircuitState,
+  recordFailure,
+  recordSuccess,
+  releaseTrial,
+} from '../src/utils/circuitBreaker.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+const failing = vi.fn(async () => {
+  throw new Error('upstream 500');
+});
+const answering = vi.fn(async (_messages, { model }) => ({ text: `answer from ${model}` }));
+
+let storageDir: string;
+
+beforeAll(() => {
+  providerRegistry.register(fakeProvider({ id: 'chain-down', defaultModel: 'chain-down-default', generate: failing }));
+  providerRegistry.register(fakeProvider({ id: 'chain-up', defaultModel: 'chain-up-default', generate: answering }));
+});
+
+beforeEach(() => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-chain-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  failing.mockClear();
+  answering.mockClear();
+  chainTesting.reset();
+  circuitTesting.reset();
+  delete process.env.LLM_FALLBACK_CHAIN;
+  delete process.env.LLM_CIRCUIT_FAILURE_THRESHOLD;
+  delete process.env.LLM_RETRY_MAX_ATTEMPTS;
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+afterAll(() => {
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+});
+
+describe('fallback chain configuration', () => {
+  it('parses provider:model entries and keeps model tags intact', () => {
+    expect(parseFallbackChain(['anthropic:claude-sonnet-4-5', 'local:qwen2.5:7b', 'openai'])).toEqual([
+      { provider: 'anthropic', model: 'claude-sonnet-4-5' },
+      { provider: 'local', model: 'qwen2.5:7b' },
+      { provider: 'openai' },
+    ]);
+    expect(() => parseFallbackChain(['nope:model'])).toThrow('Unknown provider in fallback chain: nope');
+  });
+
+  it('prefers the session chain, then the project config, then the environment', () => {
+    process.env.LLM_FALLBACK_CHAIN = 'openai:o4-mini, bogus:x';
+    expect(resolveFallbackChain('s1')).toEqual([{ provider: 'openai', model: 'o4-mini' }]);
+
+    fs.writeFileSync(path.join(storageDir, 'vibe-check.config.json'), JSON.stringify({ fallbackChain: ['local:qwen'] }));
+    expect(resolveFallbackChain('s1')).toEqual([{ provider: 'local', model: 'qwen' }]);
+
+    setSessionFallbackChain('s1', [{ provider: 'anthropic' }]);
+    expect(resolveFallbackChain('s1')).toEqual([{ provider: 'anthropic' }]);
+    expect(resolveFallbackChain('s2')).toEqual([{ provider: 'local', model: 'qwen' }]);
+  });
+});
+
+describe('generateResponse with a fallback chain', () => {
+  it('moves down the chain and reports who answered', async () => {
+    process.env.LLM_FALLBACK_CHAIN = 'chain-down,chain-up:backup-model';
+    const onProgress = vi.fn();
+
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'chain-down' } }, { onProgress });
+
+    expect(res).toMatchObject({ questions: 'answer from backup-model', provider: 'chain-up', model: 'backup-model' });
+    expect(failing).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith('Falling back to chain-up');
+  });
+
+  it('skips a provider while its circuit is open', async () => {
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = '2';
+    const input = { goal: 'g', plan: 'p', modelOverride: { provider: 'chain-down' }, fallbackChain: [{ provider: 'chain-up' }] };
+
+    await generateResponse(input);
+    await generateResponse(input);
+    expect(getCircuitState('chain-down')).toBe('open');
+
+    const res = await generateResponse(input);
+    expect(failing).toHaveBeenCalledTimes(2);
+    expect(res.provider).toBe('chain-up');
+  });
+
+  it('throws the last error when the whole chain fails', async () => {
+    await expect(
+      generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'chain-down' }, fallbackChain: [] })
+    ).rejects.toThrow('upstream 500');
+  });
+});
+
+describe('local calls', () => {
+  // LOCAL_LLM_BASE_URL is unset, so the local server always fails here
+  const local = { goal: 'g', plan: 'private plan', modelOverride: { provider: 'local', model: 'qwen' } };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    process.env.LLM_RETRY_MAX_ATTEMPTS = '1';
+  });
+
+  it('never fall back to a hosted provider without the project opting in', async () => {
+    process.env.LLM_FALLBACK_CHAIN = 'chain-up';
+    const fromEnv = await getMetacognitiveQuestions(local);
+    const fromCall = await getMetacognitiveQuestions({ ...local, fallbackChain: [{ provider: 'chain-up' }] });
+    const council = await getMetacognitiveQuestions({ ...local, council: [{ provider: 'local', model: 'llama' }, { provider: 'chain-up' }] });
+
+    expect(answering).not.toHaveBeenCalled();
+    for (const res of [fromEnv, fromCall, council]) {
+      expect(res).toMatchObject({ degraded: true, degradedReason: 'Local provider requires LOCAL_LLM_BASE_URL.' });
+    }
+  });
+
+  it('fall back to hosted providers when the project allows it', async () => {
+    fs.writeFileSync(path.join(storageDir, 'vibe-check.config.json'), JSON.stringify({ allowHostedFallback: true }));
+
+    const res = await generateResponse({ ...local, fallbackChain: [{ provider: 'chain-up' }] });
+
+    expect(res).toMatchObject({ provider: 'chain-up', questions: 'answer from chain-up-default' });
+  });
+});
+
+describe('circuit breaker', () => {
+  it('half-opens after the cooldown and closes on success', () => {
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = '1';
+    recordFailure('demo', 1_000);
+    expect(canAttempt('demo', 1_500)).toBe(false);
+    expect(getCircuitState('demo', 61_000)).toBe('half-open');
+
+    recordFailure('demo', 61_000);
+    expect(getCircuitState('demo', 61_500)).toBe('open');
+
+    recordSuccess('demo');
+    expect(getCircuitState('demo')).toBe('closed');
+  });
+
+  it('lets one trial through while half-open', () => {
+    process.env.LLM_CIRCUIT_FAILURE_THRESHOLD = '1';
+    recordFailure('demo', 1_000);
+
+    expect(canAttempt('demo', 61_000)).toBe(true);
+    expect(canAttempt('demo', 61_000)).toBe(false);
+    expect(getCircuitState('demo', 61_000)).toBe('open');
+
+    releaseTrial('demo');
+    expect(canAttempt('demo', 61_000)).toBe(true);
+    recordFailure('demo', 61_000);
+    expect(canAttempt('demo', 61_500)).toBe(false);
+    expect(canAttempt('demo', 121_000)).toBe(true);
+  });
+});
+
+describe('vibe_check fallbackChain input', () => {
+  it('rejects unknown providers and remembers the chain for the session', async () => {
+    await expect(vibeCheckTool({ goal: 'g', plan: 'p', fallbackChain: ['nope'] })).rejects.toThrow(
+      'Unknown provider in fallback chain: nope'
+    );
+
+    const res = await vibeCheckTool({
+      goal: 'g',
+      plan: 'p',
+      sessionId: 'chain-session',
+      modelOverride: { provider: 'chain-down' },
+      fallbackChain: ['chain-up:session-model'],
+    });
+    expect(res).toMatchObject({ provider: 'chain-up', model: 'session-model' });
+    expect(resolveFallbackChain('chain-session')).toEqual([{ provider: 'chain-up', model: 'session-model' }]);
+  });
+});
@@ -0,0 +1,21 @@
+import { vi } from 'vitest';
+
+import { LLMProvider } from '../../src/utils/providers/index.js';
+
+/**
+ * A configured provider that answers with the model it was asked for.
+ * Override `id`, `defaultModel` or `generate` to register several per test file.
+ */
+export function fakeProvider(overrides: Partial<LLMProvider> = {}): LLMProvider {
+  return {
+    id: 'fake',
+    label: 'Fake',
+    capabilities: { jsonMode: false, systemPrompt: true, clientSampling: false, streaming: false },
+    defaultModel: 'fake-large',
+    envKeys: [{ name: 'FAKE_API_KEY', pattern: /^fk-/, message: 'must start with "fk-".' }],
+    isConfigured: () => true,
+    generate: vi.fn(async (_messages, { model }) => ({ text: `reply from ${model}`, model })),
+    healthCheck: async () => ({ ok: true, detail: 'fake' }),
+    ...overrides
+  };
+}
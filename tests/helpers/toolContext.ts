@@ -0,0 +1,22 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+import { ToolContext } from '../../src/tools/registry.js';
+
+/**
+ * A tool call context with no client connected: notifications are dropped and
+ * requests to the client fail. Override `extra` fields such as `signal` per call.
+ */
+export function toolContext(extra: Partial<ToolContext['extra']> = {}): ToolContext {
+  return {
+    server: new Server({ name: 'test-server', version: '0.0.0' }, { capabilities: { tools: {} } }),
+    extra: {
+      signal: new AbortController().signal,
+      requestId: 1,
+      sendNotification: async () => {},
+      sendRequest: async () => {
+        throw new Error('No client connected.');
+      },
+      ...extra
+    }
+  };
+}
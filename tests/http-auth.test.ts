@@ -0,0 +1,164 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { HttpServerInstance, HttpServerOptions, LoggerLike } from '../src/index.js';
+import {
+  createApiToken,
+  hasActiveTokens,
+  listApiTokens,
+  revokeApiToken,
+  tokenHasScope,
+  verifyApiToken,
+} from '../src/utils/apiTokens.js';
+import { requiredScopeFor, resolveHttpAuthMode } from '../src/utils/httpAuth.js';
+
+let tempHome: string;
+let originalHome: string | undefined;
+let startHttpServer: (options?: HttpServerOptions) => Promise<HttpServerInstance>;
+
+const silentLogger: LoggerLike = {
+  log: vi.fn(),
+  error: vi.fn(),
+};
+
+const HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json',
+};
+
+beforeAll(async () => {
+  originalHome = process.env.HOME;
+  tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-auth-test-'));
+  process.env.HOME = tempHome;
+  process.env.VIBE_CHECK_TOKENS_FILE = path.join(tempHome, 'tokens.json');
+  ({ startHttpServer } = await import('../src/index.js'));
+});
+
+afterAll(() => {
+  process.env.HOME = originalHome;
+  delete process.env.VIBE_CHECK_TOKENS_FILE;
+  fs.rmSync(tempHome, { recursive: true, force: true });
+});
+
+let serverInstance: HttpServerInstance | undefined;
+
+afterEach(async () => {
+  if (serverInstance) {
+    await serverInstance.close();
+  }
+  serverInstance = undefined;
+  fs.rmSync(process.env.VIBE_CHECK_TOKENS_FILE!, { force: true });
+});
+
+function baseUrl(instance: HttpServerInstance): string {
+  const address = instance.listener.address();
+  const port = typeof address === 'object' && address ? address.port : 0;
+  return `http://127.0.0.1:${port}/mcp`;
+}
+
+function callTool(url: string, token: string | undefined, name: string, args: Record<string, unknown>) {
+  return fetch(url, {
+    method: 'POST',
+    headers: token ? { ...HEADERS, Authorization: `Bearer ${token}` } : HEADERS,
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }),
+  });
+}
+
+describe('API tokens', () => {
+  it('stores only a hash and verifies the issued secret', () => {
+    const storageDir = path.join(tempHome, 'proj', '.vibe-check');
+    const { token, record } = createApiToken({ scopes: ['learn'], storageDir, label: 'ci' });
+
+    expect(token).toMatch(/^vck_[0-9a-f]+_/);
+    expect(fs.readFileSync(process.env.VIBE_CHECK_TOKENS_FILE!, 'utf8')).not.toContain(token.split('_').slice(2).join('_'));
+    expect(verifyApiToken(token)).toMatchObject({ id: record.id, scopes: ['learn'], storageDir });
+    expect(verifyApiToken(`${token}x`)).toBeNull();
+    expect(listApiTokens()[0]).not.toHaveProperty('hash');
+  });
+
+  it('rejects revoked tokens', () => {
+    const { token, record } = createApiToken({ scopes: ['read-only'], storageDir: tempHome });
+    expect(hasActiveTokens()).toBe(true);
+    expect(revokeApiToken(record.id)).toBe(true);
+    expect(revokeApiToken(record.id)).toBe(false);
+    expect(verifyApiToken(token)).toBeNull();
+    expect(hasActiveTokens()).toBe(false);
+  });
+
+  it('rejects unknown scopes', () => {
+    expect(() => createApiToken({ scopes: ['admin' as any], storageDir: tempHome })).toThrow('Unknown scope: admin');
+  });
+
+  it('maps tools to scopes with read-only implied by any scope', () => {
+    expect(requiredScopeFor({ method: 'tools/list' })).toBe('read-only');
+    expect(requiredScopeFor({ method: 'tools/call', params: { name: 'vibe_learn' } })).toBe('learn');
+    expect(requiredScopeFor({ method: 'tools/call', params: { name: 'reset_constitution' } })).toBe('constitution-admin');
+    expect(tokenHasScope(['learn'], 'read-only')).toBe(true);
+    expect(tokenHasScope(['read-only'], 'learn')).toBe(false);
+    expect(resolveHttpAuthMode('REQUIRED')).toBe('required');
+    expect(resolveHttpAuthMode(undefined)).toBe('auto');
+  });
+});
+
+describe('HTTP bearer auth', () => {
+  it('stays open in auto mode until a token exists', async () => {
+    serverInstance = await startHttpServer({ port: 0, logger: silentLogger });
+    const res = await fetch(baseUrl(serverInstance), {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }),
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it('returns 401 without a valid token once tokens exist', async () => {
+    createApiToken({ scopes: ['read-only'], storageDir: tempHome });
+    serverInstance = await startHttpServer({ port: 0, logger: silentLogger });
+    const url = baseUrl(serverInstance);
+
+    const missing = await callTool(url, undefined, 'check_constitution', { sessionId: 's' });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+
+    const invalid = await callTool(url, 'vck_abc_nope', 'check_constitution', { sessionId: 's' });
+    expect(invalid.status).toBe(401);
+  });
+
+  it('returns 403 when the token lacks the tool scope', async () => {
+    const { token } = createApiToken({ scopes: ['read-only'], storageDir: tempHome });
+    serverInstance = await startHttpServer({ port: 0, logger: silentLogger });
+
+    const res = await callTool(baseUrl(serverInstance), token, 'vibe_learn', { mistake: 'm', category: 'Other' });
+    expect(res.status).toBe(403);
+    const body = await res.json();
+    expect(body.error.message).toContain('learn');
+  });
+
+  it('writes learnings into the storage directory bound to the token', async () => {
+    const alphaDir = path.join(tempHome, 'alpha', '.vibe-check');
+    const betaDir = path.join(tempHome, 'beta', '.vibe-check');
+    const alpha = createApiToken({ scopes: ['learn'], storageDir: alphaDir });
+    createApiToken({ scopes: ['learn'], storageDir: betaDir });
+    serverInstance = await startHttpServer({ port: 0, logger: silentLogger, auth: 'required' });
+
+    const res = await callTool(baseUrl(serverInstance), alpha.token, 'vibe_learn', {
+      mistake: 'Skipped tests',
+      category: 'Premature Implementation',
+      solution: 'Run the suite first',
+    });
+    expect(res.status).toBe(200);
+    await res.json();
+
+    expect(fs.existsSync(path.join(alphaDir, 'vibe-log-alpha.json'))).toBe(true);
+    expect(fs.existsSync(path.join(betaDir, 'vibe-log-beta.json'))).toBe(false);
+  });
+
+  it('ignores tokens entirely when auth is disabled', async () => {
+    createApiToken({ scopes: ['read-only'], storageDir: tempHome });
+    serverInstance = await startHttpServer({ port: 0, logger: silentLogger, auth: 'none' });
+    const res = await callTool(baseUrl(serverInstance), undefined, 'check_constitution', { sessionId: 's' });
+    expect(res.status).toBe(200);
+  });
+});
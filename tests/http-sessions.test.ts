@@ -0,0 +1,182 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { HttpServerInstance, HttpServerOptions, LoggerLike } from '../src/index.js';
+import { HttpSessionRegistry } from '../src/utils/httpSessions.js';
+
+let tempHome: string;
+let originalHome: string | undefined;
+let startHttpServer: (options?: HttpServerOptions) => Promise<HttpServerInstance>;
+let buildMcpServer: typeof import('../src/index.js').buildMcpServer;
+
+const silentLogger: LoggerLike = {
+  log: vi.fn(),
+  error: vi.fn(),
+};
+
+const HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+beforeAll(async () => {
+  originalHome = process.env.HOME;
+  tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sessions-test-'));
+  process.env.HOME = tempHome;
+  ({ startHttpServer, buildMcpServer } = await import('../src/index.js'));
+});
+
+afterAll(() => {
+  process.env.HOME = originalHome;
+  fs.rmSync(tempHome, { recursive: true, force: true });
+});
+
+let serverInstance: HttpServerInstance | undefined;
+
+afterEach(async () => {
+  if (serverInstance) {
+    await serverInstance.close();
+  }
+  serverInstance = undefined;
+});
+
+function baseUrl(instance: HttpServerInstance): string {
+  const address = instance.listener.address();
+  const port = typeof address === 'object' && address ? address.port : 0;
+  return `http://127.0.0.1:${port}/mcp`;
+}
+
+async function initializeSession(url: string): Promise<string> {
+  const res = await fetch(url, { method: 'POST', headers: HEADERS, body: JSON.stringify(INITIALIZE) });
+  expect(res.status).toBe(200);
+  await res.text();
+  const sessionId = res.headers.get('mcp-session-id');
+  expect(sessionId).toBeTruthy();
+  await fetch(url, {
+    method: 'POST',
+    headers: { ...HEADERS, 'Mcp-Session-Id': sessionId! },
+    body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+  });
+  return sessionId!;
+}
+
+describe('stateful HTTP sessions', () => {
+  it('issues a session id and routes follow-up requests to it', async () => {
+    serverInstance = await startHttpServer({ port: 0, stateful: true, logger: silentLogger });
+    const url = baseUrl(serverInstance);
+    const sessionId = await initializeSession(url);
+    expect(serverInstance.sessions?.size).toBe(1);
+
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { ...HEADERS, 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('vibe_check');
+  });
+
+  it('rejects requests without a session and unknown sessions', async () => {
+    serverInstance = await startHttpServer({ port: 0, stateful: true, logger: silentLogger });
+    const url = baseUrl(serverInstance);
+
+    const missing = await fetch(url, {
+      method: 'POST',
+      headers: HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+    expect(missing.status).toBe(400);
+
+    const unknown = await fetch(url, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': 'nope' } });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('closes the session server and transport when initialize fails', async () => {
+    const closed: string[] = [];
+    serverInstance = await startHttpServer({
+      port: 0,
+      stateful: true,
+      logger: silentLogger,
+      createSessionServer: () => {
+        const server = buildMcpServer();
+        const connect = server.connect.bind(server);
+        server.connect = async (transport) => {
+          await connect(transport);
+          const streamable = transport as StreamableHTTPServerTransport;
+          const closeTransport = streamable.close.bind(streamable);
+          streamable.close = async () => {
+            closed.push('transport');
+            await closeTransport();
+          };
+          streamable.handleRequest = async () => {
+            throw new Error('initialize failed');
+          };
+        };
+        const closeServer = server.close.bind(server);
+        server.close = async () => {
+          closed.push('server');
+          await closeServer();
+        };
+        return server;
+      },
+    });
+
+    const res = await fetch(baseUrl(serverInstance), { method: 'POST', headers: HEADERS, body: JSON.stringify(INITIALIZE) });
+
+    expect(res.status).toBe(500);
+    expect(closed).toEqual(expect.arrayContaining(['server', 'transport']));
+    expect(serverInstance.sessions?.size).toBe(0);
+  });
+
+  it('opens a standalone SSE stream on GET and tears the session down on DELETE', async () => {
+    serverInstance = await startHttpServer({ port: 0, stateful: true, logger: silentLogger });
+    const url = baseUrl(serverInstance);
+    const sessionId = await initializeSession(url);
+
+    const controller = new AbortController();
+    const stream = await fetch(url, {
+      headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+      signal: controller.signal,
+    });
+    expect(stream.status).toBe(200);
+    expect(stream.headers.get('content-type')).toContain('text/event-stream');
+    controller.abort();
+
+    const deleted = await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(deleted.status).toBe(200);
+    expect(serverInstance.sessions?.size).toBe(0);
+
+    const after = await fetch(url, {
+      method: 'POST',
+      headers: { ...HEADERS, 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'tools/list', params: {} }),
+    });
+    expect(after.status).toBe(404);
+  });
+});
+
+describe('HttpSessionRegistry', () => {
+  it('evicts idle sessions without open streams', async () => {
+    const registry = new HttpSessionRegistry(1000);
+    const server = { close: vi.fn(async () => {}) } as any;
+    const busyServer = { close: vi.fn(async () => {}) } as any;
+    registry.add('idle', {} as any, server);
+    const busy = registry.add('busy', {} as any, busyServer);
+    registry.trackStream(busy, () => {});
+
+    const evicted = await registry.evictIdle(Date.now() + 5000);
+    expect(evicted).toEqual(['idle']);
+    expect(server.close).toHaveBeenCalledOnce();
+    expect(registry.ids()).toEqual(['busy']);
+  });
+});
@@ -1,13 +1,21 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { SUPPORTED_LLM_PROVIDERS } from '../src/index.js';
 import { generateResponse } from '../src/utils/llm.js';
+import { resetConstitution } from '../src/tools/constitution.js';
 
 const ORIGINAL_ENV = { ...process.env };
 const ORIGINAL_FETCH = global.fetch;
 
 describe('Anthropic provider', () => {
+  let storageDir: string;
+
   beforeEach(() => {
     process.env = { ...ORIGINAL_ENV };
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-anthropic-test-'));
+    process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
     delete process.env.ANTHROPIC_API_KEY;
     delete process.env.ANTHROPIC_AUTH_TOKEN;
     delete process.env.ANTHROPIC_BASE_URL;
@@ -23,6 +31,7 @@ describe('Anthropic provider', () => {
     }
     vi.restoreAllMocks();
     process.env = { ...ORIGINAL_ENV };
+    fs.rmSync(storageDir, { recursive: true, force: true });
   });
 
   it('is exposed via the tool schema enum', () => {
@@ -142,6 +151,8 @@ describe('Anthropic provider', () => {
 
   it('surfaces rate-limit errors with retry hints', async () => {
     process.env.ANTHROPIC_API_KEY = 'sk-ant-xxx';
+    // Fail on the first 429 instead of waiting out the 15 second Retry-After
+    process.env.LLM_RETRY_MAX_ATTEMPTS = '1';
 
     const fetchMock = vi.fn(async () =>
       new Response(
@@ -164,6 +175,76 @@ describe('Anthropic provider', () => {
 
     const [, options] = fetchMock.mock.calls[0];
     const body = JSON.parse((options as RequestInit).body as string);
-    expect(body.system).toContain('You are a meta-mentor');
+    expect(body.system[0].text).toContain('You are a meta-mentor');
+  });
+
+  it('caches the system prompt and constitution and reports cache tokens', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-xxx';
+    resetConstitution('anthropic-cache-session', ['Always write tests']);
+
+    const fetchMock = vi.fn(async () =>
+      new Response(
+        JSON.stringify({
+          content: [{ type: 'text', text: 'anthropic reply' }],
+          usage: { input_tokens: 100, output_tokens: 50, cache_read_input_tokens: 2000, cache_creation_input_tokens: 0 },
+        }),
+        { status: 200, headers: { 'content-type': 'application/json' } },
+      ),
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await generateResponse({
+      goal: 'Goal',
+      plan: 'Plan',
+      sessionId: 'anthropic-cache-session',
+      modelOverride: { provider: 'anthropic', model: 'claude-sonnet-4' },
+    });
+
+    const [, options] = fetchMock.mock.calls[0];
+    const body = JSON.parse((options as RequestInit).body as string);
+    expect(body.system).toHaveLength(2);
+    expect(body.system[0].cache_control).toBeUndefined();
+    expect(body.system[1]).toEqual({
+      type: 'text',
+      text: 'Constitution:\n- Always write tests',
+      cache_control: { type: 'ephemeral' },
+    });
+    // The variable part stays out of the cached prefix
+    expect(body.messages).toHaveLength(1);
+    expect(body.messages[0].content).toContain('Goal: Goal');
+    expect(body.messages[0].content).not.toContain('Always write tests');
+    // Cache reads cost a tenth of the $3 input price
+    expect(result.usage).toMatchObject({ inputTokens: 100, outputTokens: 50, cacheReadTokens: 2000 });
+    expect(result.usage?.cacheWriteTokens).toBeUndefined();
+    expect(result.usage?.costUsd).toBeCloseTo((100 * 3 + 2000 * 0.3 + 50 * 15) / 1_000_000);
+  });
+
+  it('sends the same constitution block whatever the length of the plan', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-xxx';
+    process.env.VIBE_CHECK_CONTEXT_BUDGET_TOKENS = '100';
+    const rules = [`Keep ${'a'.repeat(60)}`, `Avoid ${'b'.repeat(60)}`];
+    resetConstitution('anthropic-budget-session', rules);
+
+    const fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify({ content: [{ type: 'text', text: 'anthropic reply' }] }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      }),
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    for (const plan of ['Short plan', 'p'.repeat(4000)]) {
+      await generateResponse({
+        goal: 'Goal',
+        plan,
+        sessionId: 'anthropic-budget-session',
+        modelOverride: { provider: 'anthropic', model: 'claude-sonnet-4' },
+      });
+    }
+
+    const [short, long] = fetchMock.mock.calls.map(([, options]) => JSON.parse((options as RequestInit).body as string));
+    expect(long.system[1]).toEqual(short.system[1]);
+    expect(short.system[1].text).toBe(`Constitution:\n- ${rules[0]}\n- ${rules[1]}`);
+    expect(long.messages[0].content).toContain('[truncated');
   });
 });
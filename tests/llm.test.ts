@@ -1,12 +1,19 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import axios from 'axios';
-import { generateResponse, __testing } from '../src/utils/llm.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateResponse, getMetacognitiveQuestions, __testing } from '../src/utils/llm.js';
 
 vi.mock('axios');
 const mockedAxios = axios as unknown as { post: ReturnType<typeof vi.fn> };
 
+let storageDir: string;
+
 beforeEach(() => {
   vi.clearAllMocks();
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-llm-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
   __testing.setGenAI({
     getGenerativeModel: vi.fn(() => ({
       generateContent: vi.fn(async () => ({ response: { text: () => 'gemini reply' } }))
@@ -17,12 +24,21 @@ beforeEach(() => {
   });
 });
 
+afterEach(() => {
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
 describe('generateResponse', () => {
   it('uses gemini by default and builds prompt with context', async () => {
     const res = await generateResponse({ goal: 'G', plan: 'P', uncertainties: ['u1'], historySummary: 'Hist' });
     expect(res.questions).toBe('gemini reply');
     const gen = __testing.getGenAI();
-    expect(gen.getGenerativeModel).toHaveBeenCalledWith({ model: 'gemini-2.5-pro' });
+    expect(gen.getGenerativeModel).toHaveBeenCalledWith({
+      model: 'gemini-2.5-pro',
+      generationConfig: { responseMimeType: 'application/json' },
+      systemInstruction: expect.stringContaining('meta-mentor')
+    });
     const prompt = gen.getGenerativeModel.mock.results[0].value.generateContent.mock.calls[0][0];
     expect(prompt).toContain('History Context: Hist');
     expect(prompt).toContain('u1');
@@ -32,7 +48,46 @@ describe('generateResponse', () => {
     const openai = __testing.getOpenAIClient();
     const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'openai', model: 'o1-mini' } });
     expect(res.questions).toBe('openai reply');
-    expect(openai.chat.completions.create).toHaveBeenCalledWith({ model: 'o1-mini', messages: [{ role: 'system', content: expect.any(String) }] });
+    expect(openai.chat.completions.create).toHaveBeenCalledWith({
+      model: 'o1-mini',
+      messages: [
+        { role: 'system', content: expect.stringContaining('meta-mentor') },
+        { role: 'user', content: expect.stringContaining('Goal: g') }
+      ],
+      response_format: { type: 'json_object' }
+    }, { signal: expect.any(AbortSignal) });
+  });
+
+  it('returns structured analysis when the provider answers in JSON', async () => {
+    __testing.setOpenAIClient({
+      chat: {
+        completions: {
+          create: vi.fn(async () => ({
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({
+                    questions: 'Have you tested the rollback?',
+                    riskScore: 0.7,
+                    traits: ['Tunnel Vision'],
+                    ruleViolations: ['DEP-001'],
+                    recommendedActions: ['Write a rollback plan']
+                  })
+                }
+              }
+            ]
+          }))
+        }
+      }
+    });
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'openai' } });
+    expect(res.questions).toBe('Have you tested the rollback?');
+    expect(res.analysis).toEqual({
+      riskScore: 0.7,
+      traits: ['tunnel-vision'],
+      ruleViolations: ['DEP-001'],
+      recommendedActions: ['Write a rollback plan']
+    });
   });
 
   it('throws if openrouter key missing', async () => {
@@ -47,4 +102,66 @@ describe('generateResponse', () => {
     expect(mockedAxios.post).toHaveBeenCalled();
     delete process.env.OPENROUTER_API_KEY;
   });
+
+  it('asks the client to sample when the sampling provider is selected', async () => {
+    const sampling = {
+      createMessage: vi.fn(async () => ({ role: 'assistant', model: 'client-model', content: { type: 'text', text: 'sampled reply' } }))
+    };
+    const res = await generateResponse(
+      { goal: 'G', plan: 'P', modelOverride: { provider: 'sampling', model: 'claude-sonnet' } },
+      { sampling: sampling as any }
+    );
+    expect(res.questions).toBe('sampled reply');
+    const params = sampling.createMessage.mock.calls[0][0] as any;
+    expect(params.messages[0].content.text).toContain('Goal: G');
+    expect(params.systemPrompt).toContain('meta-mentor');
+    expect(params.maxTokens).toBe(1024);
+    expect(params.modelPreferences.hints).toEqual([{ name: 'claude-sonnet' }]);
+    expect(__testing.getGenAI().getGenerativeModel).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the configured provider when the client cannot sample', async () => {
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'sampling' } });
+    expect(res.questions).toBe('gemini reply');
+  });
+
+  it('falls back when the sampling request is rejected', async () => {
+    process.env.DEFAULT_LLM_PROVIDER = 'openai';
+    const sampling = { createMessage: vi.fn(async () => { throw new Error('User rejected sampling request'); }) };
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'sampling' } }, { sampling });
+    expect(res.questions).toBe('openai reply');
+    delete process.env.DEFAULT_LLM_PROVIDER;
+  });
+
+  it('reports progress for each stage', async () => {
+    const onProgress = vi.fn();
+    await generateResponse({ goal: 'g', plan: 'p', sessionId: 's1' }, { onProgress });
+    expect(onProgress.mock.calls.map(([message]) => message)).toEqual([
+      'Loading constitution rules',
+      'Calling gemini (gemini-2.5-pro)'
+    ]);
+  });
+
+  it('passes the abort signal to providers and skips fallback questions when cancelled', async () => {
+    const controller = new AbortController();
+    const create = vi.fn(async (_body: unknown, options: { signal: AbortSignal }) => {
+      controller.abort();
+      // Combined with the deadline timeout, so the caller's abort has to reach it
+      expect(options.signal.aborted).toBe(true);
+      throw Object.assign(new Error('Request was aborted.'), { name: 'APIUserAbortError' });
+    });
+    __testing.setOpenAIClient({ chat: { completions: { create } } });
+
+    await expect(
+      getMetacognitiveQuestions({ goal: 'g', plan: 'p', modelOverride: { provider: 'openai' } }, { signal: controller.signal })
+    ).rejects.toThrow('aborted');
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not try the gemini fallback model after cancellation', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(generateResponse({ goal: 'g', plan: 'p' }, { signal: controller.signal })).rejects.toThrow();
+    expect(__testing.getGenAI().getGenerativeModel).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,113 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+
+import { generateResponse, getMetacognitiveQuestions } from '../src/utils/llm.js';
+import { localProvider } from '../src/utils/providers/local.js';
+
+interface StubRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const requests: StubRequest[] = [];
+let delayMs = 0;
+let baseUrl: string;
+let stub: http.Server;
+let storageDir: string;
+
+// A tiny /v1/chat/completions server standing in for Ollama, LM Studio or vLLM
+beforeAll(async () => {
+  stub = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw);
+      requests.push({ url: req.url, headers: req.headers, body });
+      setTimeout(() => {
+        if (res.destroyed) return;
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ model: body.model, choices: [{ message: { role: 'assistant', content: 'local reply' } }] }));
+      }, delayMs);
+    });
+  });
+  await new Promise<void>((resolve) => stub.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  stub.closeAllConnections();
+  await new Promise((resolve) => stub.close(resolve));
+});
+
+beforeEach(() => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-local-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+});
+
+afterEach(() => {
+  requests.length = 0;
+  delayMs = 0;
+  for (const key of ['LOCAL_LLM_BASE_URL', 'LOCAL_LLM_API_KEY', 'LOCAL_LLM_MODEL', 'LOCAL_LLM_TIMEOUT_MS', 'VIBE_CHECK_STORAGE_DIR']) {
+    delete process.env[key];
+  }
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('local provider', () => {
+  it('posts system and user messages to the configured server', async () => {
+    process.env.LOCAL_LLM_BASE_URL = `${baseUrl}/`;
+    process.env.LOCAL_LLM_MODEL = 'llama3.1:8b';
+
+    const res = await generateResponse({ goal: 'G', plan: 'P', modelOverride: { provider: 'local' } });
+
+    expect(res.questions).toBe('local reply');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body).toMatchObject({ model: 'llama3.1:8b', stream: false });
+    expect(requests[0].body.messages.map((message: any) => message.role)).toEqual(['system', 'user']);
+    expect(requests[0].body.messages[1].content).toContain('Goal: G');
+  });
+
+  it('sends the optional key and honours a model override', async () => {
+    process.env.LOCAL_LLM_BASE_URL = baseUrl;
+    process.env.LOCAL_LLM_API_KEY = 'local-secret';
+    process.env.LOCAL_LLM_MODEL = 'default-model';
+
+    await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'local', model: 'qwen2.5-coder' } });
+
+    expect(requests[0].headers.authorization).toBe('Bearer local-secret');
+    expect(requests[0].body.model).toBe('qwen2.5-coder');
+  });
+
+  it('times out slow servers and serves fallback questions instead of a remote provider', async () => {
+    process.env.LOCAL_LLM_BASE_URL = baseUrl;
+    process.env.LOCAL_LLM_MODEL = 'slow';
+    process.env.LOCAL_LLM_TIMEOUT_MS = '50';
+    delayMs = 500;
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'local' } })).rejects.toThrow(
+      'Local model request timed out after 50ms'
+    );
+    const res = await getMetacognitiveQuestions({ goal: 'g', plan: 'p', modelOverride: { provider: 'local' } });
+    expect(res.questions).toContain('Does this plan directly address what the user requested');
+    errorSpy.mockRestore();
+  });
+
+  it('reports its configuration in the health check', async () => {
+    expect(await localProvider.healthCheck()).toEqual({ ok: false, detail: 'LOCAL_LLM_BASE_URL not set' });
+    process.env.LOCAL_LLM_BASE_URL = 'localhost:11434';
+    expect((await localProvider.healthCheck()).ok).toBe(false);
+    process.env.LOCAL_LLM_BASE_URL = baseUrl;
+    expect(await localProvider.healthCheck()).toEqual({ ok: false, detail: 'LOCAL_LLM_MODEL not set' });
+    process.env.LOCAL_LLM_MODEL = 'llama3.1:8b';
+    expect((await localProvider.healthCheck()).ok).toBe(true);
+    expect(localProvider.isConfigured()).toBe(true);
+  });
+});
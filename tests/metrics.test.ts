@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { HttpServerInstance, HttpServerOptions, LoggerLike } from '../src/index.js';
+import { Counter, Histogram, METRICS_CONTENT_TYPE, __testing, llmRequests, llmTokens, toolCalls } from '../src/utils/metrics.js';
+import { ToolRegistry } from '../src/tools/registry.js';
+import { providerRegistry } from '../src/utils/providers/index.js';
+import { generateResponse } from '../src/utils/llm.js';
+import { metricsModelLabel } from '../src/utils/usage.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+import { toolContext } from './helpers/toolContext.js';
+
+let tempHome: string;
+let originalHome: string | undefined;
+let startHttpServer: (options?: HttpServerOptions) => Promise<HttpServerInstance>;
+
+const silentLogger: LoggerLike = {
+  log: vi.fn(),
+  error: vi.fn(),
+};
+
+beforeAll(async () => {
+  originalHome = process.env.HOME;
+  tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-metrics-test-'));
+  process.env.HOME = tempHome;
+  ({ startHttpServer } = await import('../src/index.js'));
+});
+
+afterAll(() => {
+  process.env.HOME = originalHome;
+  fs.rmSync(tempHome, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  __testing.reset();
+});
+
+describe('metric types', () => {
+  it('renders counters with escaped labels', () => {
+    const counter = new Counter('demo_total', 'Demo counter');
+    counter.inc({ tool: 'a"b' });
+    counter.inc({ tool: 'a"b' }, 2);
+    expect(counter.get({ tool: 'a"b' })).toBe(3);
+    expect(counter.render()).toEqual(['demo_total{tool="a\\"b"} 3']);
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const histogram = new Histogram('demo_seconds', 'Demo histogram', [0.1, 1]);
+    histogram.observe({ tool: 'x' }, 0.05);
+    histogram.observe({ tool: 'x' }, 0.5);
+    histogram.observe({ tool: 'x' }, 5);
+    expect(histogram.render()).toEqual([
+      'demo_seconds_bucket{tool="x",le="0.1"} 1',
+      'demo_seconds_bucket{tool="x",le="1"} 2',
+      'demo_seconds_bucket{tool="x",le="+Inf"} 3',
+      'demo_seconds_sum{tool="x"} 5.55',
+      'demo_seconds_count{tool="x"} 3',
+    ]);
+  });
+});
+
+describe('tool call instrumentation', () => {
+  it('counts outcomes per tool', async () => {
+    const registry = new ToolRegistry([
+      {
+        name: 'flaky',
+        description: 'Fails on demand',
+        example: {},
+        inputSchema: { type: 'object', properties: { fail: { type: 'boolean' } } },
+        handler: ({ fail }) => {
+          if (fail) throw new Error('boom');
+          return { content: [] };
+        },
+      },
+    ]);
+    const context = toolContext();
+
+    await registry.call('flaky', {}, context);
+    await expect(registry.call('flaky', { fail: true }, context)).rejects.toThrow('boom');
+
+    expect(toolCalls.get({ tool: 'flaky', status: 'ok' })).toBe(1);
+    expect(toolCalls.get({ tool: 'flaky', status: 'error' })).toBe(1);
+  });
+});
+
+describe('LLM model labels', () => {
+  it('counts models the server does not know as other', async () => {
+    providerRegistry.register(fakeProvider({ id: 'metrics-fake' }));
+
+    await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'metrics-fake', model: 'made-up-7f3a' }, fallbackChain: [] });
+
+    expect(llmRequests.get({ provider: 'metrics-fake', model: 'other', status: 'ok' })).toBe(1);
+    expect(llmTokens.get({ provider: 'metrics-fake', model: 'other', direction: 'input' })).toBeGreaterThan(0);
+    expect(llmRequests.render().join('\n')).not.toContain('made-up-7f3a');
+    expect(metricsModelLabel('metrics-fake', 'fake-large')).toBe('fake-large');
+    expect(metricsModelLabel('openai', 'gpt-4o-2024-08-06')).toBe('gpt-4o');
+    expect(metricsModelLabel('local', 'llama3')).toBe('other');
+  });
+});
+
+describe('/metrics endpoint', () => {
+  it('serves Prometheus text with tool and gauge metrics', async () => {
+    const serverInstance = await startHttpServer({ port: 0, logger: silentLogger });
+    try {
+      const address = serverInstance.listener.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+
+      const call = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'tools/call',
+          params: { name: 'check_constitution', arguments: { sessionId: 'metrics' } },
+        }),
+      });
+      expect(call.status).toBe(200);
+
+      const res = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toBe(METRICS_CONTENT_TYPE);
+      const body = await res.text();
+      expect(body).toContain('# TYPE vibe_check_tool_calls_total counter');
+      expect(body).toContain('vibe_check_tool_calls_total{tool="check_constitution",status="ok"} 1');
+      expect(body).toContain('vibe_check_tool_duration_seconds_count{tool="check_constitution"} 1');
+      expect(body).toContain('# TYPE vibe_check_constitution_sessions gauge');
+      expect(body).toMatch(/^vibe_check_learning_entries \d+$/m);
+    } finally {
+      await serverInstance.close();
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { LLMProvider, providerRegistry } from '../src/utils/providers/index.js';
+import { generateResponse, __testing } from '../src/utils/llm.js';
+import { vibeCheckTool } from '../src/tools/vibeCheck.js';
+import { resolveModelSelection } from '../src/utils/modelProfiles.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+const ORIGINAL_FETCH = global.fetch;
+
+const generate = vi.fn<LLMProvider['generate']>(async (_messages, { model }) => ({ text: 'reply', model }));
+const backup = vi.fn<LLMProvider['generate']>(async () => ({ text: 'backup reply' }));
+
+const profiles = {
+  fast: { provider: 'profile-stub', model: 'small', temperature: 0, maxTokens: 256, timeoutMs: 50 },
+  deep: { provider: 'profile-stub', model: 'large', reasoningEffort: 'high', maxTokens: 2048 },
+  broken: { provider: 'nope', temperature: 7, model: 'm' },
+};
+
+let storageDir: string;
+
+function writeConfig(config: unknown) {
+  fs.writeFileSync(path.join(storageDir, 'vibe-check.config.json'), JSON.stringify(config));
+}
+
+beforeAll(() => {
+  providerRegistry.register(fakeProvider({ id: 'profile-stub', label: 'profile-stub', defaultModel: 'profile-stub-model', generate }));
+  providerRegistry.register(fakeProvider({ id: 'profile-backup', defaultModel: 'profile-backup-model', generate: backup }));
+});
+
+beforeEach(() => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-profiles-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  process.env.LLM_RETRY_MAX_ATTEMPTS = '1';
+  writeConfig({ profiles, providers: { 'profile-backup': { model: 'backup-large', temperature: 0.5 } } });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  global.fetch = ORIGINAL_FETCH;
+  vi.restoreAllMocks();
+  generate.mockClear();
+  backup.mockClear();
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  delete process.env.LLM_RETRY_MAX_ATTEMPTS;
+  delete process.env.DEFAULT_LLM_PROVIDER;
+  delete process.env.DEFAULT_MODEL;
+  delete process.env.ANTHROPIC_API_KEY;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('resolveModelSelection', () => {
+  it('takes provider, model and settings from the profile, with explicit fields winning', () => {
+    expect(resolveModelSelection({ profile: 'deep' })).toEqual({
+      provider: 'profile-stub',
+      model: 'large',
+      params: { reasoningEffort: 'high', maxTokens: 2048 },
+      profile: 'deep',
+    });
+    expect(resolveModelSelection({ profile: 'deep', model: 'medium' }).model).toBe('medium');
+    // The profile's model belongs to its provider
+    expect(resolveModelSelection({ profile: 'deep', provider: 'profile-backup' })).toMatchObject({
+      provider: 'profile-backup',
+      model: 'backup-large',
+      params: { temperature: 0.5, reasoningEffort: 'high', maxTokens: 2048 },
+    });
+  });
+
+  it('ignores invalid settings and rejects unknown profiles', () => {
+    expect(resolveModelSelection({ profile: 'broken' })).toMatchObject({ provider: 'gemini', params: {} });
+    expect(() => resolveModelSelection({ profile: 'slow' })).toThrow('Unknown model profile: slow. Available: fast, deep, broken');
+  });
+
+  it('applies DEFAULT_MODEL to the default provider only', () => {
+    process.env.DEFAULT_LLM_PROVIDER = 'profile-stub';
+    process.env.DEFAULT_MODEL = 'pinned';
+    expect(resolveModelSelection().model).toBe('pinned');
+    expect(resolveModelSelection({ provider: 'openai' }).model).toBe('o4-mini');
+  });
+});
+
+describe('profiles in calls', () => {
+  it('passes the profile settings to the provider and the project defaults to fallbacks', async () => {
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { profile: 'deep' }, fallbackChain: [{ provider: 'profile-backup' }] });
+
+    expect(generate.mock.calls[0][1]).toMatchObject({ model: 'large', reasoningEffort: 'high', maxTokens: 2048 });
+    expect(res).toMatchObject({ provider: 'profile-stub', model: 'large', profile: 'deep' });
+
+    generate.mockRejectedValueOnce(new Error('down'));
+    await generateResponse({ goal: 'g', plan: 'p', modelOverride: { profile: 'fast' }, fallbackChain: [{ provider: 'profile-backup' }] });
+    const [, options] = backup.mock.calls[0];
+    expect(options).toMatchObject({ model: 'backup-large', temperature: 0.5 });
+    expect(options.maxTokens).toBeUndefined();
+  });
+
+  it('times out an attempt after the profile timeout', async () => {
+    generate.mockImplementationOnce(() => new Promise(() => {}));
+    await expect(
+      generateResponse({ goal: 'g', plan: 'p', modelOverride: { profile: 'fast' }, fallbackChain: [] })
+    ).rejects.toThrow('profile-stub (small) timed out after 50ms.');
+  });
+
+  it('rejects unknown profiles as invalid params', async () => {
+    await expect(vibeCheckTool({ goal: 'g', plan: 'p', modelOverride: { profile: 'slow' } })).rejects.toThrow(/Unknown model profile: slow/);
+  });
+});
+
+describe('provider settings', () => {
+  it('turns reasoning effort into Anthropic extended thinking', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-xxx';
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      content: [{ type: 'thinking', thinking: '...' }, { type: 'text', text: 'reply' }],
+    })));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    writeConfig({ profiles: { deep: { provider: 'anthropic', model: 'claude-sonnet-4', reasoningEffort: 'medium', maxTokens: 800 } } });
+
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { profile: 'deep' }, fallbackChain: [] });
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body).toMatchObject({ model: 'claude-sonnet-4', max_tokens: 4896, thinking: { type: 'enabled', budget_tokens: 4096 } });
+    expect(body.temperature).toBeUndefined();
+    expect(res.questions).toBe('reply');
+  });
+
+  it('sends OpenAI and Gemini their own parameter names', async () => {
+    const create = vi.fn(async () => ({ choices: [{ message: { content: 'reply' } }] }));
+    __testing.setOpenAIClient({ chat: { completions: { create } } });
+    const getGenerativeModel = vi.fn(() => ({ generateContent: async () => ({ response: { text: () => 'reply' } }) }));
+    __testing.setGenAI({ getGenerativeModel });
+    writeConfig({
+      profiles: {
+        cheap: { provider: 'openai', model: 'o4-mini', reasoningEffort: 'low', maxTokens: 500 },
+        deep: { provider: 'gemini', temperature: 0.3, reasoningEffort: 'high' },
+      },
+    });
+
+    await generateResponse({ goal: 'g', plan: 'p', modelOverride: { profile: 'cheap' }, fallbackChain: [] });
+    await generateResponse({ goal: 'g', plan: 'p', modelOverride: { profile: 'deep' }, fallbackChain: [] });
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ reasoning_effort: 'low', max_completion_tokens: 500 }), expect.anything());
+    expect(getGenerativeModel).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'gemini-2.5-pro',
+      generationConfig: { responseMimeType: 'application/json', temperature: 0.3, thinkingConfig: { thinkingBudget: 24576 } },
+    }));
+  });
+});
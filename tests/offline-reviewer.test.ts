@@ -0,0 +1,118 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { providerRegistry } from '../src/utils/providers/index.js';
+import { getMetacognitiveQuestions } from '../src/utils/llm.js';
+import { resetConstitution } from '../src/tools/constitution.js';
+import { addLearningEntry } from '../src/utils/storage.js';
+import { parseRule, reviewOffline } from '../src/utils/offlineReviewer.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+const failing = fakeProvider({
+  id: 'offline-stub',
+  label: 'Offline stub',
+  defaultModel: 'stub-model',
+  generate: async () => {
+    throw new Error('connect ECONNREFUSED');
+  },
+});
+
+const VITEST_RULE = "🚨 [testing] vitest-only VITEST-ONLY Testing Framework: CRITICAL: Always use Vitest for ALL testing (NEVER Jest) | Rationale: ESM support | Examples: Use: vi.fn() for mocks; NEVER: jest.fn() or jest.mock()";
+const DB_RULE = 'ℹ️ [database] pg-pool Database with pg.Pool: Use pg.Pool for PostgreSQL connections';
+
+let storageDir: string;
+
+beforeAll(() => {
+  providerRegistry.register(failing);
+});
+
+beforeEach(() => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-offline-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('parseRule', () => {
+  it('splits constitution strings and keeps free-text rules whole', () => {
+    expect(parseRule(VITEST_RULE)).toMatchObject({
+      id: 'vitest-only',
+      name: 'VITEST-ONLY Testing Framework',
+      severity: 'CRITICAL',
+      examples: ['Use: vi.fn() for mocks', 'NEVER: jest.fn() or jest.mock()'],
+    });
+    expect(parseRule('Never push on Fridays')).toEqual({ text: 'Never push on Fridays', examples: [] });
+  });
+});
+
+describe('reviewOffline', () => {
+  it('flags NEVER phrases, related rules and missing tests', () => {
+    const sessionId = 'shop-feature-SHOP-1-20260301-a1b2c3d4';
+    resetConstitution(sessionId, [VITEST_RULE, DB_RULE, 'Never push on Fridays']);
+
+    const review = reviewOffline({ goal: 'Add order export', plan: 'Mock the PostgreSQL pool with jest.fn and push on Fridays', sessionId });
+
+    expect(review.questions.split('\n')).toEqual([
+      '1. The plan mentions "Jest", which vitest-only (VITEST-ONLY Testing Framework) forbids. How will you change the plan to comply?',
+      '2. The plan mentions "push on Fridays", which "Never push on Fridays" forbids. How will you change the plan to comply?',
+      '3. pg-pool (Database with pg.Pool) applies here: Use pg.Pool for PostgreSQL connections. How does the plan satisfy it?',
+      '4. This is feature work, but the plan never mentions tests. Which tests will show the change works?',
+      '5. Does this plan directly address what the user requested, or might it be solving a different problem?',
+    ]);
+    expect(review.analysis).toEqual({
+      riskScore: 0.65,
+      traits: ['missing-tests'],
+      ruleViolations: ['vitest-only', 'Never push on Fridays'],
+      recommendedActions: [
+        'Rework the plan to follow vitest-only',
+        'Rework the plan to follow the constitution',
+        'Add the tests that cover this change to the plan',
+      ],
+    });
+  });
+
+  it('asks for a rollback step and points to similar learnings', () => {
+    addLearningEntry('Ran the orders migration without a backup', 'Premature Implementation', 'Took a snapshot first');
+    addLearningEntry('Skipped code review', 'Feature Creep');
+
+    const review = reviewOffline({
+      goal: 'Rename the orders column',
+      plan: 'Write and run the orders migration',
+      userPrompt: 'rename status',
+      uncertainties: ['Is the table locked during the rename?'],
+      sessionId: 'shop-migration-adhoc-20260301-a1b2c3d4',
+    });
+
+    expect(review.questions).toContain('1. The plan has no rollback step. How will you undo the migration if it goes wrong?');
+    expect(review.questions).toContain(
+      '2. A recent mistake in Premature Implementation looks similar: "Ran the orders migration without a backup" (fixed by: Took a snapshot first). How does this plan avoid repeating it?'
+    );
+    expect(review.questions).toContain('3. You are unsure about "Is the table locked during the rename?"');
+    expect(review.questions).toContain('4. The user asked: "rename status". Does this plan directly address');
+    expect(review.questions).not.toContain('code review');
+    expect(review.analysis).toMatchObject({ riskScore: 0.35, traits: ['missing-rollback'] });
+  });
+});
+
+describe('degraded answers', () => {
+  it('serves the offline review with the reason when every provider fails', async () => {
+    const res = await getMetacognitiveQuestions({
+      goal: 'Deploy the API',
+      plan: 'Deploy straight to production',
+      modelOverride: { provider: 'offline-stub' },
+      fallbackChain: [],
+    });
+
+    expect(res).toMatchObject({ degraded: true, degradedReason: expect.stringContaining('ECONNREFUSED') });
+    expect(res.provider).toBeUndefined();
+    expect(res.analysis?.traits).toEqual(['missing-rollback']);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { createProgressReporter } from '../src/utils/progress.js';
+
+let tempHome: string;
+let originalHome: string | undefined;
+let buildMcpServer: typeof import('../src/index.js').buildMcpServer;
+
+beforeAll(async () => {
+  originalHome = process.env.HOME;
+  tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-progress-test-'));
+  process.env.HOME = tempHome;
+  fs.mkdirSync(path.join(tempHome, '.vibe-check'));
+  ({ buildMcpServer } = await import('../src/index.js'));
+});
+
+afterAll(() => {
+  process.env.HOME = originalHome;
+  fs.rmSync(tempHome, { recursive: true, force: true });
+});
+
+async function connectSamplingClient(onSample: () => Promise<unknown>) {
+  const server = buildMcpServer();
+  const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: { sampling: {} } });
+  client.setRequestHandler(CreateMessageRequestSchema, onSample as any);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('progress notifications', () => {
+  it('does nothing without a progress token', () => {
+    expect(createProgressReporter(undefined, vi.fn())).toBeUndefined();
+  });
+
+  it('numbers stages monotonically', () => {
+    const send = vi.fn(async () => {});
+    const report = createProgressReporter('tok', send)!;
+    report('one');
+    report('two');
+    expect(send.mock.calls.map(([n]: any[]) => n.params)).toEqual([
+      { progressToken: 'tok', progress: 1, message: 'one' },
+      { progressToken: 'tok', progress: 2, message: 'two' }
+    ]);
+  });
+
+  it('streams vibe_check stages to the client', async () => {
+    const client = await connectSamplingClient(async () => ({
+      role: 'assistant',
+      model: 'ide-model',
+      content: { type: 'text', text: 'Looks fine.' }
+    }));
+    const onprogress = vi.fn();
+
+    await client.callTool(
+      { name: 'vibe_check', arguments: { goal: 'g', plan: 'p', modelOverride: { provider: 'sampling' } } },
+      undefined,
+      { onprogress }
+    );
+
+    expect(onprogress.mock.calls.map(([p]) => p.message)).toEqual([
+      'Looking up session history',
+      'Loading constitution rules',
+      'Requesting sampling from client'
+    ]);
+    await client.close();
+  });
+
+  it('cancels an in-flight vibe_check without recording history', async () => {
+    const controller = new AbortController();
+    const client = await connectSamplingClient(async () => {
+      controller.abort();
+      return new Promise(() => {});
+    });
+
+    await expect(
+      client.callTool(
+        { name: 'vibe_check', arguments: { goal: 'g', plan: 'p', sessionId: 'cancelled', modelOverride: { provider: 'sampling' }, noCache: true } },
+        undefined,
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow();
+
+    const historyFiles = fs.readdirSync(path.join(tempHome, '.vibe-check')).filter((file) => file.startsWith('history-'));
+    for (const file of historyFiles) {
+      expect(JSON.parse(fs.readFileSync(path.join(tempHome, '.vibe-check', file), 'utf8'))).not.toHaveProperty('cancelled');
+    }
+    await client.close();
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { LLMProvider, providerRegistry } from '../src/utils/providers/index.js';
+import { generateResponse } from '../src/utils/llm.js';
+import { vibeCheckTool } from '../src/tools/vibeCheck.js';
+import { resetConstitution } from '../src/tools/constitution.js';
+import { getHistoryFile, getSessionHistory, loadHistory } from '../src/utils/state.js';
+import { resolvePersona } from '../src/utils/promptTemplates.js';
+import { createCliProgram } from '../src/cli/index.js';
+import { formatPromptPreview, previewPrompt, PromptPreview } from '../src/utils/mentorPrompt.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+const generate = vi.fn<LLMProvider['generate']>(async () => ({ text: 'reply' }));
+
+const stub = fakeProvider({ id: 'preview-stub', label: 'Preview stub', defaultModel: 'gpt-4o', generate });
+
+const sessionId = 'shop-feature-SHOP-9-20260301-a1b2c3d4';
+const input = { goal: 'Add order export', plan: 'Stream rows to CSV', sessionId, modelOverride: { provider: 'preview-stub' } };
+
+let storageDir: string;
+
+beforeAll(() => {
+  providerRegistry.register(stub);
+});
+
+beforeEach(async () => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-preview-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  fs.writeFileSync(getHistoryFile(), JSON.stringify({
+    [sessionId]: [{ input: { goal: 'Add order import', plan: 'Parse CSV' }, output: 'Validate the header row first', timestamp: 1 }],
+  }));
+  await loadHistory();
+  resetConstitution(sessionId, ['🚨 [data] DB-001 Never drop columns without a backup']);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  generate.mockClear();
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('previewPrompt', () => {
+  it('compiles the same messages generateResponse sends', async () => {
+    await generateResponse({ ...input, historySummary: 'History Context:\nInteraction 1: Goal x' });
+    const preview = previewPrompt({ ...input, historySummary: 'History Context:\nInteraction 1: Goal x' });
+
+    expect(preview.messages).toEqual(generate.mock.calls[0][0]);
+    expect(preview).toMatchObject({
+      provider: 'preview-stub',
+      model: 'gpt-4o',
+      persona: 'mentor',
+      constitution: 'Constitution:\n- 🚨 [data] DB-001 Never drop columns without a backup',
+      historySummary: 'History Context:\nInteraction 1: Goal x',
+    });
+    // 4 characters per token for OpenAI-style model names
+    expect(preview.tokens.find(({ section }) => section === 'goal')).toEqual({ section: 'goal', tokens: 4 });
+    expect(preview.totalTokens).toBeGreaterThan(preview.tokens.find(({ section }) => section === 'system')!.tokens);
+  });
+});
+
+describe('vibe_check dryRun', () => {
+  it('returns the compiled prompt without calling a provider or recording anything', async () => {
+    const result = await vibeCheckTool({ ...input, persona: 'strict-reviewer', dryRun: true });
+
+    expect(generate).not.toHaveBeenCalled();
+    expect(result.preview?.historySummary).toContain('Interaction 1: Goal Add order import');
+    expect(result.preview?.context).toContain('Plan: Stream rows to CSV');
+    expect(result.preview?.persona).toBe('strict-reviewer');
+    expect(getSessionHistory(sessionId)).toHaveLength(1);
+    expect(resolvePersona(sessionId)).toBe('mentor');
+    expect(formatPromptPreview(result.preview!)).toContain('=== user ===\nCONTEXT:\n');
+  });
+});
+
+describe('prompt preview command', () => {
+  it('prints the preview for a session as JSON', async () => {
+    await createCliProgram().parseAsync([
+      'node', 'vibe-check-mcp', 'prompt', 'preview', '--goal', 'Add order export', '--plan', 'Stream rows to CSV',
+      '--session', sessionId, '--uncertainty', 'encoding', '--uncertainty', 'size', '--provider', 'preview-stub',
+      '--storage-dir', storageDir, '--json',
+    ]);
+
+    const preview: PromptPreview = JSON.parse(String(vi.mocked(console.log).mock.calls.at(-1)?.[0]));
+    expect(preview.constitution).toContain('DB-001');
+    expect(preview.historySummary).toContain('Validate the header row first');
+    expect(preview.context).toContain('Uncertainties: encoding, size');
+    expect(generate).not.toHaveBeenCalled();
+    expect(process.exitCode).toBeUndefined();
+  });
+});
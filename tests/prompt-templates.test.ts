@@ -0,0 +1,131 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { providerRegistry } from '../src/utils/providers/index.js';
+import { generateResponse } from '../src/utils/llm.js';
+import { vibeCheckTool } from '../src/tools/vibeCheck.js';
+import { resetConstitution } from '../src/tools/constitution.js';
+import {
+  __testing,
+  BUILTIN_PERSONAS,
+  listPersonas,
+  renderSystemPrompt,
+  resolvePersona,
+  setSessionPersona,
+} from '../src/utils/promptTemplates.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+const generate = vi.fn(async () => ({ text: 'reply' }));
+
+const promptStub = fakeProvider({ id: 'prompt-stub', label: 'Prompt stub', defaultModel: 'stub-model', generate });
+
+const variables = { persona: 'mentor', projectName: 'shop', workType: 'feature', constitution: ['No force pushes'] };
+
+let storageDir: string;
+
+function writePromptFile(relative: string, text: string, mtimeSeconds?: number) {
+  const file = path.join(storageDir, 'prompts', relative);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, text);
+  if (mtimeSeconds) {
+    fs.utimesSync(file, mtimeSeconds, mtimeSeconds);
+  }
+}
+
+function sentSystemPrompt(): string {
+  const [messages] = generate.mock.calls.at(-1) as unknown as [Array<{ role: string; content: string }>];
+  return messages[0].content;
+}
+
+beforeAll(() => {
+  providerRegistry.register(promptStub);
+});
+
+beforeEach(() => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-prompts-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  generate.mockClear();
+  __testing.reset();
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('system prompt templates', () => {
+  it('renders the built-in meta-mentor template with the selected persona', () => {
+    const prompt = renderSystemPrompt(variables);
+    expect(prompt).toMatch(/^You are a meta-mentor\./);
+    expect(prompt).toContain(BUILTIN_PERSONAS.mentor);
+    expect(prompt).not.toContain('{{');
+
+    const strict = renderSystemPrompt({ ...variables, persona: 'strict-reviewer' });
+    expect(strict).toContain(BUILTIN_PERSONAS['strict-reviewer']);
+    expect(strict).not.toContain(BUILTIN_PERSONAS.mentor);
+  });
+
+  it('uses the project template and picks up edits without a restart', () => {
+    writePromptFile('system.md', 'Review {{projectName}} ({{workType}}). {{persona}}\nRules:\n{{constitution}}\n{{unknown}}', 1_000);
+    expect(renderSystemPrompt({ ...variables, persona: 'gentle-coach' })).toBe(
+      `Review shop (feature). ${BUILTIN_PERSONAS['gentle-coach']}\nRules:\n- No force pushes\n{{unknown}}`
+    );
+
+    writePromptFile('system.md', 'Edited for {{projectName}}', 2_000);
+    expect(renderSystemPrompt(variables)).toBe('Edited for shop');
+  });
+
+  it('sends the rules once when the template places {{constitution}}', async () => {
+    writePromptFile('system.md', 'Review {{projectName}}.\nRules:\n{{constitution}}');
+    resetConstitution('rules-once', ['No force pushes']);
+
+    await generateResponse({ goal: 'g', plan: 'p', sessionId: 'rules-once', modelOverride: { provider: 'prompt-stub' } });
+
+    const [messages] = generate.mock.calls.at(-1) as unknown as [Array<{ role: string; content: string }>];
+    expect(messages.map(({ role }) => role)).toEqual(['system', 'user']);
+    expect(messages.map(({ content }) => content).join('\n').split('No force pushes')).toHaveLength(2);
+    expect(sentSystemPrompt()).toContain('Rules:\n- No force pushes');
+  });
+
+  it('lets a project add or override personas', () => {
+    writePromptFile('personas/infra-hardliner.md', 'Assume every change breaks production.');
+    writePromptFile('personas/gentle-coach.md', 'Project coach.');
+
+    expect(listPersonas()).toEqual(expect.arrayContaining(['mentor', 'security-auditor', 'infra-hardliner']));
+    expect(renderSystemPrompt({ ...variables, persona: 'infra-hardliner' })).toContain('Assume every change breaks production.');
+    expect(renderSystemPrompt({ ...variables, persona: 'gentle-coach' })).toContain('Project coach.');
+  });
+});
+
+describe('persona selection', () => {
+  it('prefers the call, then the session, then the project config', () => {
+    expect(resolvePersona('s1')).toBe('mentor');
+
+    fs.writeFileSync(path.join(storageDir, 'vibe-check.config.json'), JSON.stringify({ persona: 'security-auditor' }));
+    expect(resolvePersona('s1')).toBe('security-auditor');
+
+    setSessionPersona('s1', 'gentle-coach');
+    expect(resolvePersona('s1')).toBe('gentle-coach');
+    expect(resolvePersona('s1', 'strict-reviewer')).toBe('strict-reviewer');
+    expect(resolvePersona('s2')).toBe('security-auditor');
+  });
+
+  it('sends the session persona and fills workType from the session ID', async () => {
+    writePromptFile('system.md', '{{workType}}: {{persona}}');
+    const sessionId = 'shop-deployment-adhoc-20251103-a1b2c3d4';
+
+    await vibeCheckTool({ goal: 'g', plan: 'p', sessionId, persona: 'security-auditor', modelOverride: { provider: 'prompt-stub' } });
+    await generateResponse({ goal: 'g2', plan: 'p2', sessionId, modelOverride: { provider: 'prompt-stub' } });
+
+    expect(sentSystemPrompt()).toMatch(new RegExp(`^deployment: ${BUILTIN_PERSONAS['security-auditor']}`));
+  });
+
+  it('rejects unknown personas', async () => {
+    await expect(vibeCheckTool({ goal: 'g', plan: 'p', persona: 'pirate' })).rejects.toThrow(/Unknown persona: pirate/);
+  });
+});
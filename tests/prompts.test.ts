@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const ORIGINAL_ENV = { ...process.env };
+let tempDir: string;
+
+async function loadPrompts() {
+  vi.resetModules();
+  const prompts = await import('../src/prompts/workflowPrompts.js');
+  const storage = await import('../src/utils/storage.js');
+  return { prompts, storage };
+}
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-prompts-test-'));
+  process.env = { ...ORIGINAL_ENV, VIBE_CHECK_STORAGE_DIR: tempDir };
+  delete process.env.VIBE_CHECK_RULES_FILE;
+  fs.writeFileSync(
+    path.join(tempDir, 'constitutional-rules.json'),
+    JSON.stringify({
+      version: '1.0.0',
+      rules: {
+        'SEC-001': {
+          id: 'SEC-001',
+          name: 'No secrets in code',
+          description: 'NEVER commit credentials',
+          category: 'security',
+          severity: 'CRITICAL',
+          enabled: true
+        }
+      }
+    })
+  );
+});
+
+afterEach(() => {
+  process.env = { ...ORIGINAL_ENV };
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('workflow prompts', () => {
+  it('lists the built-in prompts with typed arguments', async () => {
+    const { prompts } = await loadPrompts();
+    const listed = prompts.listWorkflowPrompts();
+    expect(listed.map((prompt) => prompt.name)).toEqual([
+      'pre-implementation-review',
+      'mid-task-course-check',
+      'post-mortem',
+      'work-type-kickoff'
+    ]);
+    const review = listed[0];
+    expect(review.arguments).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'goal', required: true }),
+        expect.objectContaining({ name: 'sessionId', required: false })
+      ])
+    );
+  });
+
+  it('embeds the constitution and learnings', async () => {
+    const { prompts, storage } = await loadPrompts();
+    storage.addLearningEntry('Skipped tests', 'Feature Creep', 'Added tests', 'mistake');
+
+    const result = prompts.getWorkflowPrompt('pre-implementation-review', { goal: 'Ship auth', plan: '1) code 2) deploy' });
+    const text = result.messages[0].content.text;
+    expect(text).toContain('No secrets in code');
+    expect(text).toContain('Skipped tests');
+    expect(text).toContain('"goal":"Ship auth"');
+  });
+
+  it('includes work-type constitutions when present', async () => {
+    fs.mkdirSync(path.join(tempDir, 'constitutions'));
+    fs.writeFileSync(
+      path.join(tempDir, 'constitutions', 'deployment.json'),
+      JSON.stringify({ name: 'Deployment', rules: ['CRITICAL: Always have a rollback plan'], antiPatterns: ['Friday deploys'] })
+    );
+    const { prompts } = await loadPrompts();
+
+    const text = prompts.getWorkflowPrompt('work-type-kickoff', { workType: 'deployment', goal: 'Release v2' }).messages[0].content.text;
+    expect(text).toContain('Always have a rollback plan');
+    expect(text).toContain('Friday deploys');
+  });
+
+  it('rejects unknown prompts and missing arguments', async () => {
+    const { prompts } = await loadPrompts();
+    expect(() => prompts.getWorkflowPrompt('nope')).toThrow('Unknown prompt');
+    expect(() => prompts.getWorkflowPrompt('post-mortem', { goal: 'g' })).toThrow('Missing: outcome');
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ProviderRegistry, checkEnvKeys, providerRegistry } from '../src/utils/providers/index.js';
+import { SUPPORTED_LLM_PROVIDERS, generateResponse } from '../src/utils/llm.js';
+import { PROVIDER_ENV_KEYS } from '../src/cli/env.js';
+import { BUILTIN_TOOLS } from '../src/tools/builtin.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+describe('ProviderRegistry', () => {
+  it('rejects duplicate ids and incomplete providers', () => {
+    const registry = new ProviderRegistry([fakeProvider()]);
+    expect(() => registry.register(fakeProvider())).toThrow('already registered');
+    expect(() => registry.register(fakeProvider({ id: 'Bad Id' }))).toThrow('Invalid provider id');
+    expect(() => registry.register(fakeProvider({ id: 'nogen', generate: undefined as any }))).toThrow('must implement');
+    expect(() => registry.require('missing')).toThrow('Invalid provider specified: missing');
+  });
+
+  it('drives the tool enum and the CLI key list', () => {
+    expect(SUPPORTED_LLM_PROVIDERS).toEqual(providerRegistry.ids());
+    expect(SUPPORTED_LLM_PROVIDERS).toEqual(expect.arrayContaining(['gemini', 'openai', 'openrouter', 'anthropic', 'sampling']));
+    const vibeCheck = BUILTIN_TOOLS.find((tool) => tool.name === 'vibe_check')!;
+    expect((vibeCheck.inputSchema.properties.modelOverride as any).properties.provider.enum).toEqual(SUPPORTED_LLM_PROVIDERS);
+    expect(PROVIDER_ENV_KEYS).toEqual(['ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'GEMINI_API_KEY', 'OPENROUTER_API_KEY']);
+  });
+});
+
+describe('checkEnvKeys', () => {
+  afterEach(() => {
+    delete process.env.FAKE_API_KEY;
+  });
+
+  it('reports missing, malformed and valid keys', () => {
+    const { envKeys } = fakeProvider();
+    expect(checkEnvKeys(envKeys)).toEqual({ ok: false, detail: 'FAKE_API_KEY not set' });
+    process.env.FAKE_API_KEY = 'nope';
+    expect(checkEnvKeys(envKeys)).toEqual({ ok: false, detail: 'Invalid FAKE_API_KEY: must start with "fk-".' });
+    process.env.FAKE_API_KEY = 'fk-123';
+    expect(checkEnvKeys(envKeys).ok).toBe(true);
+  });
+});
+
+// The shared registry has no unregister, so each test registers a provider under its own id
+describe('generateResponse with a registered provider', () => {
+  let storageDir: string;
+
+  beforeEach(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-providers-test-'));
+    process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  });
+
+  afterEach(() => {
+    delete process.env.VIBE_CHECK_STORAGE_DIR;
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('sends system and user messages and uses the provider default model', async () => {
+    const provider = fakeProvider({ id: 'fake-basic' });
+    providerRegistry.register(provider);
+
+    const res = await generateResponse({ goal: 'G', plan: 'P', modelOverride: { provider: 'fake-basic' } });
+
+    expect(res.questions).toBe('reply from fake-large');
+    const [messages, options] = (provider.generate as any).mock.calls[0];
+    expect(messages.map((message: any) => message.role)).toEqual(['system', 'user']);
+    expect(messages[1].content).toContain('Goal: G');
+    expect(options.model).toBe('fake-large');
+  });
+
+  it('retries once with the fallback model', async () => {
+    const generate = vi.fn(async (_messages, { model }) => {
+      if (model === 'fake-large') throw new Error('overloaded');
+      return { text: `reply from ${model}` };
+    });
+    providerRegistry.register(fakeProvider({ id: 'fake-fallback', fallbackModel: 'fake-small', generate }));
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const onProgress = vi.fn();
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'fake-fallback' } }, { onProgress });
+
+    expect(res.questions).toBe('reply from fake-small');
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenCalledWith('Retrying with fallback fake-fallback model (fake-small)');
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,124 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { HttpServerInstance, HttpServerOptions, LoggerLike } from '../src/index.js';
+import { checkProviders, checkReadiness, checkRules, checkStorage } from '../src/utils/readiness.js';
+
+const ENV_KEYS = [
+  'GEMINI_API_KEY',
+  'OPENAI_API_KEY',
+  'OPENROUTER_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'ANTHROPIC_AUTH_TOKEN',
+  'DEFAULT_LLM_PROVIDER',
+  'VIBE_CHECK_STORAGE_DIR',
+  'VIBE_CHECK_RULES_FILE',
+  'VIBE_CHECK_HOT_RELOAD',
+];
+
+let tempHome: string;
+let originalHome: string | undefined;
+let savedEnv: Record<string, string | undefined>;
+let startHttpServer: (options?: HttpServerOptions) => Promise<HttpServerInstance>;
+
+const silentLogger: LoggerLike = {
+  log: vi.fn(),
+  error: vi.fn(),
+};
+
+beforeAll(async () => {
+  originalHome = process.env.HOME;
+  tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-readyz-test-'));
+  process.env.HOME = tempHome;
+  ({ startHttpServer } = await import('../src/index.js'));
+});
+
+afterAll(() => {
+  process.env.HOME = originalHome;
+  fs.rmSync(tempHome, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  for (const key of ENV_KEYS) {
+    delete process.env[key];
+  }
+  process.env.VIBE_CHECK_STORAGE_DIR = fs.mkdtempSync(path.join(tempHome, 'storage-'));
+});
+
+afterEach(() => {
+  for (const [key, value] of Object.entries(savedEnv)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+});
+
+describe('readiness checks', () => {
+  it('fails when the default provider has no key', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    const providers = checkProviders();
+    expect(providers).toMatchObject({ ok: false, defaultProvider: 'gemini' });
+    expect(providers.configured).toMatchObject({ gemini: false, openai: true });
+
+    process.env.DEFAULT_LLM_PROVIDER = 'openai';
+    expect(checkProviders().ok).toBe(true);
+  });
+
+  it('reports rule sets that fail validation', () => {
+    const rulesPath = path.join(process.env.VIBE_CHECK_STORAGE_DIR!, 'constitutional-rules.json');
+    fs.writeFileSync(rulesPath, JSON.stringify({ extends: ['missing.json'], rules: [] }));
+
+    const rules = checkRules();
+    expect(rules.ok).toBe(false);
+    expect(rules.path).toBe(rulesPath);
+  });
+
+  it('accepts a missing rules file', () => {
+    expect(checkRules()).toMatchObject({ ok: true, path: null });
+  });
+
+  it('flags unreadable storage files', () => {
+    const storage = checkStorage();
+    expect(storage.ok).toBe(true);
+    expect(storage.history.exists).toBe(false);
+
+    fs.writeFileSync(storage.learning.path, '{not json');
+    const broken = checkStorage();
+    expect(broken.ok).toBe(false);
+    expect(broken.learning).toMatchObject({ exists: true, readable: false });
+  });
+
+  it('fails when hot reload is enabled without a watcher', () => {
+    process.env.GEMINI_API_KEY = 'AI-test';
+    process.env.VIBE_CHECK_HOT_RELOAD = 'true';
+    const report = checkReadiness();
+    expect(report.status).toBe('not_ready');
+    expect(report.checks.hotReload).toMatchObject({ ok: false, enabled: true });
+  });
+});
+
+describe('/readyz endpoint', () => {
+  it('returns 503 until a provider is configured', async () => {
+    const serverInstance = await startHttpServer({ port: 0, attachSignalHandlers: false, logger: silentLogger });
+    try {
+      const address = serverInstance.listener.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+
+      const notReady = await fetch(`http://127.0.0.1:${port}/readyz`);
+      expect(notReady.status).toBe(503);
+      expect(await notReady.json()).toMatchObject({ status: 'not_ready', checks: { providers: { ok: false } } });
+
+      process.env.GEMINI_API_KEY = 'AI-test';
+      const ready = await fetch(`http://127.0.0.1:${port}/readyz`);
+      expect(ready.status).toBe(200);
+      expect(await ready.json()).toMatchObject({ status: 'ready' });
+    } finally {
+      await serverInstance.close();
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+type ResourcesModule = typeof import('../src/resources/vibeResources.js');
+
+const ORIGINAL_ENV = { ...process.env };
+let tempDir: string;
+
+const RULES = {
+  version: '1.0.0',
+  rules: {
+    'TEST-001': {
+      id: 'TEST-001',
+      name: 'Write tests first',
+      description: 'NEVER ship code without tests',
+      category: 'testing',
+      severity: 'CRITICAL',
+      enabled: true
+    },
+    'DOC-001': {
+      id: 'DOC-001',
+      name: 'Document APIs',
+      description: 'ALWAYS document public APIs',
+      category: 'docs',
+      severity: 'LOW',
+      enabled: false
+    }
+  }
+};
+
+async function loadModules() {
+  vi.resetModules();
+  const resources: ResourcesModule = await import('../src/resources/vibeResources.js');
+  const storage = await import('../src/utils/storage.js');
+  const state = await import('../src/utils/state.js');
+  return { resources, storage, state };
+}
+
+beforeEach(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-resources-test-'));
+  process.env = { ...ORIGINAL_ENV, VIBE_CHECK_STORAGE_DIR: tempDir };
+  delete process.env.VIBE_CHECK_RULES_FILE;
+  fs.writeFileSync(path.join(tempDir, 'constitutional-rules.json'), JSON.stringify(RULES));
+});
+
+afterEach(() => {
+  process.env = { ...ORIGINAL_ENV };
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('vibe resources', () => {
+  it('lists rules, learning categories and sessions with history', async () => {
+    const { resources, storage, state } = await loadModules();
+    storage.addLearningEntry('Skipped tests', 'Feature Creep', 'Added tests', 'mistake');
+    await state.loadHistory();
+    await state.addToHistory('s-1', { goal: 'g', plan: 'p' }, 'guidance');
+
+    const uris = resources.listVibeResources().map((resource) => resource.uri);
+    expect(uris).toEqual(
+      expect.arrayContaining([
+        'vibe://rules/effective',
+        'vibe://rules/TEST-001',
+        'vibe://rules/DOC-001',
+        'vibe://learnings/Feature%20Creep',
+        'vibe://sessions/s-1/history'
+      ])
+    );
+  });
+
+  it('reads effective rules and single rules with their sources', async () => {
+    const { resources } = await loadModules();
+
+    const [effective] = resources.readVibeResource('vibe://rules/effective');
+    const effectivePayload = JSON.parse(effective.text);
+    expect(effective.mimeType).toBe('application/json');
+    expect(effectivePayload.rules.map((rule: any) => rule.id)).toEqual(['TEST-001']);
+
+    const [single] = resources.readVibeResource('vibe://rules/DOC-001');
+    const singlePayload = JSON.parse(single.text);
+    expect(singlePayload.rule.enabled).toBe(false);
+    expect(singlePayload.sources[0]).toContain('constitutional-rules.json');
+  });
+
+  it('reads learnings and session history', async () => {
+    const { resources, storage, state } = await loadModules();
+    storage.addLearningEntry('Skipped tests', 'Feature Creep', 'Added tests', 'mistake');
+    await state.loadHistory();
+    await state.addToHistory('s-2', { goal: 'Ship', plan: 'Deploy' }, 'Ask about rollback');
+
+    const [learnings] = resources.readVibeResource('vibe://learnings/Feature%20Creep');
+    expect(JSON.parse(learnings.text).entries[0].mistake).toBe('Skipped tests');
+
+    const [history] = resources.readVibeResource('vibe://sessions/s-2/history');
+    const payload = JSON.parse(history.text);
+    expect(payload.interactions).toHaveLength(1);
+    expect(payload.interactions[0].output).toBe('Ask about rollback');
+  });
+
+  it('rejects unknown resources', async () => {
+    const { resources } = await loadModules();
+    expect(() => resources.readVibeResource('vibe://rules/MISSING')).toThrow('Resource not found');
+    expect(() => resources.readVibeResource('vibe://nothing/here')).toThrow('Unknown resource');
+    expect(() => resources.readVibeResource('file:///etc/passwd')).toThrow('Unsupported resource URI');
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { providerRegistry } from '../src/utils/providers/index.js';
+import { generateResponse } from '../src/utils/llm.js';
+import { resetConstitution } from '../src/tools/constitution.js';
+import { vibeCheckTool } from '../src/tools/vibeCheck.js';
+import { __testing as circuitTesting } from '../src/utils/circuitBreaker.js';
+import { buildCacheKey, getCacheDir, getCachedResponse, setCachedResponse } from '../src/utils/responseCache.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+const generate = vi.fn(async (_messages, { model }) => ({ text: `fresh answer ${generate.mock.calls.length}`, model }));
+
+const cacheStub = fakeProvider({ id: 'cache-stub', label: 'Cache stub', defaultModel: 'stub-model', generate });
+const down = vi.fn(async () => {
+  throw new Error('provider down');
+});
+const cacheDown = fakeProvider({ id: 'cache-down', label: 'Cache down', defaultModel: 'down-model', generate: down });
+
+const input = { goal: 'Ship it', plan: 'Write tests', modelOverride: { provider: 'cache-stub' }, fallbackChain: [] };
+const keyParts = { provider: 'p', model: 'm', systemPrompt: 's', context: 'c', constitution: [] };
+
+let storageDir: string;
+
+beforeAll(() => {
+  providerRegistry.register(cacheStub);
+  providerRegistry.register(cacheDown);
+});
+
+beforeEach(() => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-cache-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  process.env.VIBE_CHECK_CACHE_TTL_MS = '60000';
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  generate.mockClear();
+  down.mockClear();
+  circuitTesting.reset();
+  delete process.env.LLM_RETRY_MAX_ATTEMPTS;
+  process.env.VIBE_CHECK_CACHE_TTL_MS = '0';
+  delete process.env.VIBE_CHECK_CACHE_MAX_ENTRIES;
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('response cache in generateResponse', () => {
+  it('serves an identical prompt from disk and logs hits and misses', async () => {
+    const first = await generateResponse(input);
+    const second = await generateResponse({ ...input, historySummary: 'Interaction 1: Goal Ship it' });
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ questions: first.questions, provider: 'cache-stub', model: 'stub-model', cached: true });
+    expect(fs.readdirSync(getCacheDir())).toHaveLength(1);
+    expect(console.log).toHaveBeenCalledWith('[Cache] miss', expect.objectContaining({ provider: 'cache-stub' }));
+    expect(console.log).toHaveBeenCalledWith('[Cache] hit', expect.objectContaining({ provider: 'cache-stub' }));
+  });
+
+  it('marks cached answers in the vibe_check output', async () => {
+    const args = { goal: 'Ship it', plan: 'Write tests', modelOverride: { provider: 'cache-stub' }, fallbackChain: ['cache-stub'] };
+    expect((await vibeCheckTool(args)).cached).toBeUndefined();
+    expect(await vibeCheckTool(args)).toMatchObject({ provider: 'cache-stub', cached: true });
+    expect(generate).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks again for noCache, a different plan, model or constitution', async () => {
+    await generateResponse({ ...input, sessionId: 'cache-session' });
+
+    const bypass = await generateResponse({ ...input, sessionId: 'cache-session', noCache: true });
+    expect(bypass.cached).toBeUndefined();
+    await generateResponse({ ...input, sessionId: 'cache-session', plan: 'Skip tests' });
+    await generateResponse({ ...input, sessionId: 'cache-session', modelOverride: { provider: 'cache-stub', model: 'other' } });
+    resetConstitution('cache-session', ['Always write tests']);
+    await generateResponse({ ...input, sessionId: 'cache-session' });
+
+    expect(generate).toHaveBeenCalledTimes(5);
+  });
+
+  it('stores a fallback answer under the provider that gave it', async () => {
+    process.env.LLM_RETRY_MAX_ATTEMPTS = '1';
+    const chained = { ...input, modelOverride: { provider: 'cache-down' }, fallbackChain: [{ provider: 'cache-stub' }] };
+
+    await generateResponse(chained);
+    const again = await generateResponse(chained);
+    expect(again).toMatchObject({ provider: 'cache-stub' });
+    expect(again.cached).toBeUndefined();
+    expect(down).toHaveBeenCalledTimes(2);
+
+    expect(await generateResponse(input)).toMatchObject({ provider: 'cache-stub', cached: true });
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('response cache storage', () => {
+  it('expires entries after the TTL', () => {
+    const key = buildCacheKey(keyParts);
+    setCachedResponse(key, { text: 'answer', provider: 'p', model: 'm' }, 1_000);
+
+    expect(getCachedResponse(key, 30_000)?.text).toBe('answer');
+    expect(getCachedResponse(key, 61_001)).toBeUndefined();
+    expect(fs.readdirSync(getCacheDir())).toHaveLength(0);
+  });
+
+  it('evicts the least recently used entry beyond the size cap', () => {
+    process.env.VIBE_CHECK_CACHE_MAX_ENTRIES = '2';
+    const [a, b, c] = ['a', 'b', 'c'].map((context) => buildCacheKey({ ...keyParts, context }));
+
+    setCachedResponse(a, { text: 'a', provider: 'p' }, 1_000);
+    setCachedResponse(b, { text: 'b', provider: 'p' }, 2_000);
+    getCachedResponse(a, 3_000);
+    setCachedResponse(c, { text: 'c', provider: 'p' }, 4_000);
+
+    expect(getCachedResponse(a, 5_000)?.text).toBe('a');
+    expect(getCachedResponse(b, 5_000)).toBeUndefined();
+    expect(getCachedResponse(c, 5_000)?.text).toBe('c');
+  });
+});
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { generateResponse, __testing } from '../src/utils/llm.js';
+import {
+  computeBackoff,
+  getRetryAfterMs,
+  isRetryableError,
+  parseRetryAfter,
+  ProviderError,
+  withRetry,
+} from '../src/utils/retry.js';
+
+vi.mock('axios');
+const mockedAxios = axios as unknown as { post: ReturnType<typeof vi.fn> };
+
+const ORIGINAL_FETCH = global.fetch;
+const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5, deadlineMs: 1_000 };
+
+let storageDir: string;
+
+beforeEach(() => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-retry-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  process.env.LLM_RETRY_BASE_DELAY_MS = '1';
+});
+
+afterEach(() => {
+  global.fetch = ORIGINAL_FETCH;
+  vi.restoreAllMocks();
+  for (const key of ['LLM_RETRY_BASE_DELAY_MS', 'LLM_RETRY_MAX_ATTEMPTS', 'LLM_RETRY_DEADLINE_MS', 'ANTHROPIC_API_KEY', 'OPENROUTER_API_KEY']) {
+    delete process.env[key];
+  }
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('retry classification', () => {
+  it('retries rate limits, server errors, resets and timeouts only', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ response: { status: 503 } })).toBe(true);
+    expect(isRetryableError(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('timeout'), { name: 'APIConnectionTimeoutError' }))).toBe(true);
+    expect(isRetryableError(new ProviderError('timed out', { retryable: true }))).toBe(true);
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError(new ProviderError('bad key', { status: 401 }))).toBe(false);
+    expect(isRetryableError(new Error('Gemini API key missing.'))).toBe(false);
+  });
+
+  it('reads Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('2', now)).toBe(2_000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5_000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(getRetryAfterMs({ headers: { 'retry-after': '3' } })).toBe(3_000);
+    expect(getRetryAfterMs({ response: { headers: new Headers({ 'retry-after': '1' }) } })).toBe(1_000);
+  });
+
+  it('keeps jittered backoff inside the exponential window', () => {
+    const wide = { ...policy, baseDelayMs: 100, maxDelayMs: 250 };
+    expect(computeBackoff(1, wide, () => 1)).toBe(100);
+    expect(computeBackoff(2, wide, () => 1)).toBe(200);
+    expect(computeBackoff(5, wide, () => 1)).toBe(250);
+    expect(computeBackoff(3, wide, () => 0.5)).toBe(125);
+  });
+});
+
+describe('withRetry', () => {
+  it('waits for Retry-After and succeeds on a later attempt', async () => {
+    const call = vi
+      .fn()
+      .mockRejectedValueOnce(new ProviderError('rate limited', { status: 429, retryAfterMs: 20 }))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(call, { deadline: Date.now() + 1_000, label: 'test', policy, onRetry })).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delayMs: 20 }));
+  });
+
+  it('stops at the attempt limit and when a wait would pass the deadline', async () => {
+    const failing = vi.fn(async () => {
+      throw { status: 503 };
+    });
+    await expect(withRetry(failing, { deadline: Date.now() + 1_000, label: 'test', policy })).rejects.toEqual({ status: 503 });
+    expect(failing).toHaveBeenCalledTimes(3);
+
+    const limited = vi.fn(async () => {
+      throw new ProviderError('rate limited', { status: 429, retryAfterMs: 60_000 });
+    });
+    await expect(withRetry(limited, { deadline: Date.now() + 1_000, label: 'test', policy })).rejects.toThrow('rate limited');
+    expect(limited).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry non-retryable errors and aborts while waiting', async () => {
+    const badRequest = vi.fn(async () => {
+      throw { status: 400 };
+    });
+    await expect(withRetry(badRequest, { deadline: Date.now() + 1_000, label: 'test', policy })).rejects.toEqual({ status: 400 });
+    expect(badRequest).toHaveBeenCalledTimes(1);
+
+    const controller = new AbortController();
+    const slow = vi.fn(async () => {
+      setTimeout(() => controller.abort(), 10);
+      throw new ProviderError('rate limited', { status: 429, retryAfterMs: 500 });
+    });
+    await expect(
+      withRetry(slow, { deadline: Date.now() + 1_000, label: 'test', policy, signal: controller.signal })
+    ).rejects.toThrow();
+    expect(slow).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('provider retries', () => {
+  it('retries Anthropic after a 429 with Retry-After', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-xxx';
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('{"error":{"message":"slow down"}}', { status: 429, headers: { 'retry-after': '0' } }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ content: [{ type: 'text', text: 'after retry' }] }), { status: 200 }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const onProgress = vi.fn();
+
+    const res = await generateResponse(
+      { goal: 'g', plan: 'p', modelOverride: { provider: 'anthropic', model: 'claude-3' }, fallbackChain: [] },
+      { onProgress }
+    );
+
+    expect(res.questions).toBe('after retry');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenCalledWith('Retrying anthropic in 0ms');
+  });
+
+  it('retries Gemini server errors before moving to the fallback model', async () => {
+    const generateContent = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error('[503 Service Unavailable] overloaded'), { status: 503 }))
+      .mockResolvedValueOnce({ response: { text: () => 'gemini after retry' } });
+    __testing.setGenAI({ getGenerativeModel: vi.fn(() => ({ generateContent })) });
+
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'gemini' }, fallbackChain: [] });
+
+    expect(res).toMatchObject({ questions: 'gemini after retry', model: 'gemini-2.5-pro' });
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('cuts a hung attempt off at the deadline and tries nothing after it', async () => {
+    process.env.LLM_RETRY_DEADLINE_MS = '50';
+    const generateContent = vi.fn(() => new Promise(() => {}));
+    __testing.setGenAI({ getGenerativeModel: vi.fn(() => ({ generateContent })) });
+
+    await expect(
+      generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'gemini' }, fallbackChain: [] })
+    ).rejects.toThrow(/timed out after \d+ms/);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries dropped OpenRouter connections', async () => {
+    process.env.OPENROUTER_API_KEY = 'sk-or-xxx';
+    mockedAxios.post
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockResolvedValueOnce({ data: { choices: [{ message: { content: 'openrouter reply' } }] } });
+
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'openrouter', model: 'm1' }, fallbackChain: [] });
+
+    expect(res.questions).toBe('openrouter reply');
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { parseMentorResponse } from '../src/utils/riskAnalysis.js';
+
+describe('parseMentorResponse', () => {
+  it('treats plain prose as questions without analysis', () => {
+    expect(parseMentorResponse('Have you considered a simpler approach?')).toEqual({
+      questions: 'Have you considered a simpler approach?',
+      analysis: undefined
+    });
+  });
+
+  it('parses fenced JSON and clamps out-of-range scores', () => {
+    const result = parseMentorResponse(
+      '```json\n{"questions":"Slow down.","riskScore":85,"traits":["feature_creep"],"ruleViolations":"API-002","recommendedActions":["Trim scope"]}\n```'
+    );
+    expect(result.questions).toBe('Slow down.');
+    expect(result.analysis).toEqual({
+      riskScore: 0.85,
+      traits: ['feature-creep'],
+      ruleViolations: ['API-002'],
+      recommendedActions: ['Trim scope']
+    });
+  });
+
+  it('rescales whole 0-10 and 0-100 scores and clamps the rest', () => {
+    const score = (riskScore: unknown) => parseMentorResponse(JSON.stringify({ riskScore })).analysis?.riskScore;
+
+    expect(score(5)).toBe(0.5);
+    expect(score(10)).toBe(1);
+    expect(score(100)).toBe(1);
+    expect(score('40')).toBe(0.4);
+    expect(score(1)).toBe(1);
+    expect(score(1.5)).toBe(1);
+    expect(score(10.5)).toBe(1);
+    expect(score(250)).toBe(1);
+    expect(score(-3)).toBe(0);
+  });
+
+  it('keeps surrounding prose when JSON is embedded in the reply', () => {
+    const result = parseMentorResponse(
+      'You seem to be looping.\n{"riskScore":0.4,"traits":["looping"],"ruleViolations":[],"recommendedActions":["Stop and ask"]}'
+    );
+    expect(result.questions).toBe('You seem to be looping.');
+    expect(result.analysis?.traits).toEqual(['looping']);
+  });
+
+  it('ignores unrelated objects inside prose', () => {
+    const text = 'Consider returning {"ok": true} from the handler.';
+    expect(parseMentorResponse(text)).toEqual({ questions: text });
+  });
+});
@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { buildSamplingRequest, createServerSamplingClient } from '../src/utils/sampling.js';
+
+let tempHome: string;
+let originalHome: string | undefined;
+let buildMcpServer: typeof import('../src/index.js').buildMcpServer;
+
+beforeAll(async () => {
+  originalHome = process.env.HOME;
+  tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-sampling-test-'));
+  process.env.HOME = tempHome;
+  fs.mkdirSync(path.join(tempHome, '.vibe-check'));
+  ({ buildMcpServer } = await import('../src/index.js'));
+});
+
+afterAll(() => {
+  process.env.HOME = originalHome;
+  fs.rmSync(tempHome, { recursive: true, force: true });
+});
+
+async function connect(capabilities: Record<string, unknown>) {
+  const server = buildMcpServer();
+  const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return { server, client };
+}
+
+describe('sampling provider', () => {
+  it('builds a createMessage request with model hints and a token budget', () => {
+    const params = buildSamplingRequest({ systemPrompt: 'sys', compiledPrompt: 'ctx', model: 'claude-sonnet', maxTokens: 256 });
+    expect(params.systemPrompt).toBe('sys');
+    expect(params.messages).toEqual([{ role: 'user', content: { type: 'text', text: 'ctx' } }]);
+    expect(params.maxTokens).toBe(256);
+    expect(params.modelPreferences?.hints).toEqual([{ name: 'claude-sonnet' }]);
+  });
+
+  it('is unavailable when the client does not declare sampling', async () => {
+    const { server, client } = await connect({});
+    expect(createServerSamplingClient(server)).toBeUndefined();
+    await client.close();
+  });
+
+  it('answers vibe_check with the client model', async () => {
+    const { client } = await connect({ sampling: {} });
+    const handler = vi.fn(async () => ({
+      role: 'assistant' as const,
+      model: 'ide-model',
+      content: {
+        type: 'text' as const,
+        text: JSON.stringify({
+          questions: 'Did you check the rollback path?',
+          riskScore: 0.4,
+          traits: [],
+          ruleViolations: [],
+          recommendedActions: []
+        })
+      }
+    }));
+    client.setRequestHandler(CreateMessageRequestSchema, handler);
+
+    const result = await client.callTool({
+      name: 'vibe_check',
+      arguments: { goal: 'Ship', plan: 'Deploy now', modelOverride: { provider: 'sampling' } }
+    });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect((result.content as any[])[0].text).toContain('Did you check the rollback path?');
+    expect((result.structuredContent as any).analysis.riskScore).toBe(0.4);
+    await client.close();
+  });
+});
@@ -0,0 +1,240 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import axios from 'axios';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { generateResponse, __testing } from '../src/utils/llm.js';
+import { extractPartialQuestions } from '../src/utils/riskAnalysis.js';
+import { readSseData } from '../src/utils/providers/sse.js';
+import { throttleProgress } from '../src/utils/progress.js';
+import { providerRegistry } from '../src/utils/providers/index.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+vi.mock('axios');
+const mockedAxios = axios as unknown as { post: ReturnType<typeof vi.fn> };
+
+const ORIGINAL_FETCH = global.fetch;
+const reply = ['{"questions": "Have you ', 'checked the\\nrollback', '?", "riskScore": 0.4, "traits": [], "ruleViolations": [], "recommendedActions": []}'];
+
+function sseBody(events: unknown[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`));
+      }
+      controller.close();
+    }
+  });
+}
+
+async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+  const items: string[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+afterEach(() => {
+  global.fetch = ORIGINAL_FETCH;
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  for (const key of ['ANTHROPIC_API_KEY', 'OPENROUTER_API_KEY', 'LOCAL_LLM_BASE_URL', 'LLM_STREAMING']) {
+    delete process.env[key];
+  }
+});
+
+describe('stream parsing', () => {
+  it('decodes the questions field of a partial JSON reply', () => {
+    expect(extractPartialQuestions('{"questions": "Have you\\nconsid')).toBe('Have you\nconsid');
+    expect(extractPartialQuestions('{"questions": "Say \\"no\\" \\u00e9')).toBe('Say "no" é');
+    expect(extractPartialQuestions('{"questions": "Trailing \\')).toBe('Trailing ');
+    expect(extractPartialQuestions('{"questions": "Done", "riskScore": 0.1')).toBe('Done');
+    expect(extractPartialQuestions('```json\n{"risk')).toBe('');
+    expect(extractPartialQuestions('Plain prose reply')).toBe('Plain prose reply');
+  });
+
+  it('reads SSE data split across chunks, skipping comments and [DONE]', async () => {
+    const chunks = [': OPENROUTER PROCESSING\n\n', 'data: {"a"', ':1}\r\n\r\ndata: line one\ndata: line two\n\n', 'data: [DONE]\n\n', 'data: tail'];
+    expect(await collect(readSseData(Readable.from(chunks)))).toEqual(['{"a":1}', 'line one\nline two', 'tail']);
+  });
+
+  it('throttles partial output without a trailing send', () => {
+    vi.useFakeTimers();
+    const report = vi.fn();
+    const throttled = throttleProgress(report, 250);
+    throttled('a');
+    throttled('ab');
+    vi.advanceTimersByTime(300);
+    throttled('abc');
+    expect(report.mock.calls).toEqual([['a'], ['abc']]);
+  });
+});
+
+describe('provider streaming', () => {
+  let storageDir: string;
+
+  beforeEach(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-streaming-test-'));
+    process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  });
+
+  afterEach(() => {
+    delete process.env.VIBE_CHECK_STORAGE_DIR;
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('streams OpenAI chunks and still returns the parsed result', async () => {
+    const create = vi.fn(async (params: any) => {
+      expect(params.stream).toBe(true);
+      return (async function* () {
+        for (const content of reply) yield { model: 'o4-mini-2025', choices: [{ delta: { content } }] };
+      })();
+    });
+    __testing.setOpenAIClient({ chat: { completions: { create } } });
+    const onPartialText = vi.fn();
+
+    const res = await generateResponse(
+      { goal: 'g', plan: 'p', modelOverride: { provider: 'openai', model: 'o4-mini' }, fallbackChain: [] },
+      { onPartialText }
+    );
+
+    expect(onPartialText.mock.calls).toEqual([['Have you '], ['Have you checked the\nrollback'], ['Have you checked the\nrollback?']]);
+    expect(res).toMatchObject({ questions: 'Have you checked the\nrollback?', model: 'o4-mini-2025' });
+    expect(res.analysis?.riskScore).toBe(0.4);
+  });
+
+  it('streams Gemini chunks', async () => {
+    const generateContentStream = vi.fn(async () => ({
+      stream: (async function* () {
+        for (const text of reply) yield { text: () => text };
+      })()
+    }));
+    __testing.setGenAI({ getGenerativeModel: vi.fn(() => ({ generateContentStream })) });
+    const onPartialText = vi.fn();
+
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'gemini' }, fallbackChain: [] }, { onPartialText });
+
+    expect(onPartialText).toHaveBeenCalledTimes(3);
+    expect(res.questions).toBe('Have you checked the\nrollback?');
+  });
+
+  it('streams Anthropic text deltas and surfaces stream errors', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-xxx';
+    const deltas = reply.map((text) => ({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } }));
+    const fetchMock = vi.fn(async () =>
+      new Response(sseBody([{ type: 'message_start' }, ...deltas, { type: 'message_stop' }]), {
+        headers: { 'content-type': 'text/event-stream' }
+      })
+    );
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const onPartialText = vi.fn();
+    const input = { goal: 'g', plan: 'p', modelOverride: { provider: 'anthropic', model: 'claude-3' }, fallbackChain: [] };
+
+    const res = await generateResponse(input, { onPartialText });
+    expect(JSON.parse((fetchMock.mock.calls[0] as any[])[1].body).stream).toBe(true);
+    expect(onPartialText).toHaveBeenCalledTimes(3);
+    expect(res.questions).toBe('Have you checked the\nrollback?');
+
+    fetchMock.mockImplementation(async () =>
+      new Response(sseBody([{ type: 'error', error: { type: 'invalid_request_error', message: 'prompt too long' } }]), {
+        headers: { 'content-type': 'text/event-stream' }
+      })
+    );
+    await expect(generateResponse({ ...input, noCache: true }, { onPartialText })).rejects.toThrow('Anthropic stream failed: prompt too long');
+  });
+
+  it('streams local and OpenRouter chat completion chunks', async () => {
+    process.env.LOCAL_LLM_BASE_URL = 'http://127.0.0.1:1/v1';
+    const chunks = reply.map((content) => ({ model: 'qwen', choices: [{ delta: { content } }] }));
+    global.fetch = vi.fn(async () =>
+      new Response(sseBody([...chunks, '[DONE]']), { headers: { 'content-type': 'text/event-stream' } })
+    ) as unknown as typeof fetch;
+    const local = vi.fn();
+    const localRes = await generateResponse(
+      { goal: 'g', plan: 'p', modelOverride: { provider: 'local', model: 'qwen' }, fallbackChain: [] },
+      { onPartialText: local }
+    );
+    expect(local).toHaveBeenCalledTimes(3);
+    expect(localRes.questions).toBe('Have you checked the\nrollback?');
+
+    process.env.OPENROUTER_API_KEY = 'sk-or-xxx';
+    mockedAxios.post.mockResolvedValueOnce({
+      data: Readable.from([': OPENROUTER PROCESSING\n\n', ...chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`), 'data: [DONE]\n\n'])
+    });
+    const openrouter = vi.fn();
+    const routerRes = await generateResponse(
+      { goal: 'g', plan: 'p', modelOverride: { provider: 'openrouter', model: 'm1' }, fallbackChain: [] },
+      { onPartialText: openrouter }
+    );
+    expect(mockedAxios.post.mock.calls[0][2]).toMatchObject({ responseType: 'stream' });
+    expect(openrouter).toHaveBeenCalledTimes(3);
+    expect(routerRes.questions).toBe('Have you checked the\nrollback?');
+  });
+
+  it('uses blocking calls when LLM_STREAMING=false', async () => {
+    process.env.LLM_STREAMING = 'false';
+    const generateContent = vi.fn(async () => ({ response: { text: () => 'blocking reply' } }));
+    __testing.setGenAI({ getGenerativeModel: vi.fn(() => ({ generateContent })) });
+    const onPartialText = vi.fn();
+
+    const res = await generateResponse({ goal: 'g', plan: 'p', modelOverride: { provider: 'gemini' }, fallbackChain: [] }, { onPartialText });
+
+    expect(res.questions).toBe('blocking reply');
+    expect(onPartialText).not.toHaveBeenCalled();
+  });
+});
+
+describe('vibe_check over MCP', () => {
+  let tempHome: string;
+  let originalHome: string | undefined;
+
+  const streamingStub = fakeProvider({
+    id: 'stream-stub',
+    label: 'Streaming stub',
+    capabilities: { jsonMode: false, systemPrompt: true, clientSampling: false, streaming: true },
+    defaultModel: 'stub-model',
+    async generate(_messages, { onText }) {
+      for (const text of reply) onText?.(text);
+      return { text: reply.join('') };
+    },
+  });
+
+  beforeAll(() => {
+    originalHome = process.env.HOME;
+    tempHome = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-stream-test-'));
+    process.env.HOME = tempHome;
+    fs.mkdirSync(path.join(tempHome, '.vibe-check'));
+    providerRegistry.register(streamingStub);
+  });
+
+  afterAll(() => {
+    process.env.HOME = originalHome;
+    fs.rmSync(tempHome, { recursive: true, force: true });
+  });
+
+  it('relays partial output as progress and returns the full text', async () => {
+    const { buildMcpServer } = await import('../src/index.js');
+    const server = buildMcpServer();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    const onprogress = vi.fn();
+    // The tool schema's provider enum is fixed at import, so select the stub as the default
+    process.env.DEFAULT_LLM_PROVIDER = 'stream-stub';
+
+    const result: any = await client.callTool(
+      { name: 'vibe_check', arguments: { goal: 'g', plan: 'p' } },
+      undefined,
+      { onprogress }
+    );
+
+    expect(onprogress.mock.calls.map(([p]) => p.message)).toContain('Have you ');
+    expect(result.structuredContent.questions).toBe('Have you checked the\nrollback?');
+    delete process.env.DEFAULT_LLM_PROVIDER;
+    await client.close();
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { generateResponse, __testing } from '../src/utils/llm.js';
+import { estimateTokens, fitContextToBudget } from '../src/utils/tokenBudget.js';
+
+const critical = `🚨 ${'c'.repeat(78)}`;
+const high = `⚠️ ${'h'.repeat(76)}`;
+const history = ['History Context:', ...[1, 2, 3].map((i) => `Interaction ${i}: ${'x'.repeat(65)}`)].join('\n');
+const learnings = `Category: A (count: 1)\n- ${'m'.repeat(40)}`;
+
+const sections = {
+  goal: 'g'.repeat(40),
+  plan: 'p'.repeat(400),
+  rules: [high, critical],
+  historySummary: history,
+  learningContext: learnings,
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.VIBE_CHECK_CONTEXT_BUDGET_TOKENS;
+});
+
+describe('token estimation', () => {
+  it('uses a per-model characters-per-token ratio', () => {
+    const text = 'a'.repeat(400);
+    expect(estimateTokens(text, 'gpt-4o')).toBe(100);
+    expect(estimateTokens(text, 'gemini-2.5-pro')).toBe(100);
+    expect(estimateTokens(text, 'claude-3-5-sonnet')).toBe(115);
+    expect(estimateTokens(text, 'qwen2.5:7b')).toBe(125);
+    expect(estimateTokens(text)).toBe(125);
+    expect(estimateTokens('')).toBe(0);
+  });
+});
+
+describe('fitContextToBudget', () => {
+  it('leaves the context alone when it fits', () => {
+    const result = fitContextToBudget(sections, 'gpt-4o', 10_000);
+    expect(result.truncated).toEqual([]);
+    expect(result.sections).toMatchObject(sections);
+  });
+
+  it('keeps CRITICAL rules and the plan, then recent history, before learnings', () => {
+    const { sections: fitted, truncated } = fitContextToBudget(sections, 'gpt-4o', 200);
+
+    expect(fitted.rules).toEqual([high, critical]);
+    expect(fitted.plan).toBe(sections.plan);
+    expect(fitted.historySummary?.split('\n')).toEqual([
+      'History Context:',
+      `Interaction 2: ${'x'.repeat(65)}`,
+      `Interaction 3: ${'x'.repeat(65)}`,
+    ]);
+    expect(fitted.learningContext).toBeUndefined();
+    expect(truncated).toEqual([
+      { section: 'history', action: 'compacted', tokens: 63, keptTokens: 42 },
+      { section: 'learnings', action: 'dropped', tokens: 19, keptTokens: 0 },
+    ]);
+  });
+
+  it('compacts the plan and drops lower sections under a tight budget', () => {
+    const { sections: fitted, truncated } = fitContextToBudget(sections, 'gpt-4o', 60);
+
+    expect(fitted.rules).toEqual([critical]);
+    expect(fitted.plan).toMatch(/^p+ … \[truncated, ~\d+ tokens omitted\]$/);
+    expect(estimateTokens(fitted.plan, 'gpt-4o')).toBeLessThanOrEqual(28);
+    expect(truncated.map(({ section, action }) => `${section}:${action}`)).toEqual([
+      'rules:compacted',
+      'plan:compacted',
+      'history:dropped',
+      'learnings:dropped',
+    ]);
+  });
+
+  it('keeps the same rules whatever the length of the plan', () => {
+    const short = fitContextToBudget({ ...sections, plan: 'p'.repeat(40) }, 'gpt-4o', 60);
+    const long = fitContextToBudget({ ...sections, plan: 'p'.repeat(4000) }, 'gpt-4o', 60);
+
+    expect(short.sections.rules).toEqual([critical]);
+    expect(long.sections.rules).toEqual(short.sections.rules);
+  });
+});
+
+describe('generateResponse budget', () => {
+  let storageDir: string;
+
+  beforeEach(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-budget-test-'));
+    process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  });
+
+  afterEach(() => {
+    delete process.env.VIBE_CHECK_STORAGE_DIR;
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('sends the fitted context and reports what was cut', async () => {
+    process.env.VIBE_CHECK_CONTEXT_BUDGET_TOKENS = '40';
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const generateContent = vi.fn(async () => ({ response: { text: () => 'reply' } }));
+    __testing.setGenAI({ getGenerativeModel: vi.fn(() => ({ generateContent })) });
+
+    const res = await generateResponse({
+      goal: 'Ship',
+      plan: 'Plan',
+      taskContext: 't'.repeat(400),
+      historySummary: history,
+      modelOverride: { provider: 'gemini' },
+      fallbackChain: [],
+    });
+
+    const prompt = (generateContent.mock.calls[0] as unknown as [string])[0];
+    expect(prompt).toContain('History Context: None');
+    expect(prompt).toMatch(/Task Context: t+ … \[truncated/);
+    expect(res.truncated?.map(({ section }) => section)).toEqual(['taskContext', 'history']);
+    expect(console.log).toHaveBeenCalledWith('[LLM:budget] context truncated', expect.objectContaining({ budget: 40 }));
+  });
+});
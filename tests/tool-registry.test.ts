@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ToolDefinition, ToolRegistry, loadToolPlugins, validateToolArguments } from '../src/tools/registry.js';
+import { BUILTIN_TOOLS } from '../src/tools/builtin.js';
+import { toolContext } from './helpers/toolContext.js';
+
+const echoTool: ToolDefinition = {
+  name: 'echo',
+  description: 'Echo a message',
+  example: { message: 'hi' },
+  inputSchema: {
+    type: 'object',
+    properties: {
+      message: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string' } },
+      level: { type: 'string', enum: ['low', 'high'] }
+    },
+    required: ['message'],
+    additionalProperties: false
+  },
+  handler: (args) => ({ content: [{ type: 'text', text: JSON.stringify(args) }] })
+};
+
+const context = toolContext();
+
+describe('validateToolArguments', () => {
+  afterEach(() => {
+    delete process.env.MCP_DISCOVERY_MODE;
+  });
+
+  it('reports missing required fields with an example', () => {
+    expect(() => validateToolArguments(echoTool, {})).toThrow('Missing: message. Example: {"message":"hi"}');
+  });
+
+  it('reports wrong types and enum values', () => {
+    expect(() => validateToolArguments(echoTool, { message: 'x', tags: ['a', 2], level: 'mid' })).toThrow(
+      'Invalid: tags[1] (expected string), level (expected one of "low", "high")'
+    );
+  });
+
+  it('uses discovery hints in discovery mode', () => {
+    process.env.MCP_DISCOVERY_MODE = '1';
+    expect(() => validateToolArguments(echoTool, { tags: 'a' })).toThrow(
+      'discovery: missing [message]; invalid [tags (expected array)]; example: {"message":"hi"}'
+    );
+  });
+
+  it('drops unknown properties and nulls', () => {
+    expect(validateToolArguments(echoTool, { message: 'x', extra: true, level: null })).toEqual({ message: 'x' });
+  });
+});
+
+describe('ToolRegistry', () => {
+  it('lists the built-in tools from their schemas', () => {
+    const registry = new ToolRegistry(BUILTIN_TOOLS);
+    const tools = registry.list();
+    expect(tools.map((tool) => tool.name)).toEqual([
+      'vibe_check',
+      'vibe_learn',
+      'update_constitution',
+      'reset_constitution',
+      'check_constitution'
+    ]);
+    expect(tools[0].inputSchema.required).toEqual(['goal', 'plan']);
+    expect(tools[0].outputSchema).toBeDefined();
+    expect(registry.scopeOf('vibe_learn')).toBe('learn');
+    expect(registry.scopeOf('check_constitution')).toBe('read-only');
+  });
+
+  it('validates before calling the handler', async () => {
+    const handler = vi.fn(echoTool.handler);
+    const registry = new ToolRegistry([{ ...echoTool, handler }]);
+    await expect(registry.call('echo', { message: 1 }, context)).rejects.toThrow('Invalid: message (expected string)');
+    expect(handler).not.toHaveBeenCalled();
+    const result = await registry.call('echo', { message: 'ok', extra: 1 }, context);
+    expect(result.content[0].text).toBe('{"message":"ok"}');
+  });
+
+  it('rejects unknown tools, duplicates and bad definitions', async () => {
+    const registry = new ToolRegistry([echoTool]);
+    await expect(registry.call('nope', {}, context)).rejects.toThrow('Unknown tool: nope');
+    expect(() => registry.register(echoTool)).toThrow('already registered');
+    expect(() => registry.register({ ...echoTool, name: 'bad name' })).toThrow('Invalid tool name');
+    expect(() => registry.register({ ...echoTool, name: 'scoped', scope: 'root' as any })).toThrow('unknown scope');
+  });
+});
+
+describe('loadToolPlugins', () => {
+  let pluginDir: string;
+
+  beforeEach(() => {
+    pluginDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-tools-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(pluginDir, { recursive: true, force: true });
+  });
+
+  it('registers tools exported by plugin modules', async () => {
+    fs.writeFileSync(
+      path.join(pluginDir, 'release.mjs'),
+      `export default {
+        name: 'release_readiness',
+        description: 'Check release readiness',
+        example: { version: '1.2.0' },
+        scope: 'learn',
+        inputSchema: { type: 'object', properties: { version: { type: 'string' } }, required: ['version'] },
+        handler: async ({ version }) => ({ content: [{ type: 'text', text: 'ready ' + version }] })
+      };`
+    );
+    fs.writeFileSync(path.join(pluginDir, 'notes.txt'), 'ignored');
+
+    const registry = new ToolRegistry([echoTool]);
+    const loaded = await loadToolPlugins(registry, pluginDir);
+
+    expect(loaded).toEqual(['release_readiness']);
+    expect(registry.scopeOf('release_readiness')).toBe('learn');
+    const result = await registry.call('release_readiness', { version: '1.2.0' }, context);
+    expect(result.content[0].text).toBe('ready 1.2.0');
+  });
+
+  it('skips broken plugins and name collisions', async () => {
+    fs.writeFileSync(path.join(pluginDir, 'a-broken.mjs'), 'export default {');
+    fs.writeFileSync(
+      path.join(pluginDir, 'b-collision.mjs'),
+      `export default { name: 'echo', description: 'dup', inputSchema: { type: 'object', properties: {} }, handler: () => ({ content: [] }) };`
+    );
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const registry = new ToolRegistry([echoTool]);
+    expect(await loadToolPlugins(registry, pluginDir)).toEqual([]);
+    expect(registry.get('echo')?.description).toBe('Echo a message');
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+    errorSpy.mockRestore();
+  });
+
+  it('returns nothing when the directory does not exist', async () => {
+    expect(await loadToolPlugins(new ToolRegistry(), path.join(pluginDir, 'missing'))).toEqual([]);
+  });
+});
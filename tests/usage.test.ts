@@ -0,0 +1,201 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { providerRegistry } from '../src/utils/providers/index.js';
+import { generateResponse, __testing } from '../src/utils/llm.js';
+import { vibeCheckTool } from '../src/tools/vibeCheck.js';
+import { getSessionHistory, loadHistory } from '../src/utils/state.js';
+import { createCliProgram } from '../src/cli/index.js';
+import { findPrice, getPriceTable, readUsageLedger, recordUsage, summarizeUsage, UsageEntry } from '../src/utils/usage.js';
+import { fakeProvider } from './helpers/fakeProvider.js';
+
+const ORIGINAL_FETCH = global.fetch;
+
+const generate = vi.fn(async () => ({ text: 'reply' }));
+
+const unreportedStub = fakeProvider({ id: 'usage-stub', label: 'Usage stub', defaultModel: 'stub-model', generate });
+
+const input = { goal: 'g', plan: 'p', fallbackChain: [] };
+
+let storageDir: string;
+
+function entry(overrides: Partial<UsageEntry>): UsageEntry {
+  return {
+    timestamp: Date.parse('2026-03-01T10:00:00Z'),
+    project: 'shop',
+    sessionId: 's1',
+    provider: 'gemini',
+    model: 'gemini-2.5-pro',
+    inputTokens: 1000,
+    outputTokens: 100,
+    costUsd: 0.00225,
+    ...overrides,
+  };
+}
+
+beforeAll(() => {
+  providerRegistry.register(unreportedStub);
+});
+
+beforeEach(() => {
+  storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vibe-usage-test-'));
+  process.env.VIBE_CHECK_STORAGE_DIR = storageDir;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  global.fetch = ORIGINAL_FETCH;
+  vi.restoreAllMocks();
+  generate.mockClear();
+  process.exitCode = undefined;
+  delete process.env.ANTHROPIC_API_KEY;
+  delete process.env.VIBE_CHECK_STORAGE_DIR;
+  fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe('provider usage', () => {
+  it('records Gemini usage metadata in the ledger and the output', async () => {
+    const generateContent = vi.fn(async () => ({
+      response: { text: () => 'reply', usageMetadata: { promptTokenCount: 1200, candidatesTokenCount: 300 } },
+    }));
+    __testing.setGenAI({ getGenerativeModel: vi.fn(() => ({ generateContent })) });
+
+    const res = await generateResponse({ ...input, sessionId: 'shop-feature-adhoc-1', modelOverride: { provider: 'gemini' } });
+
+    expect(res.usage).toEqual({ provider: 'gemini', model: 'gemini-2.5-pro', inputTokens: 1200, outputTokens: 300, costUsd: 0.0045 });
+    expect(readUsageLedger()).toEqual([
+      expect.objectContaining({ sessionId: 'shop-feature-adhoc-1', provider: 'gemini', inputTokens: 1200, outputTokens: 300 }),
+    ]);
+  });
+
+  it('reads OpenAI usage, including the final chunk of a stream', async () => {
+    const create = vi.fn(async (params: any) => {
+      if (!params.stream) {
+        return { model: 'gpt-4o-mini', choices: [{ message: { content: 'reply' } }], usage: { prompt_tokens: 50, completion_tokens: 5 } };
+      }
+      expect(params.stream_options).toEqual({ include_usage: true });
+      return (async function* () {
+        yield { choices: [{ delta: { content: 'reply' } }] };
+        yield { choices: [], usage: { prompt_tokens: 70, completion_tokens: 7 } };
+      })();
+    });
+    __testing.setOpenAIClient({ chat: { completions: { create } } });
+    const modelOverride = { provider: 'openai', model: 'gpt-4o-mini' };
+
+    const blocking = await generateResponse({ ...input, modelOverride });
+    const streamed = await generateResponse({ ...input, modelOverride, noCache: true }, { onPartialText: () => {} });
+
+    expect(blocking.usage).toMatchObject({ inputTokens: 50, outputTokens: 5 });
+    expect(streamed.usage).toMatchObject({ inputTokens: 70, outputTokens: 7 });
+  });
+
+  it('adds Anthropic input tokens from message_start to the output total', async () => {
+    process.env.ANTHROPIC_API_KEY = 'sk-ant-xxx';
+    const events = [
+      { type: 'message_start', message: { usage: { input_tokens: 900, output_tokens: 1 } } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'reply' } },
+      { type: 'message_delta', usage: { output_tokens: 40 } },
+    ];
+    global.fetch = vi.fn(async () =>
+      new Response(events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join(''), {
+        headers: { 'content-type': 'text/event-stream' },
+      })
+    ) as unknown as typeof fetch;
+
+    const res = await generateResponse(
+      { ...input, modelOverride: { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' } },
+      { onPartialText: () => {} }
+    );
+
+    expect(res.usage).toEqual({
+      provider: 'anthropic',
+      model: 'claude-3-5-sonnet-20241022',
+      inputTokens: 900,
+      outputTokens: 40,
+      costUsd: 0.0033,
+    });
+  });
+
+  it('estimates tokens when the provider reports none and stores usage with the history entry', async () => {
+    await loadHistory();
+    const result = await vibeCheckTool({ goal: 'g', plan: 'p', sessionId: 'usage-session', modelOverride: { provider: 'usage-stub' } });
+
+    expect(result.usage).toMatchObject({ provider: 'usage-stub', model: 'stub-model', estimated: true });
+    expect(result.usage?.inputTokens).toBeGreaterThan(0);
+    expect(result.usage?.costUsd).toBeUndefined();
+    expect(getSessionHistory('usage-session')[0].usage).toEqual(result.usage);
+  });
+});
+
+describe('pricing', () => {
+  it('prices by the longest matching model or provider prefix', () => {
+    expect(findPrice('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(findPrice('openai', 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(findPrice('local', 'qwen2.5:7b')).toEqual({ input: 0, output: 0 });
+    expect(findPrice('openrouter', 'meta-llama/llama-3-70b')).toBeUndefined();
+  });
+
+  it('lets the project config add and override prices', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fs.writeFileSync(
+      path.join(storageDir, 'vibe-check.config.json'),
+      JSON.stringify({ prices: { 'openrouter:meta-llama/': { input: 0.5, output: 0.5 }, 'o4-mini': { input: 1, output: 4 }, bad: { input: 'x' } } })
+    );
+
+    expect(findPrice('openrouter', 'meta-llama/llama-3-70b')).toEqual({ input: 0.5, output: 0.5 });
+    expect(recordUsage('s1', { provider: 'openai', model: 'o4-mini', usage: { inputTokens: 1_000_000, outputTokens: 500_000 } }).costUsd).toBe(3);
+    expect(getPriceTable().bad).toBeUndefined();
+  });
+});
+
+describe('usage reports', () => {
+  const entries = [
+    entry({}),
+    entry({ sessionId: 's2', timestamp: Date.parse('2026-03-02T09:00:00Z'), cacheReadTokens: 400, cacheWriteTokens: 50, costUsd: 0.01 }),
+    entry({ sessionId: 's2', provider: 'usage-stub', model: 'stub-model', costUsd: undefined, timestamp: Date.parse('2026-03-02T23:00:00Z') }),
+  ];
+
+  it('aggregates by session and day', () => {
+    expect(summarizeUsage(entries, 'session')).toEqual([
+      { key: 's2', calls: 2, inputTokens: 2000, outputTokens: 200, cacheReadTokens: 400, cacheWriteTokens: 50, costUsd: 0.01, unpricedCalls: 1 },
+      { key: 's1', calls: 1, inputTokens: 1000, outputTokens: 100, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0.00225, unpricedCalls: 0 },
+    ]);
+    expect(summarizeUsage(entries, 'day').map(({ key, calls }) => [key, calls])).toEqual([['2026-03-01', 1], ['2026-03-02', 2]]);
+    expect(
+      summarizeUsage([...entries, entry({ sessionId: 'shop-feature-SHOP-42-20260301-a1b2c3d4' })], 'ticket').map(({ key, calls }) => [key, calls])
+    ).toEqual([['none', 3], ['SHOP-42', 1]]);
+  });
+
+  it('prints a table and exports CSV from the CLI', async () => {
+    fs.writeFileSync(path.join(storageDir, 'usage.jsonl'), `${entries.map((e) => JSON.stringify(e)).join('\n')}\n{"truncated`);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const log = vi.mocked(console.log);
+    const csvFile = path.join(storageDir, 'usage.csv');
+
+    await createCliProgram().parseAsync(['node', 'vibe-check-mcp', 'usage', '--by', 'provider', '--storage-dir', storageDir]);
+    const table = String(log.mock.calls.at(-1)?.[0]).split('\n');
+    expect(table[0]).toMatch(/^provider\s+calls\s+input tokens\s+output tokens\s+cache read\s+cache write\s+cost$/);
+    expect(table[1]).toMatch(/^gemini\s+2\s+2000\s+200\s+400\s+50\s+\$0\.0123$/);
+    expect(table.at(-1)).toMatch(/^total\s+3\s+3000\s+300\s+400\s+50\s+\$0\.0123 \(\+1 unpriced\)$/);
+
+    await createCliProgram().parseAsync(['node', 'vibe-check-mcp', 'usage', '--by', 'session', '--storage-dir', storageDir, '--output', csvFile]);
+    expect(fs.readFileSync(csvFile, 'utf8').split('\n').slice(0, 2)).toEqual([
+      'session,calls,input_tokens,output_tokens,cache_read_tokens,cache_write_tokens,cost_usd,unpriced_calls',
+      's2,2,2000,200,400,50,0.01,1',
+    ]);
+
+    await createCliProgram().parseAsync([
+      'node', 'vibe-check-mcp', 'usage', '--raw', '--since', '2026-03-02', '--until', '2026-03-02',
+      '--storage-dir', storageDir, '--output', csvFile,
+    ]);
+    expect(fs.readFileSync(csvFile, 'utf8').split('\n')).toEqual([
+      'timestamp,project,session,provider,model,input_tokens,output_tokens,cache_read_tokens,cache_write_tokens,cost_usd,estimated',
+      '2026-03-02T09:00:00.000Z,shop,s2,gemini,gemini-2.5-pro,1000,100,400,50,0.01,false',
+      '2026-03-02T23:00:00.000Z,shop,s2,usage-stub,stub-model,1000,100,0,0,,false',
+      '',
+    ]);
+    expect(process.exitCode).toBeUndefined();
+  });
+});
@@ -6,7 +6,10 @@ import * as state from '../src/utils/state.js';
 vi.mock('../src/utils/llm.js');
 vi.mock('../src/utils/state.js');
 
-const mockedLLM = llm as unknown as { getMetacognitiveQuestions: ReturnType<typeof vi.fn> };
+const mockedLLM = llm as unknown as {
+  getMetacognitiveQuestions: ReturnType<typeof vi.fn>;
+  isAbortError: ReturnType<typeof vi.fn>;
+};
 const mockedState = state as unknown as {
   addToHistory: ReturnType<typeof vi.fn>;
   getHistorySummary: ReturnType<typeof vi.fn>;
@@ -17,6 +20,7 @@ beforeEach(() => {
   mockedState.getHistorySummary = vi.fn().mockReturnValue('Mock history');
   mockedState.addToHistory = vi.fn();
   mockedLLM.getMetacognitiveQuestions = vi.fn().mockResolvedValue({ questions: 'Mock guidance' });
+  mockedLLM.isAbortError = vi.fn((_error: unknown, signal?: AbortSignal) => Boolean(signal?.aborted));
 });
 
 describe('vibeCheckTool', () => {
@@ -24,26 +28,45 @@ describe('vibeCheckTool', () => {
     const result = await vibeCheckTool({ goal: 'Test goal', plan: 'Test plan' });
     expect(result.questions).toBe('Mock guidance');
     expect(mockedLLM.getMetacognitiveQuestions).toHaveBeenCalledWith(
-      expect.objectContaining({ goal: 'Test goal', plan: 'Test plan', historySummary: 'Mock history' })
+      expect.objectContaining({ goal: 'Test goal', plan: 'Test plan', historySummary: 'Mock history' }),
+      {}
     );
   });
 
   it('passes model override to llm', async () => {
     await vibeCheckTool({ goal: 'g', plan: 'p', modelOverride: { provider: 'openai' } });
     expect(mockedLLM.getMetacognitiveQuestions).toHaveBeenCalledWith(
-      expect.objectContaining({ modelOverride: { provider: 'openai' } })
+      expect.objectContaining({ modelOverride: { provider: 'openai' } }),
+      {}
     );
   });
 
+  it('passes the generation context to llm', async () => {
+    const sampling = { createMessage: vi.fn() };
+    await vibeCheckTool({ goal: 'g', plan: 'p' }, { sampling });
+    expect(mockedLLM.getMetacognitiveQuestions).toHaveBeenCalledWith(expect.anything(), { sampling });
+  });
+
+  it('does not record cancelled checks in history', async () => {
+    const controller = new AbortController();
+    mockedLLM.getMetacognitiveQuestions = vi.fn(async () => {
+      controller.abort();
+      return { questions: 'Too late' };
+    });
+    await expect(vibeCheckTool({ goal: 'g', plan: 'p', sessionId: 's1' }, { signal: controller.signal })).rejects.toThrow();
+    expect(mockedState.addToHistory).not.toHaveBeenCalled();
+  });
+
   it('adds to history on each call', async () => {
     await vibeCheckTool({ goal: 'A', plan: 'B', sessionId: 's1' });
     await vibeCheckTool({ goal: 'C', plan: 'D', sessionId: 's1' });
     expect(mockedState.addToHistory).toHaveBeenCalledTimes(2);
   });
 
-  it('falls back to default questions when llm fails', async () => {
+  it('falls back to the offline reviewer when llm fails', async () => {
     mockedLLM.getMetacognitiveQuestions = vi.fn().mockRejectedValue(new Error('fail'));
     const result = await vibeCheckTool({ goal: 'x', plan: 'y' });
     expect(result.questions).toContain('Does this plan directly address');
+    expect(result).toMatchObject({ degraded: true, degradedReason: 'fail' });
   });
 });
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { vibeLearnTool } from '../src/tools/vibeLearn.js';
+import { ToolRegistry } from '../src/tools/registry.js';
+import { BUILTIN_TOOLS } from '../src/tools/builtin.js';
 import * as storage from '../src/utils/storage.js';
+import { toolContext } from './helpers/toolContext.js';
 
 vi.mock('../src/utils/storage.js');
 
@@ -30,4 +33,12 @@ describe('vibeLearnTool', () => {
     expect(mockedStorage.addLearningEntry).toHaveBeenCalled();
     expect(res.topCategories[0].category).toBe('Test');
   });
+
+  it('accepts free-form categories through the tool and normalizes them', async () => {
+    const registry = new ToolRegistry(BUILTIN_TOOLS);
+    const result = await registry.call('vibe_learn', { mistake: 'Added an unrequested export format', category: 'scope creep', solution: 'Dropped it' }, toolContext());
+
+    expect(result.content[0].text).toContain('Pattern logged successfully');
+    expect(mockedStorage.addLearningEntry).toHaveBeenCalledWith('Added an unrequested export format.', 'Feature Creep', 'Dropped it.', 'mistake');
+  });
 });